@@ -1,9 +1,27 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { Upload, BrainCircuit, RefreshCw, ExternalLink } from 'lucide-react';
-import { DashboardData, DataRow } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Upload, ExternalLink, AlertTriangle, X, Columns3, Plus, Merge, ChevronDown, Bot, Trash2, CloudOff } from 'lucide-react';
+import { ColumnMapping, DashboardData } from './types';
 import Dashboard from './components/Dashboard';
-import { analyzeDataWithGemini } from './services/geminiService';
+import ColumnMappingScreen from './components/ColumnMappingScreen';
+import SourceJoinPanel from './components/SourceJoinPanel';
+import LlmSettingsPanel from './components/LlmSettingsPanel';
+import { CsvParseError } from './services/csvParser';
+import { findProfileFor, sanitizeMapping, saveProfile, suggestMapping } from './services/columnMapping';
+import { withUtmColumns } from './services/utm';
+import { DataSource } from './services/join';
+import { LlmSettings, loadLlmSettings, saveLlmSettings } from './services/llm';
+import { ViewState, readUrlState, writeUrlState } from './services/viewState';
+import { CachedWorkspace, cacheWorkspace, clearCachedWorkspace, loadCachedWorkspace } from './services/localDb';
+import { fetchSheetCsv, fetchSheetTables, loadRefreshInterval, parseTabList, saveRefreshInterval } from './services/sheetFetch';
+import { SheetTable, readWorkbook, tablesToDashboardData } from './services/workbook';
+import { SnapshotDiff, diffSnapshots, hasChanges } from './services/snapshotDiff';
+import { INGEST_PHASE_LABELS, IngestProgress, IngestResult } from './services/ingest';
+import { parseCsv } from './services/dataWorkerClient';
+import RefreshControl from './components/RefreshControl';
+import WorkbookTabPicker from './components/WorkbookTabPicker';
+import DataQualityPanel from './components/DataQualityPanel';
+import { QualityChoices, QualityFocus, QualityIssue, QUALITY_KIND_LABELS, analyzeDataQuality, applyQualityActions } from './services/dataQuality';
 
 const Logo = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-layers2-icon lucide-layers-2">
@@ -12,105 +30,312 @@ const Logo = () => (
   </svg>
 );
 
+// Leitura no worker: bytes lidos, depois linhas interpretadas; a detecção de tipos não tem porcentagem
+const IngestProgressBar = ({ progress }: { progress: IngestProgress }) => {
+  const percent = Math.round(progress.ratio * 100);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <span>{INGEST_PHASE_LABELS[progress.phase]}...</span>
+        {progress.phase !== 'types' && <span>{percent}%</span>}
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full bg-indigo-600 transition-all ${progress.phase === 'types' ? 'animate-pulse' : ''}`} style={{ width: progress.phase === 'types' ? '100%' : `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+// Referência fixa: um {} novo a cada render refaria a limpeza dos dados
+const NO_QUALITY_CHOICES: QualityChoices = {};
+
 const App: React.FC = () => {
-  const [data, setData] = useState<DashboardData | null>(null);
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [addingSource, setAddingSource] = useState(false);
+  const [joining, setJoining] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [insights, setInsights] = useState<string | null>(null);
-  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
   const [sheetUrl, setSheetUrl] = useState('');
+  const [sheetTabs, setSheetTabs] = useState('');
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string, tables: SheetTable[] } | null>(null);
+  const [parseErrors, setParseErrors] = useState<CsvParseError[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [activeProfile, setActiveProfile] = useState<string | null>(null);
+  const [editingMapping, setEditingMapping] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showLlmSettings, setShowLlmSettings] = useState(false);
+  const [initialView, setInitialView] = useState<Partial<ViewState> | undefined>(undefined);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const viewRef = useRef<ViewState | null>(null);
+  const openedRef = useRef(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [refreshInterval, setRefreshInterval] = useState(loadRefreshInterval);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshDiff, setRefreshDiff] = useState<SnapshotDiff | null>(null);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [qualityFocus, setQualityFocus] = useState<QualityFocus | null>(null);
+  // O polling roda num setInterval; lê as fontes pela ref para não comparar com um snapshot velho
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
 
-  const parseCSV = (csvText: string) => {
-    const lines = csvText.split(/\r?\n/).filter(line => line.trim() !== '');
-    if (lines.length === 0) return null;
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    
-    const cleanAndParse = (val: string) => {
-      if (val === undefined || val === null || val.trim() === '') return '';
-      
-      let cleaned = val.trim().replace(/^"|"$/g, '');
-      
-      // Detecção de formato brasileiro e financeiro
-      // Ex: R$ 1.200,50 ou 4,00%
-      if (cleaned.includes('R$') || cleaned.includes('%') || /^-?[\d\.]+,[\d]+$/.test(cleaned)) {
-        cleaned = cleaned
-          .replace('R$', '')
-          .replace('%', '')
-          .replace(/\s/g, '');
-        
-        // Se houver ponto e vírgula, o ponto é milhar e a vírgula é decimal (BR)
-        if (cleaned.includes(',') && cleaned.includes('.')) {
-          cleaned = cleaned.replace(/\./g, '').replace(',', '.');
-        } else if (cleaned.includes(',')) {
-          // Se houver apenas vírgula, tratamos como decimal
-          cleaned = cleaned.replace(',', '.');
-        }
-      }
-      
-      const num = Number(cleaned);
-      return !isNaN(num) && cleaned !== '' ? num : cleaned;
-    };
+  const activeSource = sources.find(s => s.id === activeId) ?? null;
+  const data: DashboardData | null = activeSource?.data ?? null;
+  const activeUrl = activeSource?.url ?? null;
+  const activeTabs = activeSource?.tabs;
 
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim());
-      const row: DataRow = {};
-      headers.forEach((header, index) => {
-        row[header] = cleanAndParse(values[index] || '');
-      });
-      return row;
-    });
+  // O painel enxerga os dados já tratados; a análise roda sobre a fonte original para as escolhas poderem ser desfeitas
+  const qualityReport = useMemo(() => data ? analyzeDataQuality(data) : null, [data]);
+  const qualityChoices = activeSource?.quality ?? NO_QUALITY_CHOICES;
+  const cleanData = useMemo(
+    () => data && qualityReport ? applyQualityActions(data, qualityReport, qualityChoices) : data,
+    [data, qualityReport, qualityChoices]
+  );
+
+  const activateSource = (source: DataSource) => {
+    setActiveId(source.id);
+    setQualityFocus(null);
+    // Visão da URL vale só para a primeira planilha aberta; trocar de fonte começa do zero
+    setInitialView(undefined);
+    setRefreshDiff(null);
+    setRefreshError(null);
+    setAddingSource(false);
+    setJoining(false);
 
-    const types: Record<string, 'number' | 'string'> = {};
-    headers.forEach(header => {
-      const firstVal = rows.find(r => r[header] !== undefined && r[header] !== '' && typeof r[header] === 'number')?.[header];
-      types[header] = typeof firstVal === 'number' ? 'number' : 'string';
+    // Planilha já conhecida: reaplica o perfil salvo sem passar pela tela de mapeamento
+    const profile = findProfileFor(source.data.headers);
+    setMapping(profile ? sanitizeMapping(profile.mapping, source.data.headers) : null);
+    setActiveProfile(profile?.name ?? null);
+    setEditingMapping(!profile);
+  };
+
+  const addSource = (source: DataSource) => {
+    setSources(prev => [...prev, source]);
+    activateSource(source);
+  };
+
+  // Várias abas são empilhadas antes da inferência de tipos, que então enxerga todas as linhas
+  const buildSourceData = (tables: SheetTable[]): DashboardData | null => {
+    const parsed = tablesToDashboardData(tables);
+    return parsed ? withUtmColumns(parsed) : null;
+  };
+
+  const addParsedSource = ({ data: parsed, errors }: IngestResult, name: string, url?: string, tabs: string[] = []) => {
+    setParseErrors(errors);
+    if (!parsed) return false;
+    addSource({
+      // Sufixo aleatório: abrir uma fonte por aba cria várias no mesmo milissegundo
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      data: parsed,
+      url,
+      tabs: tabs.length ? tabs : undefined,
+      fetchedAt: url ? Date.now() : undefined,
     });
+    setCachedAt(null);
+    return true;
+  };
+
+  const applyTables = (tables: SheetTable[], errors: CsvParseError[], name: string, url?: string, tabs: string[] = []) =>
+    addParsedSource({ data: buildSourceData(tables), errors }, name, url, tabs);
+
+  // Uma aba só: o CSV é lido no worker. Várias abas são empilhadas aqui, antes da inferência de tipos
+  const fetchSheetData = async (url: string, tabs: string[] = []): Promise<IngestResult> => {
+    if (tabs.length > 1) {
+      const { tables, errors } = await fetchSheetTables(url, tabs);
+      return { data: buildSourceData(tables), errors };
+    }
+    return parseCsv(await fetchSheetCsv(url, tabs[0]), setProgress);
+  };
+
+  const restoreWorkspace = (cached: CachedWorkspace) => {
+    const active = cached.sources.find(s => s.id === cached.activeId) ?? cached.sources[0];
+    setSources(cached.sources);
+    activateSource(active);
+    setCachedAt(cached.savedAt);
+  };
 
-    return { headers, rows, types };
+  const applyMapping = (next: ColumnMapping, profileName: string | null) => {
+    if (!data) return;
+    if (profileName !== null) saveProfile(profileName, data.headers, next);
+    setMapping(next);
+    setActiveProfile(profileName);
+    setEditingMapping(false);
+  };
+
+  const updateLlmSettings = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    saveLlmSettings(settings);
+  };
+
+  const openLlmSettings = () => {
+    setShowLlmSettings(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const resetData = () => {
+    clearCachedWorkspace().catch(() => {});
+    writeUrlState(null, null);
+    viewRef.current = null;
+    setCachedAt(null);
+    setSources([]);
+    setActiveId(null);
+    setAddingSource(false);
+    setJoining(false);
+    setParseErrors([]);
+    setMapping(null);
+    setActiveProfile(null);
+    setEditingMapping(false);
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Limpa o input para que escolher o mesmo arquivo de novo dispare o onChange
+    event.target.value = '';
+    const name = file.name.replace(/\.[^.]+$/, '');
 
     setLoading(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const parsed = parseCSV(text);
-      if (parsed) setData(parsed);
+    setLoadError(null);
+    try {
+      if (/\.xlsx?$/i.test(file.name)) {
+        const tables = await readWorkbook(await file.arrayBuffer());
+        if (tables.length === 0) throw new Error('nenhuma aba com dados.');
+        if (tables.length === 1) applyTables(tables, [], name);
+        else setPendingWorkbook({ fileName: name, tables });
+      } else {
+        addParsedSource(await parseCsv(file, setProgress), name);
+      }
+    } catch (error) {
+      setLoadError(`Não foi possível ler o arquivo: ${(error as Error).message}`);
+    } finally {
       setLoading(false);
-    };
-    reader.readAsText(file);
+      setProgress(null);
+    }
   };
 
-  const loadFromUrl = async () => {
-    if (!sheetUrl) return;
+  const openWorkbookTabs = (tables: SheetTable[], append: boolean) => {
+    if (!pendingWorkbook) return;
+    const { fileName } = pendingWorkbook;
+    setPendingWorkbook(null);
+    if (tables.length === 1) applyTables(tables, [], `${fileName} · ${tables[0].name}`);
+    else if (append) applyTables(tables, [], fileName);
+    else tables.forEach(t => applyTables([t], [], `${fileName} · ${t.name}`));
+  };
+
+  const loadSheet = async (url: string, tabs: string[] = []): Promise<boolean> => {
     setLoading(true);
+    setLoadError(null);
     try {
-      let targetUrl = sheetUrl;
-      if (sheetUrl.includes('/edit')) {
-        targetUrl = sheetUrl.replace(/\/edit.*$/, '/export?format=csv');
-      }
-      const response = await fetch(targetUrl);
-      const csvText = await response.text();
-      const parsed = parseCSV(csvText);
-      if (parsed) setData(parsed);
+      const result = await fetchSheetData(url, tabs);
+      return addParsedSource(result, tabs.length ? tabs.join(' + ') : `Planilha ${sources.length + 1}`, url, tabs);
     } catch (error) {
-      alert("Erro ao carregar link. Use a opção 'Publicar na Web' do Google Sheets como CSV.");
+      setLoadError((error as Error).message);
+      return false;
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
-  const generateAIInsights = async () => {
+  const loadFromUrl = async () => {
+    if (!sheetUrl) return;
+    await loadSheet(sheetUrl, parseTabList(sheetTabs));
+  };
+
+  // Recarrega a fonte no lugar (mesmo id), mantendo filtros e visão do Dashboard
+  const refreshSource = async (id: string | null) => {
+    const source = sourcesRef.current.find(s => s.id === id);
+    if (!source?.url) return;
+    setRefreshing(true);
+    try {
+      const { data: parsed, errors } = await fetchSheetData(source.url, source.tabs);
+      setParseErrors(errors);
+      if (!parsed) throw new Error('O CSV atualizado não tem linhas.');
+      const diff = diffSnapshots(source.data, parsed);
+      const fetchedAt = Date.now();
+      if (hasChanges(diff)) setQualityFocus(null);
+      // Sem mudanças, mantém o mesmo objeto de dados para não recalcular o Dashboard
+      setSources(prev => prev.map(s => s.id === source.id
+        ? { ...s, data: hasChanges(diff) ? parsed : s.data, fetchedAt }
+        : s));
+      setRefreshDiff(diff);
+      setRefreshError(null);
+      setCachedAt(null);
+    } catch (error) {
+      setRefreshError((error as Error).message);
+    } finally {
+      setRefreshing(false);
+      setProgress(null);
+    }
+  };
+
+  const updateQualityChoices = (choices: QualityChoices) =>
+    setSources(prev => prev.map(s => s.id === activeId ? { ...s, quality: choices } : s));
+
+  // As linhas vão como vieram da fonte, inclusive as que as escolhas tiraram ou corrigiram
+  const showQualityRows = (issue: QualityIssue) => {
     if (!data) return;
-    setAnalyzing(true);
-    const result = await analyzeDataWithGemini(data);
-    setInsights(result);
-    setAnalyzing(false);
+    setQualityFocus({
+      label: issue.column ? `${QUALITY_KIND_LABELS[issue.kind]} · ${issue.column}` : QUALITY_KIND_LABELS[issue.kind],
+      column: issue.column,
+      rows: issue.rows.map(i => data.rows[i]),
+    });
+  };
+
+  const updateRefreshInterval = (minutes: number) => {
+    setRefreshInterval(minutes);
+    saveRefreshInterval(minutes);
   };
 
+  // Aba em segundo plano não consulta; a próxima rodada com a aba visível atualiza
+  useEffect(() => {
+    if (!refreshInterval || !activeUrl) return;
+    const timer = setInterval(() => {
+      if (!document.hidden) refreshSource(activeId);
+    }, refreshInterval * 60000);
+    return () => clearInterval(timer);
+  }, [refreshInterval, activeId, activeUrl]);
+
+  // Abertura: link compartilhado (?sheet=...&view=...) tem prioridade; sem link ou offline, usa o último dataset em cache
+  useEffect(() => {
+    // StrictMode executa o efeito duas vezes em dev; sem a trava a planilha seria adicionada em dobro
+    if (openedRef.current) return;
+    openedRef.current = true;
+    const { sheetUrl: linkedSheet, tabs: linkedTabs, view } = readUrlState();
+    const open = async () => {
+      const cached = await loadCachedWorkspace().catch(() => null);
+      if (linkedSheet) {
+        setSheetUrl(linkedSheet);
+        setSheetTabs(linkedTabs.join(', '));
+        if (await loadSheet(linkedSheet, linkedTabs)) {
+          setInitialView(view);
+          return;
+        }
+      }
+      if (cached && cached.sources.length > 0 && (!linkedSheet || cached.sources.some(s => s.url === linkedSheet))) {
+        restoreWorkspace(cached);
+        setInitialView(view);
+      }
+    };
+    open();
+  }, []);
+
+  useEffect(() => {
+    if (sources.length === 0) return;
+    // Restaurar do cache não renova a data: o indicador continua mostrando quando os dados foram baixados
+    cacheWorkspace({ sources, activeId, savedAt: cachedAt ?? Date.now() }).catch(() => {});
+  }, [sources, activeId, cachedAt]);
+
+  useEffect(() => {
+    if (sources.length > 0) writeUrlState(activeUrl, viewRef.current, activeTabs);
+  }, [activeUrl, activeTabs]);
+
+  const handleViewChange = useCallback((view: ViewState) => {
+    viewRef.current = view;
+    writeUrlState(activeUrl, view, activeTabs);
+  }, [activeUrl, activeTabs]);
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
       <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
@@ -121,63 +346,196 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-black text-slate-800 tracking-tighter uppercase">utmdash</h1>
           </div>
-          <div className="flex space-x-3">
+          <div className="flex items-center space-x-3">
+            {cachedAt && (
+              <span title="Dados restaurados do cache local; recarregue para buscar a versão atual" className="hidden md:inline-flex items-center text-[10px] font-bold text-amber-600">
+                <CloudOff className="w-3 h-3 mr-1" />
+                Cache de {new Date(cachedAt).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+            {sources.length > 0 && (
+              <div className="relative">
+                <select
+                  value={activeId ?? ''}
+                  onChange={e => { const next = sources.find(s => s.id === e.target.value); if (next) activateSource(next); }}
+                  className="bg-slate-100 rounded-xl pl-4 pr-8 py-2 text-xs font-bold text-slate-600 appearance-none cursor-pointer max-w-[200px] truncate outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {sources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+              </div>
+            )}
+            {sources.length > 0 && (
+              <button
+                onClick={() => { setAddingSource(true); setJoining(false); }}
+                title="Adicionar fonte"
+                className="p-2 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-all"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            )}
+            {sources.length > 1 && (
+              <button
+                onClick={() => { setJoining(true); setAddingSource(false); }}
+                className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all"
+              >
+                <Merge className="w-4 h-4 mr-2" />
+                Combinar
+              </button>
+            )}
             {data && (
               <button
-                onClick={generateAIInsights}
-                disabled={analyzing}
-                className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                onClick={() => setShowLlmSettings(v => !v)}
+                title="Configurações de IA"
+                className="p-2 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-all"
+              >
+                <Bot className="w-4 h-4" />
+              </button>
+            )}
+            {data && mapping && !editingMapping && (
+              <button
+                onClick={() => setEditingMapping(true)}
+                title={activeProfile ? `Perfil: ${activeProfile}` : undefined}
+                className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all"
               >
-                <BrainCircuit className="w-4 h-4 mr-2" />
-                {analyzing ? 'Analisando...' : 'Insights IA'}
+                <Columns3 className="w-4 h-4 mr-2" />
+                {activeProfile || 'Colunas'}
+              </button>
+            )}
+            {activeUrl && (
+              <RefreshControl
+                fetchedAt={activeSource?.fetchedAt}
+                interval={refreshInterval}
+                onIntervalChange={updateRefreshInterval}
+                onRefresh={() => refreshSource(activeId)}
+                refreshing={refreshing}
+                diff={refreshDiff}
+                onDismissDiff={() => setRefreshDiff(null)}
+                error={refreshError}
+              />
+            )}
+            {sources.length > 0 && (
+              <button onClick={resetData} title="Fechar dados e limpar cache" className="p-2 text-slate-400 hover:text-rose-500 transition-colors">
+                <Trash2 className="w-5 h-5" />
               </button>
             )}
-            <button onClick={() => setData(null)} className="p-2 text-slate-400 hover:text-slate-600 transition-colors">
-              <RefreshCw className="w-5 h-5" />
-            </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
-        {!data ? (
-          <div className="flex flex-col items-center justify-center py-24 bg-white rounded-[40px] border border-slate-200 shadow-sm">
-            <h2 className="text-3xl font-black mb-2 text-slate-800 tracking-tighter">Conecte seu Dashboard</h2>
-            <p className="text-slate-500 mb-10 max-w-sm text-center font-medium">Gestão de tráfego simplificada. Conecte sua planilha Google para análise em tempo real.</p>
+        {!data || addingSource ? (
+          <div className="relative flex flex-col items-center justify-center py-24 bg-white rounded-[40px] border border-slate-200 shadow-sm">
+            {addingSource && (
+              <button onClick={() => setAddingSource(false)} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+            )}
+            <h2 className="text-3xl font-black mb-2 text-slate-800 tracking-tighter">{addingSource ? 'Adicionar Fonte' : 'Conecte seu Dashboard'}</h2>
+            <p className="text-slate-500 mb-10 max-w-sm text-center font-medium">
+              {addingSource
+                ? 'Carregue outra exportação (ex.: vendas do checkout) para combinar com as fontes já abertas.'
+                : 'Gestão de tráfego simplificada. Conecte sua planilha Google para análise em tempo real.'}
+            </p>
             <div className="w-full max-w-md space-y-4">
-              <input
-                type="text"
-                placeholder="Link CSV do Google Sheets"
-                className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-medium"
-                value={sheetUrl}
-                onChange={(e) => setSheetUrl(e.target.value)}
-              />
-              <button
-                onClick={loadFromUrl}
-                disabled={loading || !sheetUrl}
-                className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 transition-all flex items-center justify-center disabled:opacity-50"
-              >
-                {loading ? 'CONECTANDO...' : 'CARREGAR DADOS'}
-              </button>
-              <div className="relative py-4">
-                <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-slate-200"></div></div>
-                <div className="relative flex justify-center text-xs font-bold uppercase tracking-widest text-slate-400"><span className="px-2 bg-white">OU</span></div>
-              </div>
-              <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-indigo-100 border-dashed rounded-2xl cursor-pointer bg-indigo-50/30 hover:bg-indigo-50 transition-all">
-                <span className="text-xs font-bold text-indigo-600">UPLOAD CSV LOCAL</span>
-                <input type="file" className="hidden" accept=".csv" onChange={handleFileUpload} />
-              </label>
+              {pendingWorkbook ? (
+                <WorkbookTabPicker
+                  fileName={pendingWorkbook.fileName}
+                  tables={pendingWorkbook.tables}
+                  onConfirm={openWorkbookTabs}
+                  onCancel={() => setPendingWorkbook(null)}
+                />
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    placeholder="Link CSV do Google Sheets"
+                    className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-medium"
+                    value={sheetUrl}
+                    onChange={(e) => setSheetUrl(e.target.value)}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Abas (opcional): nomes ou gids separados por vírgula"
+                    title="Várias abas são empilhadas num único dataset, com a coluna Aba indicando a origem"
+                    className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm font-medium"
+                    value={sheetTabs}
+                    onChange={(e) => setSheetTabs(e.target.value)}
+                  />
+                  <button
+                    onClick={loadFromUrl}
+                    disabled={loading || !sheetUrl}
+                    className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 transition-all flex items-center justify-center disabled:opacity-50"
+                  >
+                    {loading ? 'CONECTANDO...' : 'CARREGAR DADOS'}
+                  </button>
+                  {progress && <IngestProgressBar progress={progress} />}
+                  {loadError && (
+                    <p className="text-xs font-bold text-rose-500 flex items-start"><AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" /> {loadError}</p>
+                  )}
+                  <div className="relative py-4">
+                    <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-slate-200"></div></div>
+                    <div className="relative flex justify-center text-xs font-bold uppercase tracking-widest text-slate-400"><span className="px-2 bg-white">OU</span></div>
+                  </div>
+                  <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-indigo-100 border-dashed rounded-2xl cursor-pointer bg-indigo-50/30 hover:bg-indigo-50 transition-all">
+                    <span className="text-xs font-bold text-indigo-600">UPLOAD CSV OU EXCEL</span>
+                    <input type="file" className="hidden" accept=".csv,.xlsx,.xls" onChange={handleFileUpload} />
+                  </label>
+                </>
+              )}
             </div>
           </div>
         ) : (
           <div className="space-y-6">
-            {insights && (
-              <div className="bg-indigo-950 rounded-[32px] p-8 text-white shadow-2xl animate-in fade-in slide-in-from-top-4 duration-500 border border-white/10">
-                <h3 className="text-xl font-black mb-4 flex items-center text-indigo-400"><BrainCircuit className="w-6 h-6 mr-2" /> RECOMENDAÇÕES ESTRATÉGICAS</h3>
-                <div className="prose prose-invert max-w-none text-indigo-100 font-medium whitespace-pre-line">{insights}</div>
+            {parseErrors.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-[24px] p-5 text-amber-800">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xs font-black uppercase tracking-widest flex items-center"><AlertTriangle className="w-4 h-4 mr-2" /> {parseErrors.length} problema(s) na leitura do CSV</h3>
+                  <button onClick={() => setParseErrors([])} className="text-amber-500 hover:text-amber-700"><X className="w-4 h-4" /></button>
+                </div>
+                <ul className="mt-3 space-y-1 text-[11px] font-bold max-h-32 overflow-y-auto scrollbar-thin">
+                  {parseErrors.slice(0, 50).map((err, i) => (
+                    <li key={i}>Linha {err.line}: {err.message}</li>
+                  ))}
+                </ul>
               </div>
             )}
-            <Dashboard data={data} />
+            {qualityReport && qualityReport.issues.length > 0 && !editingMapping && mapping && (
+              <DataQualityPanel
+                key={activeId ?? undefined}
+                report={qualityReport}
+                choices={qualityChoices}
+                onChange={updateQualityChoices}
+                onShowRows={showQualityRows}
+              />
+            )}
+            {showLlmSettings && (
+              <LlmSettingsPanel settings={llmSettings} onChange={updateLlmSettings} onClose={() => setShowLlmSettings(false)} />
+            )}
+            {joining && (
+              <SourceJoinPanel sources={sources} onCreate={addSource} onClose={() => setJoining(false)} />
+            )}
+            {editingMapping || !mapping ? (
+              <ColumnMappingScreen
+                key={activeId ?? undefined}
+                data={data}
+                initial={mapping ?? suggestMapping(data)}
+                initialProfileName={activeProfile ?? undefined}
+                onApply={applyMapping}
+                onCancel={mapping ? () => setEditingMapping(false) : undefined}
+              />
+            ) : (
+              <Dashboard
+                key={activeId ?? undefined}
+                data={cleanData ?? data}
+                mapping={mapping}
+                llm={llmSettings}
+                onConfigureLlm={openLlmSettings}
+                initialView={initialView}
+                sheetUrl={activeUrl}
+                onViewChange={handleViewChange}
+                focus={qualityFocus}
+                onClearFocus={() => setQualityFocus(null)}
+              />
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Bell, Plus, Trash2, X, ChevronDown, Settings2, Filter as FilterIcon } from 'lucide-react';
+import { DashboardData, InsightSeverity } from '../types';
+import { CompiledMetric } from '../services/metrics';
+import {
+  ALERT_KIND_LABELS, ALERT_OPERATOR_LABELS, AlertCondition, AlertConditionKind, AlertEvaluation, AlertHit, AlertOperator, AlertRule,
+  createAlertCondition, createAlertRule, ruleError, withNewId,
+} from '../services/alerts';
+import { SEVERITY_STYLES } from './theme';
+
+interface AlertsPanelProps {
+  data: DashboardData;
+  rules: AlertRule[];
+  evaluation: AlertEvaluation;
+  catalog: CompiledMetric[];
+  dimensions: string[];
+  dateColumn?: string;
+  templates: AlertRule[];
+  onChangeRules: (rules: AlertRule[]) => void;
+  canFilter: (hit: AlertHit) => boolean;
+  onFilter: (hit: AlertHit) => void;
+}
+
+const inputClass = "bg-white border border-slate-200 rounded-xl px-3 py-2 text-[11px] font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative">
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} appearance-none cursor-pointer pr-7 max-w-[200px] truncate`}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ data, rules, evaluation, catalog, dimensions, dateColumn, templates, onChangeRules, canFilter, onFilter }) => {
+  const [editing, setEditing] = useState(false);
+
+  const metricOptions = catalog.map(m => ({ value: m.key, label: m.label }));
+  const dimensionOptions = dimensions.map(d => ({ value: d, label: d }));
+  const kindOptions = (Object.keys(ALERT_KIND_LABELS) as AlertConditionKind[])
+    .filter(k => k === 'value' || dateColumn)
+    .map(k => ({ value: k, label: ALERT_KIND_LABELS[k] }));
+  const operatorOptions = (Object.keys(ALERT_OPERATOR_LABELS) as AlertOperator[]).map(o => ({ value: o, label: ALERT_OPERATOR_LABELS[o] }));
+  const severityOptions = (Object.keys(SEVERITY_STYLES) as InsightSeverity[]).map(s => ({ value: s, label: SEVERITY_STYLES[s].label }));
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    onChangeRules(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const updateCondition = (rule: AlertRule, index: number, patch: Partial<AlertCondition>) =>
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => i === index ? { ...c, ...patch } : c) });
+
+  const addRule = (rule: AlertRule) => {
+    onChangeRules([...rules, rule]);
+    setEditing(true);
+  };
+
+  // Modelos já adicionados (pelo nome) não aparecem de novo
+  const availableTemplates = templates.filter(t => !rules.some(r => r.name === t.name));
+  const activeRules = rules.filter(r => r.enabled).length;
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-xs font-black text-slate-800 uppercase tracking-widest flex items-center">
+          <Bell className="w-4 h-4 mr-2 text-rose-500" /> Alertas
+          <span className="ml-2 text-slate-400">({evaluation.hits.length})</span>
+        </h4>
+        <button
+          onClick={() => setEditing(v => !v)}
+          className={`px-4 py-2 text-xs font-bold rounded-xl transition-all flex items-center ${editing ? 'bg-indigo-600 text-white' : 'text-slate-600 bg-slate-50 border border-slate-200 hover:bg-slate-100'}`}
+        >
+          <Settings2 className="w-4 h-4 mr-1" /> REGRAS ({activeRules})
+        </button>
+      </div>
+
+      {rules.length === 0 && !editing && (
+        <p className="text-[11px] font-bold text-slate-400">Nenhuma regra definida. Crie regras de limite ou tendência para sinalizar anúncios e campanhas.</p>
+      )}
+      {rules.length > 0 && evaluation.hits.length === 0 && (
+        <p className="text-[11px] font-bold text-emerald-600">Nenhuma regra disparou nesta planilha.</p>
+      )}
+
+      {evaluation.hits.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-96 overflow-y-auto scrollbar-thin">
+          {evaluation.hits.map(hit => {
+            const styles = SEVERITY_STYLES[hit.rule.severity];
+            return (
+              <div key={`${hit.rule.id}-${hit.entity}`} className={`p-4 rounded-2xl border ${styles.border}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{hit.rule.name} · {hit.rule.dimension}</p>
+                    <p className="text-xs font-black text-slate-800 truncate" title={hit.entity}>{hit.entity}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase ${styles.badge}`}>{styles.label}</span>
+                </div>
+                <ul className="mt-2 space-y-0.5">
+                  {hit.evidence.map((e, i) => <li key={i} className="text-[11px] font-bold text-slate-500">{e}</li>)}
+                </ul>
+                {canFilter(hit) && (
+                  <button onClick={() => onFilter(hit)} className="mt-2 inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800">
+                    <FilterIcon className="w-3 h-3 mr-1" /> FILTRAR
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {evaluation.skipped.length > 0 && (
+        <ul className="space-y-1">
+          {evaluation.skipped.map(({ rule, reason }) => (
+            <li key={rule.id} className="text-[10px] font-bold text-amber-600">"{rule.name}" não foi avaliada: {reason}</li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <div className="bg-slate-50 border border-slate-100 rounded-[24px] p-5 space-y-3">
+          {rules.map(rule => {
+            const error = ruleError(rule, data, catalog, dateColumn);
+            return (
+              <div key={rule.id} className={`bg-white border rounded-2xl p-3 space-y-2 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="accent-indigo-600" />
+                  <input value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className={`${inputClass} w-56`} />
+                  <span className="text-[10px] font-black text-slate-400">POR</span>
+                  <Select value={rule.dimension} options={dimensionOptions} onChange={v => updateRule(rule.id, { dimension: v })} />
+                  <Select value={rule.severity} options={severityOptions} onChange={v => updateRule(rule.id, { severity: v as InsightSeverity })} />
+                  <button onClick={() => onChangeRules(rules.filter(r => r.id !== rule.id))} className="ml-auto p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+                </div>
+                {rule.conditions.map((condition, i) => (
+                  <div key={i} className="flex flex-wrap items-center gap-2 pl-6">
+                    <span className="w-6 text-[10px] font-black text-slate-400">{i === 0 ? 'SE' : 'E'}</span>
+                    <Select value={condition.kind} options={kindOptions} onChange={v => updateCondition(rule, i, { kind: v as AlertConditionKind })} />
+                    <Select value={condition.metric} options={metricOptions} onChange={v => updateCondition(rule, i, { metric: v })} />
+                    <Select value={condition.operator} options={operatorOptions} onChange={v => updateCondition(rule, i, { operator: v as AlertOperator })} />
+                    <input
+                      type="number"
+                      step="any"
+                      value={condition.value}
+                      onChange={e => updateCondition(rule, i, { value: Number(e.target.value) })}
+                      className={`${inputClass} w-24`}
+                    />
+                    {condition.kind === 'change' && <span className="text-[10px] font-black text-slate-400">%</span>}
+                    {condition.kind === 'streak' && (
+                      <>
+                        <span className="text-[10px] font-black text-slate-400">POR</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={condition.days}
+                          onChange={e => updateCondition(rule, i, { days: Number(e.target.value) })}
+                          className={`${inputClass} w-16`}
+                        />
+                        <span className="text-[10px] font-black text-slate-400">DIAS</span>
+                      </>
+                    )}
+                    {rule.conditions.length > 1 && (
+                      <button onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, j) => j !== i) })} className="p-1 text-slate-300 hover:text-rose-500"><X className="w-3 h-3" /></button>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center gap-3 pl-6">
+                  <button
+                    onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, createAlertCondition(metricOptions[0]?.value ?? '')] })}
+                    className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800"
+                  >
+                    <Plus className="w-3 h-3 mr-1" /> CONDIÇÃO
+                  </button>
+                  {error && <span className="text-[10px] font-bold text-rose-500">{error}</span>}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => addRule(createAlertRule(dimensions[0] ?? '', metricOptions[0]?.value ?? ''))}
+              disabled={!dimensions.length || !metricOptions.length}
+              className="inline-flex items-center px-3 py-2 bg-white border border-dashed border-slate-300 rounded-xl text-[10px] font-black text-slate-500 hover:text-indigo-600 hover:border-indigo-300 disabled:opacity-50"
+            >
+              <Plus className="w-3 h-3 mr-1" /> NOVA REGRA
+            </button>
+            {availableTemplates.map(t => (
+              <button
+                key={t.id}
+                onClick={() => addRule(withNewId(t))}
+                className="inline-flex items-center px-3 py-2 bg-indigo-50 rounded-xl text-[10px] font-black text-indigo-600 hover:bg-indigo-100"
+              >
+                <Plus className="w-3 h-3 mr-1" /> {t.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react';
+import { Link2, CheckCircle2 } from 'lucide-react';
+import { ColumnMapping, DashboardData, DataRow } from '../types';
+import { isUtmDimension } from '../services/utm';
+import { formatMetric, sumColumns } from '../services/metrics';
+import { formatValue } from '../services/formatters';
+
+interface AttributionViewProps {
+  data: DashboardData;
+  rows: DataRow[];
+  mapping: ColumnMapping;
+}
+
+interface AttributionRow {
+  key: string;
+  rowCount: number;
+  revenue: number;
+  spend: number;
+  sales: number;
+}
+
+const UNATTRIBUTED = '(não atribuído)';
+
+const AttributionView: React.FC<AttributionViewProps> = ({ data, rows, mapping }) => {
+  const dimensions = data.headers.filter(isUtmDimension);
+  const [selected, setSelected] = useState<string[]>(() => dimensions.slice(0, 2));
+
+  const toggleDimension = (dim: string) =>
+    setSelected(prev => prev.includes(dim) ? prev.filter(d => d !== dim) : [...prev, dim]);
+
+  const groups = useMemo(() => {
+    if (selected.length === 0) return [];
+    const buckets: Record<string, DataRow[]> = {};
+    rows.forEach(row => {
+      const key = selected.map(d => String(row[d] ?? '') || UNATTRIBUTED).join(' / ');
+      (buckets[key] ||= []).push(row);
+    });
+    const columns = [mapping.revenue, mapping.spend, mapping.sales].filter((c): c is string => !!c);
+    return Object.entries(buckets)
+      .map(([key, groupRows]): AttributionRow => {
+        const sums = sumColumns(groupRows, columns);
+        return {
+          key,
+          rowCount: groupRows.length,
+          revenue: mapping.revenue ? sums[mapping.revenue] : 0,
+          spend: mapping.spend ? sums[mapping.spend] : 0,
+          sales: mapping.sales ? sums[mapping.sales] : 0,
+        };
+      })
+      .sort((a, b) => b.revenue - a.revenue || b.rowCount - a.rowCount);
+  }, [rows, selected, mapping]);
+
+  const totalRevenue = groups.reduce((acc, g) => acc + g.revenue, 0);
+  const money = (v: number, col: string) => formatValue(v, data.types[col]);
+
+  if (dimensions.length === 0) {
+    return (
+      <div className="bg-white p-12 rounded-[32px] border border-slate-200 shadow-sm flex flex-col items-center text-slate-400">
+        <Link2 className="w-8 h-8 mb-2" />
+        <p className="text-xs font-bold">Nenhuma coluna com URL ou parâmetros UTM (utm_source, src, sck...) foi encontrada.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 space-y-4">
+        <h4 className="font-black text-slate-800 tracking-tighter uppercase text-sm">Atribuição por UTM</h4>
+        <div className="flex flex-wrap gap-2">
+          {dimensions.map(dim => (
+            <button
+              key={dim}
+              onClick={() => toggleDimension(dim)}
+              className={`flex items-center px-3 py-1.5 rounded-xl text-[10px] font-bold transition-all ${
+                selected.includes(dim) ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {selected.includes(dim) && <span className="mr-1 opacity-70">{selected.indexOf(dim) + 1}.</span>}
+              {dim}
+              {selected.includes(dim) && <CheckCircle2 className="w-3 h-3 ml-1" />}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-[11px] border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200 text-slate-400 font-black uppercase tracking-widest">
+              <th className="px-6 py-4">{selected.join(' / ') || 'Selecione uma dimensão'}</th>
+              <th className="px-6 py-4 text-right">Linhas</th>
+              {mapping.revenue && <th className="px-6 py-4 text-right">Faturamento</th>}
+              {mapping.revenue && <th className="px-6 py-4">Participação</th>}
+              {mapping.sales && <th className="px-6 py-4 text-right">Vendas</th>}
+              {mapping.spend && <th className="px-6 py-4 text-right">Gastos</th>}
+              {mapping.revenue && mapping.spend && <th className="px-6 py-4 text-right">ROAS</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {groups.map(g => {
+              const share = totalRevenue > 0 ? g.revenue / totalRevenue * 100 : 0;
+              return (
+                <tr key={g.key} className="hover:bg-indigo-50/30 transition-colors font-bold text-slate-600">
+                  <td className={`px-6 py-3 whitespace-nowrap ${g.key.includes(UNATTRIBUTED) ? 'text-slate-400 italic' : ''}`}>{g.key}</td>
+                  <td className="px-6 py-3 text-right">{g.rowCount.toLocaleString('pt-BR')}</td>
+                  {mapping.revenue && <td className="px-6 py-3 text-right whitespace-nowrap">{money(g.revenue, mapping.revenue)}</td>}
+                  {mapping.revenue && (
+                    <td className="px-6 py-3 w-40">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${share}%` }} />
+                        </div>
+                        <span className="text-[10px] text-slate-400 w-10 text-right">{share.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  )}
+                  {mapping.sales && <td className="px-6 py-3 text-right">{g.sales.toLocaleString('pt-BR')}</td>}
+                  {mapping.spend && <td className="px-6 py-3 text-right whitespace-nowrap">{money(g.spend, mapping.spend)}</td>}
+                  {mapping.revenue && mapping.spend && (
+                    <td className="px-6 py-3 text-right">{formatMetric(g.spend > 0 ? g.revenue / g.spend : null, 'ratio')}</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AttributionView;
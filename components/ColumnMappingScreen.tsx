@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Columns3, ChevronDown, CheckCircle2, Save, Trash2 } from 'lucide-react';
+import { ColumnMapping, DashboardData, MappingProfile } from '../types';
+import { MAPPING_ROLES, MappingRole, deleteProfile, loadProfiles, sanitizeMapping } from '../services/columnMapping';
+import { isNumericType } from '../services/columnTypes';
+import { formatValue } from '../services/formatters';
+
+interface ColumnMappingScreenProps {
+  data: DashboardData;
+  initial: ColumnMapping;
+  initialProfileName?: string;
+  onApply: (mapping: ColumnMapping, profileName: string | null) => void;
+  onCancel?: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  date: 'data', currency: 'moeda', percent: '%', integer: 'inteiro', number: 'número', string: 'texto',
+};
+
+const ColumnMappingScreen: React.FC<ColumnMappingScreenProps> = ({ data, initial, initialProfileName, onApply, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initial);
+  const [profileName, setProfileName] = useState(initialProfileName || '');
+  const [saveAsProfile, setSaveAsProfile] = useState(true);
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadProfiles);
+
+  const sample = (col: string) => {
+    const row = data.rows.find(r => r[col] !== '' && r[col] !== undefined);
+    return row ? formatValue(row[col], data.types[col]) : '';
+  };
+
+  const setRole = (role: MappingRole, col: string) => setMapping(prev => ({ ...prev, [role]: col || undefined }));
+
+  const toggleFilter = (col: string) => setMapping(prev => ({
+    ...prev,
+    filters: prev.filters.includes(col) ? prev.filters.filter(c => c !== col) : [...prev.filters, col],
+  }));
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setMapping(sanitizeMapping(profile.mapping, data.headers));
+    setProfileName(profile.name);
+  };
+
+  const removeProfile = (id: string) => {
+    deleteProfile(id);
+    setProfiles(loadProfiles());
+  };
+
+  const selectClass = "w-full appearance-none bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none pr-8 cursor-pointer";
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-sm space-y-8">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Columns3 className="w-5 h-5" /></div>
+        <div>
+          <h2 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Mapeamento de Colunas</h2>
+          <p className="text-xs font-medium text-slate-500">Confirme o que cada coluna representa. Sugestões baseadas nos nomes dos cabeçalhos.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {MAPPING_ROLES.map(({ role, label, numeric }) => {
+          const selected = mapping[role];
+          const mismatch = selected && (numeric ? !isNumericType(data.types[selected]) : role === 'date' && data.types[selected] !== 'date');
+          return (
+            <div key={role} className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{label}</label>
+              <div className="relative">
+                <select value={selected || ''} onChange={e => setRole(role, e.target.value)} className={selectClass}>
+                  <option value="">— nenhuma —</option>
+                  {data.headers.map(h => <option key={h} value={h}>{h} ({TYPE_LABELS[data.types[h]]})</option>)}
+                </select>
+                <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+              </div>
+              <p className={`text-[10px] font-bold px-1 truncate ${mismatch ? 'text-amber-600' : 'text-slate-400'}`}>
+                {mismatch ? `Tipo "${TYPE_LABELS[data.types[selected!]]}" não é o esperado` : selected ? `Ex.: ${sample(selected)}` : ' '}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dimensões de filtro</label>
+        <div className="flex flex-wrap gap-2">
+          {data.headers.map(h => (
+            <button
+              key={h}
+              onClick={() => toggleFilter(h)}
+              className={`flex items-center px-3 py-1.5 rounded-xl text-[10px] font-bold transition-all ${
+                mapping.filters.includes(h) ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {h}
+              {mapping.filters.includes(h) && <CheckCircle2 className="w-3 h-3 ml-1" />}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-6 pt-6 border-t border-slate-100">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Perfil</label>
+            <input
+              type="text"
+              placeholder="Ex.: Meta Ads - Cliente X"
+              className="w-64 px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold focus:ring-2 focus:ring-indigo-500 outline-none"
+              value={profileName}
+              onChange={e => setProfileName(e.target.value)}
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-xs font-bold text-slate-500 pb-2.5 cursor-pointer">
+            <input type="checkbox" checked={saveAsProfile} onChange={e => setSaveAsProfile(e.target.checked)} className="accent-indigo-600" />
+            <span>Salvar e reaplicar para planilhas com os mesmos cabeçalhos</span>
+          </label>
+        </div>
+        <div className="flex gap-3">
+          {onCancel && (
+            <button onClick={onCancel} className="px-6 py-3 text-xs font-black text-slate-500 hover:bg-slate-100 rounded-2xl transition-all">
+              CANCELAR
+            </button>
+          )}
+          <button
+            onClick={() => onApply(mapping, saveAsProfile ? profileName : null)}
+            className="inline-flex items-center px-6 py-3 bg-indigo-600 text-white rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all"
+          >
+            <Save className="w-4 h-4 mr-2" /> APLICAR MAPEAMENTO
+          </button>
+        </div>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Perfis salvos</label>
+          <div className="flex flex-wrap gap-2">
+            {profiles.map(p => (
+              <div key={p.id} className="flex items-center bg-slate-50 rounded-xl text-[10px] font-bold text-slate-600">
+                <button onClick={() => applyProfile(p.id)} className="px-3 py-1.5 hover:text-indigo-600">{p.name}</button>
+                <button onClick={() => removeProfile(p.id)} className="pr-2 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMappingScreen;
@@ -1,17 +1,52 @@
-import React, { useState, useMemo } from 'react';
-import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  LineChart, Line, Legend
-} from 'recharts';
-import { Filter as FilterIcon, Table as TableIcon, LayoutDashboard, Search, X, ChevronDown, DollarSign, TrendingUp, Receipt, Wallet, Target, CheckCircle2 } from 'lucide-react';
-import { DashboardData } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Filter as FilterIcon, Table as TableIcon, LayoutDashboard, Search, X, DollarSign, TrendingUp, Receipt, Wallet, Target, CheckCircle2, ArrowUpRight, ArrowDownRight, Settings2, Sigma, Link2, BrainCircuit, MessageSquare, Grid3x3, SlidersHorizontal, Loader2, FileDown, AlertTriangle } from 'lucide-react';
+import { ColumnMapping, DashboardData, InsightAnomaly, InsightResult } from '../types';
+import { formatValue } from '../services/formatters';
+import { Kpis } from '../services/kpis';
+import { QualityFocus } from '../services/dataQuality';
+import { ProfitModel, loadProfitModel, saveProfitModel } from '../services/profitModel';
+import { MetricSettings, buildMetricCatalog, formatMetric, loadMetricSettings, saveMetricSettings } from '../services/metrics';
+import { DateRange, comparisonRange, dateExtent, fromInputDate, percentChange } from '../services/periods';
+import PeriodPicker, { PeriodState } from './PeriodPicker';
+import ProfitSettings from './ProfitSettings';
+import MetricsManager from './MetricsManager';
+import AttributionView from './AttributionView';
+import DataTable from './DataTable';
+import PivotView from './PivotView';
+import FilterBuilder from './FilterBuilder';
+import InsightsPanel from './InsightsPanel';
+import AlertsPanel from './AlertsPanel';
+import DataChat from './DataChat';
+import SavedViewsMenu from './SavedViewsMenu';
+import LlmErrorNotice from './LlmErrorNotice';
+import { LlmSettings, getProvider } from '../services/llm';
+import { LlmError, toLlmError } from '../services/llmErrors';
+import { DashboardTab, ViewState, sanitizeViewState } from '../services/viewState';
+import { headerSignature } from '../services/columnMapping';
+import { buildInsightContext } from '../services/insightContext';
+import { DashboardQuery, DashboardQueryResult } from '../services/dashboardQuery';
+import { queryDashboard } from '../services/dataWorkerClient';
+import { AlertRule, alertHighlights, alertTemplates, evaluateAlerts, loadAlertRules, saveAlertRules } from '../services/alerts';
+import { AdvancedFilter, EMPTY_ADVANCED_FILTER, activeConditionCount, conditionError, describeCondition } from '../services/advancedFilter';
+import { ReportContent, ReportKpi, reportTrends } from '../services/report';
+import ReportPanel from './ReportPanel';
+import WidgetGrid from './WidgetGrid';
+import { Widget, categoryData, defaultWidgets, loadWidgetLayout, saveWidgetLayout, widgetRows, widgetSpec } from '../services/widgets';
 
 interface DashboardProps {
   data: DashboardData;
+  mapping: ColumnMapping;
+  llm: LlmSettings;
+  onConfigureLlm: () => void;
+  // Estado vindo da URL ou do cache; aplicado só na montagem
+  initialView?: Partial<ViewState>;
+  sheetUrl: string | null;
+  onViewChange: (view: ViewState) => void;
+  // Linhas apontadas pelo painel de qualidade; substituem o recorte na aba Dados até serem limpas
+  focus?: QualityFocus | null;
+  onClearFocus?: () => void;
 }
 
-const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f43f5e', '#f97316', '#eab308', '#22c55e', '#06b6d4'];
-
 // Mapa de cores para evitar classes dinâmicas que o Tailwind CDN não detecta
 const colorMap: Record<string, { bg: string, text: string, lightBg: string }> = {
   emerald: { bg: 'bg-emerald-600', text: 'text-emerald-600', lightBg: 'bg-emerald-50' },
@@ -20,35 +55,37 @@ const colorMap: Record<string, { bg: string, text: string, lightBg: string }> =
   indigo: { bg: 'bg-indigo-600', text: 'text-indigo-600', lightBg: 'bg-indigo-50' },
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ data }) => {
-  const [activeTab, setActiveTab] = useState<'visual' | 'table'>('visual');
-  const [filters, setFilters] = useState<Record<string, string[]>>({});
-  const [searchTerm, setSearchTerm] = useState('');
+const SEARCH_DEBOUNCE_MS = 250;
 
-  // Identificação Inteligente de Colunas Financeiras
-  const findHeader = (keys: string[]) => 
-    data.headers.find(h => keys.some(k => h.toLowerCase() === k.toLowerCase() || h.toLowerCase().includes(k.toLowerCase())));
+// Exibido só até a primeira resposta do worker
+const EMPTY_KPIS: Kpis = { fat: 0, gas: 0, imp: 0, taxas: 0, cmv: 0, luc: 0, roas: 0, vendas: 0, taxRate: 0 };
 
-  const colFaturamento = findHeader(['faturamento', 'receita', 'faturado']);
-  const colGastos = findHeader(['gastos', 'gasto', 'custo', 'investimento', 'spend']);
-  const colRoas = findHeader(['roas']);
-  const colData = findHeader(['data', 'periodo']);
-  const colAnuncio = findHeader(['nome do ad', 'anúncio', 'ad name']);
+const Dashboard: React.FC<DashboardProps> = ({ data, mapping, llm, onConfigureLlm, initialView, sheetUrl, onViewChange, focus, onClearFocus }) => {
+  const [startView] = useState(() => sanitizeViewState(initialView ?? {}, data));
+  const [activeTab, setActiveTab] = useState<DashboardTab>(startView.tab ?? 'visual');
+  const [filters, setFilters] = useState<Record<string, string[]>>(startView.filters ?? {});
+  const [advanced, setAdvanced] = useState<AdvancedFilter>(startView.advanced ?? EMPTY_ADVANCED_FILTER);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false);
+  const [searchTerm, setSearchTerm] = useState(startView.search ?? '');
+  const [period, setPeriod] = useState<PeriodState>(startView.period ?? { start: '', end: '', compare: 'none' });
+  const [profitModel, setProfitModel] = useState<ProfitModel>(loadProfitModel);
+  const [showProfitSettings, setShowProfitSettings] = useState(false);
+  const [metricSettings, setMetricSettings] = useState<MetricSettings>(loadMetricSettings);
+  const [showMetricsManager, setShowMetricsManager] = useState(false);
+  const [insights, setInsights] = useState<InsightResult | null>(null);
+  const [insightError, setInsightError] = useState<LlmError | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [showReport, setShowReport] = useState(false);
 
-  // Colunas para filtros (Multi-seleção)
-  const filterableColumns = data.headers.filter(h => 
-    ['data', 'nome do ad', 'bm-ca-pf (teste)', 'status', 'campanha', 'ad set'].some(t => h.toLowerCase().includes(t))
-  );
+  // Papéis das colunas definidos na tela de mapeamento
+  const colFaturamento = mapping.revenue;
+  const colGastos = mapping.spend;
+  const colData = mapping.date && data.types[mapping.date] === 'date' ? mapping.date : undefined;
 
-  // Valores únicos para cada filtro
-  const uniqueValuesMap = useMemo(() => {
-    const map: Record<string, string[]> = {};
-    filterableColumns.forEach(col => {
-      const vals = Array.from(new Set<string>(data.rows.map(r => String(r[col] ?? '')).filter(v => v !== '')));
-      map[col] = vals.sort();
-    });
-    return map;
-  }, [data.rows, filterableColumns]);
+  // Colunas para filtros (Multi-seleção)
+  const filterableColumns = mapping.filters;
 
   // Lógica de Multi-seleção
   const toggleFilter = (column: string, value: string) => {
@@ -63,73 +100,246 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
 
   const clearAllFilters = () => {
     setFilters({});
+    setAdvanced(EMPTY_ADVANCED_FILTER);
     setSearchTerm('');
+    setPeriod({ start: '', end: '', compare: 'none' });
   };
 
-  // Filtragem dos dados
-  const filteredRows = useMemo(() => {
-    return data.rows.filter(row => {
-      const matchesFilters = Object.entries(filters).every(([col, vals]) => {
-        const selectedValues = vals as string[];
-        if (!selectedValues || selectedValues.length === 0) return true;
-        return selectedValues.includes(String(row[col]));
-      });
-      const matchesSearch = searchTerm === '' || data.headers.some(h => 
-        String(row[h]).toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      return matchesFilters && matchesSearch;
-    });
-  }, [data.rows, filters, searchTerm]);
-
-  // Cálculo de KPIs
-  const stats = useMemo(() => {
-    let fat = 0, gas = 0, roasSum = 0, roasCount = 0;
-    
-    filteredRows.forEach(row => {
-      const f = Number(row[colFaturamento || '']) || 0;
-      const g = Number(row[colGastos || '']) || 0;
-      fat += f;
-      gas += g;
-      
-      const r = Number(row[colRoas || '']);
-      if (typeof r === 'number' && !isNaN(r) && row[colRoas || ''] !== '') {
-        roasSum += r;
-        roasCount++;
-      }
-    });
+  const removeCondition = (conditionId: string) => setAdvanced(prev => ({
+    ...prev,
+    groups: prev.groups
+      .map(g => ({ ...g, conditions: g.conditions.filter(c => c.id !== conditionId) }))
+      .filter(g => g.conditions.length > 0),
+  }));
 
-    const imp = fat * 0.06;
-    const luc = fat - gas - imp;
-    const avgRoas = roasCount > 0 ? roasSum / roasCount : (gas > 0 ? fat / gas : 0);
-    
-    return { fat, gas, imp, luc, roas: avgRoas };
-  }, [filteredRows, colFaturamento, colGastos, colRoas]);
+  // A busca só dispara uma consulta quando a digitação pausa
+  const [debouncedSearch, setDebouncedSearch] = useState(searchTerm);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-  const categoricalHeaders = data.headers.filter(h => 
-    data.types[h] === 'string' && !h.toLowerCase().includes('id')
+  // Recorte por período e período de comparação (mesmos filtros, outro intervalo de datas)
+  const extent = useMemo(() => colData ? dateExtent(data.rows, colData) : null, [data.rows, colData]);
+  const activeRange = useMemo<DateRange | null>(() => {
+    const start = fromInputDate(period.start);
+    const end = fromInputDate(period.end);
+    return start && end && start <= end ? { start, end } : null;
+  }, [period.start, period.end]);
+  const previousRange = useMemo(
+    () => activeRange ? comparisonRange(activeRange, period.compare) : null,
+    [activeRange, period.compare]
   );
-  const metricHeaders = data.headers.filter(h => 
-    data.types[h] === 'number' && !h.toLowerCase().includes('id')
+
+  const updateProfitModel = (model: ProfitModel) => {
+    setProfitModel(model);
+    saveProfitModel(model);
+  };
+
+  const updateMetricSettings = (settings: MetricSettings) => {
+    setMetricSettings(settings);
+    saveMetricSettings(settings);
+  };
+
+  // Colunas numéricas e métricas calculadas disponíveis para gráficos, cards e tabela
+  const metricCatalog = useMemo(
+    () => buildMetricCatalog(data, mapping, metricSettings.custom),
+    [data, mapping, metricSettings.custom]
+  );
+  const activeMetrics = useMemo(
+    () => metricCatalog.filter(m => m.derived && metricSettings.active.includes(m.key)),
+    [metricCatalog, metricSettings.active]
+  );
+
+  const categoricalHeaders = data.headers.filter(h => 
+    (data.types[h] === 'string' || data.types[h] === 'date') && !h.toLowerCase().includes('id')
   );
   
-  const [chartCat, setChartCat] = useState(colAnuncio || colData || categoricalHeaders[0] || '');
-  const [chartMet, setChartMet] = useState(colRoas || colFaturamento || metricHeaders[0] || '');
-
-  const chartData = useMemo(() => {
-    if (!chartCat || !chartMet) return [];
-    const aggregated: Record<string, number> = {};
-    filteredRows.forEach(row => {
-      const k = String(row[chartCat]) || 'N/A';
-      const v = Number(row[chartMet]) || 0;
-      aggregated[k] = (aggregated[k] || 0) + v;
+  // Widgets da aba Visual, um layout salvo por planilha
+  const signature = useMemo(() => headerSignature(data.headers), [data.headers]);
+  const resetWidgets = () => defaultWidgets(mapping, metricCatalog, categoricalHeaders, colData);
+  const [widgets, setWidgets] = useState<Widget[]>(() => loadWidgetLayout(signature, data, metricCatalog) ?? resetWidgets());
+  const updateWidgets = (next: Widget[]) => {
+    setWidgets(next);
+    saveWidgetLayout(signature, next);
+  };
+
+  // Regras avaliadas sobre a planilha inteira a cada carga ou atualização, independentes dos filtros
+  const alertEvaluation = useMemo(
+    () => evaluateAlerts(data, alertRules, metricCatalog, colData),
+    [data, alertRules, metricCatalog, colData]
+  );
+  const highlights = useMemo(() => alertHighlights(alertEvaluation.hits), [alertEvaluation]);
+  const updateAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
+
+  // Só a parte de cálculo dos widgets entra na consulta: renomear ou redimensionar não refaz o recorte
+  const widgetSpecsKey = JSON.stringify(widgets.map(widgetSpec));
+  const widgetSpecs = useMemo(() => widgets.map(widgetSpec), [widgetSpecsKey]);
+
+  // Filtragem, valores dos filtros, KPIs, cards e séries dos widgets são calculados no worker sobre a tabela colunar
+  const query = useMemo<DashboardQuery>(() => ({
+    filters,
+    advanced,
+    search: debouncedSearch,
+    dateColumn: colData,
+    range: activeRange,
+    previousRange,
+    filterColumns: filterableColumns,
+    kpiColumns: { revenue: colFaturamento, spend: colGastos, sales: mapping.sales, cogs: mapping.cogs },
+    profitModel,
+    mapping,
+    customMetrics: metricSettings.custom,
+    activeMetrics: metricSettings.active,
+    widgets: widgetSpecs,
+  }), [filters, advanced, debouncedSearch, colData, activeRange, previousRange, mapping, profitModel, metricSettings, widgetSpecs]);
+
+  // Resultado guardado com os dados que o geraram: durante uma nova consulta, a tela mostra o anterior
+  const [answer, setAnswer] = useState<{ source: DashboardData, query: DashboardQuery, result: DashboardQueryResult } | null>(null);
+  // Falha do worker e do cálculo local de reserva: guardada com a consulta para não travar o indicador de carregamento
+  const [queryError, setQueryError] = useState<{ source: DashboardData, query: DashboardQuery, message: string } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    queryDashboard(data, query)
+      .then(result => {
+        if (!cancelled) setAnswer({ source: data, query, result });
+      })
+      .catch(error => {
+        if (!cancelled) setQueryError({ source: data, query, message: error instanceof Error ? error.message : String(error) });
+      });
+    return () => { cancelled = true; };
+  }, [data, query]);
+  const failedQuery = queryError && queryError.source === data && queryError.query === query ? queryError.message : null;
+  const computing = !failedQuery && (!answer || answer.source !== data || answer.query !== query || debouncedSearch !== searchTerm);
+
+  const filteredRows = useMemo(
+    () => answer ? Array.from(answer.result.filtered, i => answer.source.rows[i]) : [],
+    [answer]
+  );
+  const uniqueValuesMap = answer?.result.uniqueValues ?? {};
+  // Índices dos funis apontam para as linhas da planilha que gerou o resultado
+  const widgetSeries = answer && answer.source === data ? answer.result.widgetSeries : {};
+  const stats = answer?.result.stats ?? EMPTY_KPIS;
+  const previousStats = answer?.result.previousStats ?? null;
+  const metricCards = activeMetrics.map(metric => ({
+    metric,
+    value: answer?.result.metricValues[metric.key]?.value ?? null,
+    previous: answer?.result.metricValues[metric.key]?.previous ?? null,
+  }));
+
+  // KPIs derivados do faturamento herdam o tipo da coluna de faturamento
+  const formatKpi = (v: number, col?: string) => formatValue(v, col ? data.types[col] : 'currency');
+  const formatRoas = (v: number) => `${v.toFixed(2)}x`;
+
+  const buildComparison = (current: number, previous: number, format: (v: number) => string, higherIsBetter: boolean): KpiComparison => {
+    const delta = current - previous;
+    return {
+      previous: format(previous),
+      delta: `${delta >= 0 ? '+' : '-'}${format(Math.abs(delta))}`,
+      pct: percentChange(current, previous),
+      higherIsBetter,
+    };
+  };
+
+  const compareKpi = (key: keyof Kpis, format: (v: number) => string, higherIsBetter = true): KpiComparison | undefined =>
+    previousStats ? buildComparison(stats[key], previousStats[key], format, higherIsBetter) : undefined;
+  const luc = compareKpi('luc', v => formatKpi(v, colFaturamento));
+
+  // O relatório refaz a consulta do painel no período escolhido, com a busca já digitada
+  const buildReport = async (range: DateRange | null): Promise<Omit<ReportContent, 'settings'>> => {
+    const reportPrevious = range ? comparisonRange(range, period.compare) : null;
+    const result = await queryDashboard(data, { ...query, search: searchTerm, range, previousRange: reportPrevious, widgets: [] });
+    const rows = Array.from(result.filtered, i => data.rows[i]);
+    const current = result.stats;
+    const previous = result.previousStats;
+    const kpi = (label: string, key: keyof Kpis, format: (v: number) => string, higherIsBetter = true): ReportKpi => ({
+      label,
+      value: format(current[key]),
+      comparison: previous ? buildComparison(current[key], previous[key], format, higherIsBetter) : undefined,
+    });
+    const metricKpis = activeMetrics.map((metric): ReportKpi => {
+      const { value = null, previous: before = null } = result.metricValues[metric.key] ?? {};
+      const format = (v: number) => formatMetric(v, metric.format);
+      return {
+        label: metric.label,
+        value: formatMetric(value, metric.format),
+        comparison: previous && value !== null && before !== null ? buildComparison(value, before, format, !metric.lowerIsBetter) : undefined,
+      };
     });
-    return Object.entries(aggregated)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 15);
-  }, [filteredRows, chartCat, chartMet]);
+    // Gráficos do relatório seguem o primeiro widget de barras e o primeiro de linha/área do layout
+    const barWidget = widgets.find(w => w.type === 'bar' && w.dimension && w.metrics.length);
+    const barMetric = metricCatalog.find(m => m.key === barWidget?.metrics[0]);
+    const trendWidget = widgets.find(w => (w.type === 'line' || w.type === 'area') && w.metrics.length);
+    const trendKeys = trendWidget?.metrics ?? [colFaturamento, colGastos, 'fx:roas'];
+    return {
+      range,
+      previousRange: previous ? reportPrevious : null,
+      kpis: [
+        kpi('Faturamento', 'fat', v => formatKpi(v, colFaturamento)),
+        kpi('Investido', 'gas', v => formatKpi(v, colGastos), false),
+        kpi('ROAS', 'roas', formatRoas),
+        kpi('Lucro Estimado', 'luc', v => formatKpi(v, colFaturamento)),
+        ...metricKpis,
+      ],
+      topChart: barWidget && barMetric ? {
+        title: `${barWidget.title} · ${barMetric.label} por ${barWidget.dimension}`,
+        format: barMetric.format,
+        data: categoryData(widgetRows(rows, barWidget, data), barWidget.dimension, [barMetric], data, barWidget.limit)
+          .map(p => ({ name: p.name, value: p.values[barMetric.key] ?? 0 })),
+      } : null,
+      trends: colData ? reportTrends(trendWidget ? widgetRows(rows, trendWidget, data) : rows, colData, metricCatalog.filter(m => trendKeys.includes(m.key))) : [],
+      insights,
+      filters: [
+        ...Object.entries(filters).flatMap(([col, vals]) => (vals as string[]).map(val => `${col}: ${val}`)),
+        ...advanced.groups.flatMap(g => g.conditions.filter(c => !conditionError(c, data)).map(c => describeCondition(c, data))),
+        ...(searchTerm ? [`Busca: "${searchTerm}"`] : []),
+      ],
+      generatedAt: new Date(),
+    };
+  };
 
-  const formatBRL = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  // A IA recebe agregados do recorte atual (filtros, busca e período), não as linhas brutas
+  const generateInsights = async () => {
+    setAnalyzing(true);
+    setInsightError(null);
+    try {
+      const context = buildInsightContext({ data, rows: filteredRows, mapping, kpis: stats, metrics: activeMetrics, range: activeRange ?? extent });
+      setInsights(await getProvider(llm).generateInsights(context, llm));
+    } catch (error) {
+      setInsightError(toLlmError(error));
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const currentView = useMemo<ViewState>(
+    () => ({ tab: activeTab, filters, advanced, search: searchTerm, period }),
+    [activeTab, filters, advanced, searchTerm, period]
+  );
+
+  useEffect(() => { onViewChange(currentView); }, [currentView]);
+
+  useEffect(() => { if (focus) setActiveTab('table'); }, [focus]);
+
+  const applyView = (view: ViewState) => {
+    const clean = sanitizeViewState(view, data);
+    setActiveTab(clean.tab ?? 'visual');
+    setFilters(clean.filters ?? {});
+    setAdvanced(clean.advanced ?? EMPTY_ADVANCED_FILTER);
+    setSearchTerm(clean.search ?? '');
+    setPeriod(clean.period ?? { start: '', end: '', compare: 'none' });
+  };
+
+  const canFilterEntity = (dimension: string, entity: string) =>
+    filterableColumns.includes(dimension) && !!uniqueValuesMap[dimension]?.includes(entity);
+
+  const filterEntity = (dimension: string, entity: string) =>
+    setFilters(prev => ({ ...prev, [dimension]: [entity] }));
+
+  const canFilterAnomaly = (anomaly: InsightAnomaly) => canFilterEntity(anomaly.dimension, anomaly.entity);
+  const filterAnomaly = (anomaly: InsightAnomaly) => filterEntity(anomaly.dimension, anomaly.entity);
 
   return (
     <div className="space-y-8 pb-20">
@@ -142,6 +352,14 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowFilterBuilder(v => !v)}
+              className={`px-4 py-2 text-xs font-bold rounded-xl transition-all flex items-center ${showFilterBuilder ? 'bg-indigo-600 text-white' : 'text-slate-600 bg-slate-50 hover:bg-slate-100'}`}
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-1" /> AVANÇADO
+              {activeConditionCount(advanced, data) > 0 && <span className="ml-1 opacity-70">({activeConditionCount(advanced, data)})</span>}
+            </button>
+            <SavedViewsMenu signature={signature} sheetUrl={sheetUrl} current={currentView} onApply={applyView} />
             <button 
               onClick={clearAllFilters}
               className="px-4 py-2 text-xs font-bold text-rose-500 hover:bg-rose-50 rounded-xl transition-all flex items-center"
@@ -153,14 +371,39 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
               <input
                 type="text"
                 placeholder="Pesquisar..."
-                className="w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none"
+                className="w-full pl-11 pr-10 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
+              {computing && <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-indigo-400 animate-spin" aria-label="Calculando" />}
             </div>
           </div>
         </div>
 
+        {(Object.values(filters).some(v => (v as string[]).length > 0) || activeConditionCount(advanced, data) > 0 || searchTerm) && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {Object.entries(filters).flatMap(([col, vals]) => (vals as string[]).map(val => (
+              <FilterChip key={`${col}-${val}`} label={`${col}: ${val}`} onRemove={() => toggleFilter(col, val)} />
+            )))}
+            {advanced.groups.flatMap(g => g.conditions.filter(c => !conditionError(c, data)).map(c => (
+              <FilterChip key={c.id} label={describeCondition(c, data)} onRemove={() => removeCondition(c.id)} advanced />
+            )))}
+            {searchTerm && <FilterChip label={`Busca: "${searchTerm}"`} onRemove={() => setSearchTerm('')} />}
+          </div>
+        )}
+
+        {showFilterBuilder && (
+          <div className="mb-6">
+            <FilterBuilder data={data} filter={advanced} onChange={setAdvanced} onClose={() => setShowFilterBuilder(false)} />
+          </div>
+        )}
+
+        {colData && (
+          <div className="mb-6">
+            <PeriodPicker value={period} onChange={setPeriod} extent={extent} />
+          </div>
+        )}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
           {filterableColumns.map(col => (
             <div key={col} className="space-y-2">
@@ -184,104 +427,206 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
         </div>
       </div>
 
+      {failedQuery && (
+        <div className="bg-rose-50 border border-rose-200 rounded-[24px] p-5 text-rose-700 flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="text-xs font-black uppercase tracking-widest">Não foi possível calcular o painel</p>
+            <p className="text-[11px] font-bold mt-1">{failedQuery}</p>
+            <p className="text-[10px] font-bold text-rose-500 mt-1">Os números abaixo são do último cálculo que deu certo; ajuste os filtros para tentar de novo.</p>
+          </div>
+        </div>
+      )}
+
+      {showProfitSettings && (
+        <ProfitSettings
+          model={profitModel}
+          onChange={updateProfitModel}
+          onClose={() => setShowProfitSettings(false)}
+          salesColumn={mapping.sales}
+          cogsColumn={mapping.cogs}
+        />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-        <StatCard title="Faturamento" value={formatBRL(stats.fat)} icon={<TrendingUp className="w-4 h-4" />} color="emerald" tag="Bruto" />
-        <StatCard title="Investido" value={formatBRL(stats.gas)} icon={<Wallet className="w-4 h-4" />} color="rose" tag="Spend" />
-        <StatCard title="Impostos" value={formatBRL(stats.imp)} icon={<Receipt className="w-4 h-4" />} color="amber" tag="6%" />
-        <StatCard title="ROAS Médio" value={`${stats.roas.toFixed(2)}x`} icon={<Target className="w-4 h-4" />} color="indigo" tag="ROI" />
+        <StatCard title="Faturamento" value={formatKpi(stats.fat, colFaturamento)} icon={<TrendingUp className="w-4 h-4" />} color="emerald" tag="Bruto" comparison={compareKpi('fat', v => formatKpi(v, colFaturamento))} />
+        <StatCard title="Investido" value={formatKpi(stats.gas, colGastos)} icon={<Wallet className="w-4 h-4" />} color="rose" tag="Spend" comparison={compareKpi('gas', v => formatKpi(v, colGastos), false)} />
+        <StatCard title="Impostos" value={formatKpi(stats.imp, colFaturamento)} icon={<Receipt className="w-4 h-4" />} color="amber" tag={`${stats.taxRate.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%`} comparison={compareKpi('imp', v => formatKpi(v, colFaturamento), false)} />
+        <StatCard title="ROAS" value={formatRoas(stats.roas)} icon={<Target className="w-4 h-4" />} color="indigo" tag="ROI" comparison={compareKpi('roas', formatRoas)} />
         <div className="bg-indigo-600 p-5 rounded-[28px] shadow-xl text-white relative overflow-hidden group">
           <div className="relative z-10">
-            <p className="text-[10px] font-black uppercase tracking-widest text-indigo-200 mb-1">Lucro Estimado</p>
-            <h3 className="text-2xl font-black tracking-tighter">{formatBRL(stats.luc)}</h3>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-[10px] font-black uppercase tracking-widest text-indigo-200">Lucro Estimado</p>
+              <button onClick={() => setShowProfitSettings(v => !v)} title="Modelo de lucro" className="text-indigo-200 hover:text-white">
+                <Settings2 className="w-4 h-4" />
+              </button>
+            </div>
+            <h3 className="text-2xl font-black tracking-tighter">{formatKpi(stats.luc, colFaturamento)}</h3>
             <p className="text-[11px] font-bold text-indigo-100 mt-2">Margem: {stats.fat > 0 ? ((stats.luc/stats.fat)*100).toFixed(1) : 0}%</p>
+            <ul className="mt-2 space-y-0.5 text-[10px] font-bold text-indigo-200">
+              <li className="flex justify-between"><span>Investido</span><span>-{formatKpi(stats.gas, colGastos)}</span></li>
+              <li className="flex justify-between"><span>Impostos</span><span>-{formatKpi(stats.imp, colFaturamento)}</span></li>
+              {stats.taxas > 0 && <li className="flex justify-between"><span>Taxas</span><span>-{formatKpi(stats.taxas, colFaturamento)}</span></li>}
+              {mapping.cogs && <li className="flex justify-between"><span>CMV</span><span>-{formatKpi(stats.cmv, mapping.cogs)}</span></li>}
+            </ul>
+            {luc && (
+              <p className="text-[10px] font-bold text-indigo-200 mt-1">
+                Antes: {luc.previous} · {luc.delta} {luc.pct !== null && `(${luc.pct >= 0 ? '+' : ''}${luc.pct.toFixed(1)}%)`}
+              </p>
+            )}
           </div>
           <DollarSign className="absolute -bottom-2 -right-2 w-16 h-16 text-white opacity-10" />
         </div>
       </div>
 
-      <div className="flex space-x-2 bg-slate-200/50 p-1.5 rounded-2xl w-fit">
-        <TabButton active={activeTab === 'visual'} onClick={() => setActiveTab('visual')} label="Visual" icon={<LayoutDashboard className="w-4 h-4 mr-2" />} />
-        <TabButton active={activeTab === 'table'} onClick={() => setActiveTab('table')} label="Dados" icon={<TableIcon className="w-4 h-4 mr-2" />} />
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {metricCards.map(({ metric, value, previous }) => (
+          <StatCard
+            key={metric.key}
+            title={metric.label}
+            value={formatMetric(value, metric.format)}
+            icon={<Sigma className="w-4 h-4" />}
+            color="indigo"
+            tag="Calc."
+            comparison={previousStats && value !== null && previous !== null
+              ? buildComparison(value, previous, v => formatMetric(v, metric.format), !metric.lowerIsBetter)
+              : undefined}
+          />
+        ))}
+        <button
+          onClick={() => setShowMetricsManager(v => !v)}
+          className="flex flex-col items-center justify-center p-5 rounded-[28px] border-2 border-dashed border-slate-200 text-slate-400 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+        >
+          <Sigma className="w-5 h-5 mb-1" />
+          <span className="text-[10px] font-black uppercase tracking-widest">Métricas</span>
+        </button>
       </div>
 
-      {activeTab === 'visual' ? (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div className="lg:col-span-2 bg-white p-6 rounded-3xl border border-slate-200 shadow-sm flex flex-wrap gap-6 items-center">
-            <ChartControl label="Categoria:" val={chartCat} setVal={setChartCat} options={categoricalHeaders} />
-            <ChartControl label="Métrica:" val={chartMet} setVal={setChartMet} options={metricHeaders} />
-          </div>
+      {showMetricsManager && (
+        <MetricsManager
+          headers={data.headers}
+          mapping={mapping}
+          settings={metricSettings}
+          onChange={updateMetricSettings}
+          onClose={() => setShowMetricsManager(false)}
+        />
+      )}
 
-          <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
-            <h4 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">Top Performance</h4>
-            <div className="h-[400px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={chartData} layout="vertical">
-                  <XAxis type="number" hide />
-                  <YAxis dataKey="name" type="category" width={100} tick={{fill: '#64748b', fontSize: 10, fontWeight: 700}} axisLine={false} tickLine={false} />
-                  <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={{borderRadius: '16px', border: 'none'}} />
-                  <Bar dataKey="value" fill="#6366f1" radius={[0, 10, 10, 0]} barSize={20} />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
+      {insightError && (
+        <LlmErrorNotice error={insightError} onRetry={generateInsights} onConfigure={onConfigureLlm} onDismiss={() => setInsightError(null)} />
+      )}
 
-          <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
-            <h4 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">Tendência</h4>
-            <div className="h-[400px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={[...chartData].reverse()}>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, fontWeight: 700}} />
-                  <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, fontWeight: 700}} />
-                  <Tooltip contentStyle={{borderRadius: '16px', border: 'none'}} />
-                  <Line type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={5} dot={{r: 6, fill: '#6366f1', strokeWidth: 3, stroke: '#fff'}} />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
+      {insights && (
+        <InsightsPanel result={insights} canFilter={canFilterAnomaly} onFilter={filterAnomaly} onClose={() => setInsights(null)} />
+      )}
+
+      <AlertsPanel
+        data={data}
+        rules={alertRules}
+        evaluation={alertEvaluation}
+        catalog={metricCatalog}
+        dimensions={categoricalHeaders}
+        dateColumn={colData}
+        templates={alertTemplates(mapping, metricCatalog)}
+        onChangeRules={updateAlertRules}
+        canFilter={hit => canFilterEntity(hit.rule.dimension, hit.entity)}
+        onFilter={hit => filterEntity(hit.rule.dimension, hit.entity)}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex space-x-2 bg-slate-200/50 p-1.5 rounded-2xl w-fit">
+          <TabButton active={activeTab === 'visual'} onClick={() => setActiveTab('visual')} label="Visual" icon={<LayoutDashboard className="w-4 h-4 mr-2" />} />
+          <TabButton active={activeTab === 'table'} onClick={() => setActiveTab('table')} label="Dados" icon={<TableIcon className="w-4 h-4 mr-2" />} />
+          <TabButton active={activeTab === 'pivot'} onClick={() => setActiveTab('pivot')} label="Pivô" icon={<Grid3x3 className="w-4 h-4 mr-2" />} />
+          <TabButton active={activeTab === 'attribution'} onClick={() => setActiveTab('attribution')} label="Atribuição" icon={<Link2 className="w-4 h-4 mr-2" />} />
         </div>
-      ) : (
-        <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
-          <div className="p-6 border-b border-slate-100 bg-slate-50/50">
-            <h4 className="font-black text-slate-800 tracking-tighter uppercase text-sm">Auditoria ({filteredRows.length})</h4>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-left text-[11px] border-collapse">
-              <thead>
-                <tr className="bg-slate-50 border-b border-slate-200">
-                  {data.headers.map(h => (
-                    <th key={h} className="px-6 py-4 font-black text-slate-400 uppercase tracking-widest">{h}</th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-100">
-                {filteredRows.map((row, i) => (
-                  <tr key={i} className="hover:bg-indigo-50/30 transition-colors">
-                    {data.headers.map(h => {
-                      const isFinancial = h.toLowerCase().match(/(faturamento|gasto|lucro|imposto|spend|receita)/);
-                      const isRoas = h.toLowerCase().includes('roas');
-                      const isPercentage = h.toLowerCase().includes('%');
-                      return (
-                        <td key={h} className="px-6 py-3 text-slate-600 font-bold whitespace-nowrap">
-                          {typeof row[h] === 'number' && isFinancial ? formatBRL(row[h]) : 
-                           typeof row[h] === 'number' && (isRoas || isPercentage) ? `${row[h].toLocaleString('pt-BR')}${isPercentage ? '%' : 'x'}` : 
-                           row[h]}
-                        </td>
-                      );
-                    })}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowReport(v => !v)}
+            className={`inline-flex items-center px-4 py-2 rounded-xl text-xs font-bold transition-all ${showReport ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            <FileDown className="w-4 h-4 mr-2" />
+            Relatório
+          </button>
+          <button
+            onClick={() => setShowChat(v => !v)}
+            className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all"
+          >
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Perguntar
+          </button>
+          <button
+            onClick={generateInsights}
+            disabled={analyzing || filteredRows.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+          >
+            <BrainCircuit className="w-4 h-4 mr-2" />
+            {analyzing ? 'Analisando...' : 'Insights IA'}
+          </button>
+        </div>
+      </div>
+
+      {showReport && (
+        <ReportPanel
+          extent={extent}
+          defaultRange={activeRange}
+          hasInsights={!!insights}
+          onBuild={buildReport}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showChat && <DataChat data={data} mapping={mapping} catalog={metricCatalog} llm={llm} onConfigureLlm={onConfigureLlm} onClose={() => setShowChat(false)} />}
+
+      {activeTab === 'visual' ? (
+        <WidgetGrid
+          data={data}
+          rows={filteredRows}
+          mapping={mapping}
+          catalog={metricCatalog}
+          dimensions={categoricalHeaders}
+          dateColumn={colData}
+          highlights={highlights}
+          series={widgetSeries}
+          widgets={widgets}
+          onChange={updateWidgets}
+          onReset={() => updateWidgets(resetWidgets())}
+        />
+      ) : activeTab === 'attribution' ? (
+        <AttributionView data={data} rows={filteredRows} mapping={mapping} />
+      ) : activeTab === 'pivot' ? (
+        <PivotView data={data} rows={filteredRows} mapping={mapping} catalog={metricCatalog} dimensions={categoricalHeaders} />
+      ) : focus ? (
+        <div className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-2xl px-5 py-3 flex items-center justify-between gap-4 text-amber-800">
+            <span className="text-[11px] font-bold">
+              <span className="font-black uppercase tracking-widest">{focus.label}</span> · {focus.rows.length.toLocaleString('pt-BR')} linha(s) como vieram da fonte, sem filtros
+            </span>
+            <button onClick={onClearFocus} className="inline-flex items-center text-[10px] font-black text-amber-600 hover:text-amber-800">
+              <X className="w-3 h-3 mr-1" /> VOLTAR AO RECORTE
+            </button>
           </div>
+          <DataTable data={data} rows={focus.rows} metrics={activeMetrics} catalog={metricCatalog} markedColumn={focus.column} />
         </div>
+      ) : (
+        <DataTable data={data} rows={filteredRows} metrics={activeMetrics} catalog={metricCatalog} highlights={highlights} />
       )}
     </div>
   );
 };
 
-const StatCard = ({ title, value, icon, color, tag }: any) => {
+interface KpiComparison {
+  previous: string;
+  delta: string;
+  pct: number | null;
+  higherIsBetter: boolean;
+}
+
+const StatCard = ({ title, value, icon, color, tag, comparison }: any) => {
   const styles = colorMap[color] || colorMap.indigo;
+  const cmp = comparison as KpiComparison | undefined;
+  const isUp = cmp?.delta.startsWith('+');
+  const isGood = cmp && (isUp === cmp.higherIsBetter);
   return (
     <div className="bg-white p-5 rounded-[28px] border border-slate-100 shadow-sm relative group overflow-hidden">
       <div className="relative z-10">
@@ -291,11 +636,28 @@ const StatCard = ({ title, value, icon, color, tag }: any) => {
         </div>
         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{title}</p>
         <h3 className="text-xl font-black text-slate-800 tracking-tighter truncate">{value}</h3>
+        {cmp && (
+          <div className="mt-2 space-y-0.5">
+            <p className={`flex items-center text-[11px] font-black ${isGood ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {isUp ? <ArrowUpRight className="w-3 h-3 mr-0.5" /> : <ArrowDownRight className="w-3 h-3 mr-0.5" />}
+              {cmp.pct !== null ? `${cmp.pct >= 0 ? '+' : ''}${cmp.pct.toFixed(1)}%` : 'n/d'}
+              <span className="ml-1 font-bold text-slate-400 truncate">{cmp.delta}</span>
+            </p>
+            <p className="text-[10px] font-bold text-slate-400 truncate">Antes: {cmp.previous}</p>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
+const FilterChip = ({ label, onRemove, advanced }: any) => (
+  <span className={`inline-flex items-center pl-3 pr-1 py-1 rounded-full text-[10px] font-bold max-w-xs ${advanced ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-600'}`}>
+    <span className="truncate" title={label}>{label}</span>
+    <button onClick={onRemove} className="ml-1 p-0.5 rounded-full opacity-60 hover:opacity-100 hover:bg-white"><X className="w-3 h-3" /></button>
+  </span>
+);
+
 const TabButton = ({ active, onClick, label, icon }: any) => (
   <button
     onClick={onClick}
@@ -307,20 +669,4 @@ const TabButton = ({ active, onClick, label, icon }: any) => (
   </button>
 );
 
-const ChartControl = ({ label, val, setVal, options }: any) => (
-  <div className="flex items-center space-x-3">
-    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
-    <div className="relative">
-      <select 
-        value={val} 
-        onChange={e => setVal(e.target.value)}
-        className="appearance-none bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none pr-8 cursor-pointer"
-      >
-        {options.map((o: string) => <option key={o} value={o}>{o}</option>)}
-      </select>
-      <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
-    </div>
-  </div>
-);
-
 export default Dashboard;
\ No newline at end of file
@@ -0,0 +1,202 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { MessageSquare, Send, X, ShieldCheck, ListChecks } from 'lucide-react';
+import { ColumnMapping, DashboardData } from '../types';
+import { CompiledMetric, formatMetric } from '../services/metrics';
+import { QueryPlan, QueryResult, buildQuerySchema, describePlan, executeQueryPlan } from '../services/queryPlan';
+import { LlmSettings, getProvider } from '../services/llm';
+import { LlmError, toLlmError } from '../services/llmErrors';
+import LlmErrorNotice from './LlmErrorNotice';
+import { COLORS } from './theme';
+
+interface DataChatProps {
+  data: DashboardData;
+  mapping: ColumnMapping;
+  catalog: CompiledMetric[];
+  llm: LlmSettings;
+  onConfigureLlm: () => void;
+  onClose: () => void;
+}
+
+interface ChatMessage {
+  id: number;
+  question: string;
+  plan?: QueryPlan;
+  result?: QueryResult;
+  // Falha do provedor de IA ou plano que não se aplica a esta planilha
+  error?: LlmError | string;
+  pending: boolean;
+}
+
+// Linhas exibidas por resposta; o total de grupos aparece no rodapé
+const MAX_RESULT_ROWS = 50;
+
+const EXAMPLES = [
+  'Quais anúncios tiveram ROAS abaixo de 2 na semana passada com gasto acima de R$ 500?',
+  'Faturamento por dia nos últimos 14 dias',
+  'Top 5 campanhas por vendas',
+];
+
+const ResultView: React.FC<{ result: QueryResult, chart: QueryPlan['chart'] }> = ({ result, chart }) => {
+  const metric = result.metrics[0];
+  const showChart = chart !== 'table' && result.groupBy.length === 1 && result.rows.length > 1 && metric;
+  const chartData = showChart
+    ? result.rows.map(r => ({ name: r.key, value: r.values[metric.key] ?? 0 }))
+    : [];
+
+  if (result.rows.length === 0) {
+    return <p className="text-[11px] font-bold text-slate-400">Nenhum resultado para este plano ({result.matchedRows.toLocaleString('pt-BR')} linhas após os filtros).</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {showChart && (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            {chart === 'line' ? (
+              <LineChart data={chartData}>
+                <XAxis dataKey="name" hide />
+                <YAxis hide />
+                <Tooltip formatter={(v: any) => formatMetric(Number(v), metric.format)} contentStyle={{ borderRadius: '12px', border: 'none', fontSize: '10px', fontWeight: 'bold' }} />
+                <Line type="monotone" dataKey="value" stroke={COLORS[0]} strokeWidth={2} dot={false} />
+              </LineChart>
+            ) : (
+              <BarChart data={chartData}>
+                <XAxis dataKey="name" hide />
+                <YAxis hide />
+                <Tooltip formatter={(v: any) => formatMetric(Number(v), metric.format)} contentStyle={{ borderRadius: '12px', border: 'none', fontSize: '10px', fontWeight: 'bold' }} />
+                <Bar dataKey="value" fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+      )}
+      <div className="overflow-x-auto border border-slate-100 rounded-xl">
+        <table className="w-full text-left text-[10px] border-collapse">
+          <thead>
+            <tr className="bg-slate-50 text-slate-400 font-black uppercase tracking-widest">
+              {result.groupBy.map(g => <th key={g} className="px-3 py-2 whitespace-nowrap">{g}</th>)}
+              {result.metrics.map(m => <th key={m.key} className="px-3 py-2 text-right whitespace-nowrap">{m.label}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {result.rows.slice(0, MAX_RESULT_ROWS).map(r => (
+              <tr key={r.key} className="font-bold text-slate-600">
+                {result.groupBy.map(g => <td key={g} className="px-3 py-2 whitespace-nowrap max-w-[160px] truncate">{r.group[g]}</td>)}
+                {result.metrics.map(m => <td key={m.key} className="px-3 py-2 text-right whitespace-nowrap">{formatMetric(r.values[m.key], m.format)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {result.rows.length > MAX_RESULT_ROWS && (
+        <p className="text-[10px] font-bold text-slate-400">Mostrando {MAX_RESULT_ROWS} de {result.rows.length.toLocaleString('pt-BR')} grupos.</p>
+      )}
+    </div>
+  );
+};
+
+const DataChat: React.FC<DataChatProps> = ({ data, mapping, catalog, llm, onConfigureLlm, onClose }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const schema = useMemo(() => buildQuerySchema(data, catalog, mapping), [data, catalog, mapping]);
+  const dateColumn = schema.dateColumn ?? undefined;
+  const pending = messages.some(m => m.pending);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages]);
+
+  const updateMessage = (id: number, patch: Partial<ChatMessage>) =>
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+    const id = Date.now();
+    setMessages(prev => [...prev, { id, question: trimmed, pending: true }]);
+    setQuestion('');
+    try {
+      const plan = await getProvider(llm).planQuery(trimmed, schema, llm);
+      try {
+        updateMessage(id, { plan, result: executeQueryPlan(plan, data, catalog, dateColumn), pending: false });
+      } catch (error) {
+        // Plano inválido para esta planilha: mostra o plano mesmo assim para facilitar a reformulação
+        updateMessage(id, { plan, error: (error as Error).message, pending: false });
+      }
+    } catch (error) {
+      updateMessage(id, { error: toLlmError(error), pending: false });
+    }
+  };
+
+  return (
+    <div className="fixed top-16 right-0 bottom-0 w-full sm:w-[440px] bg-white border-l border-slate-200 shadow-2xl z-40 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><MessageSquare className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-sm font-black text-slate-800 tracking-tighter uppercase">Pergunte aos Dados</h4>
+            <p className="text-[10px] font-bold text-slate-400 flex items-center"><ShieldCheck className="w-3 h-3 mr-1" /> Só nomes de colunas vão para a IA; o cálculo é feito aqui.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-5 space-y-6 scrollbar-thin">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Exemplos</p>
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                onClick={() => ask(example)}
+                className="w-full text-left p-3 rounded-2xl bg-slate-50 text-[11px] font-bold text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 transition-all"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className="space-y-3">
+            <div className="ml-8 p-3 rounded-2xl rounded-tr-sm bg-indigo-600 text-white text-xs font-bold">{message.question}</div>
+            {message.pending && <p className="text-[11px] font-bold text-slate-400 animate-pulse">Montando consulta...</p>}
+            {message.plan && (
+              <div className="p-3 rounded-2xl bg-slate-50 border border-slate-100">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center mb-1"><ListChecks className="w-3 h-3 mr-1" /> Plano executado</p>
+                <ul className="text-[10px] font-bold text-slate-500 space-y-0.5">
+                  {describePlan(message.plan, catalog).map(line => <li key={line}>{line}</li>)}
+                </ul>
+              </div>
+            )}
+            {typeof message.error === 'string' && <p className="text-[11px] font-bold text-rose-500">{message.error}</p>}
+            {message.error instanceof LlmError && (
+              <LlmErrorNotice error={message.error} onRetry={() => ask(message.question)} onConfigure={onConfigureLlm} compact />
+            )}
+            {message.result && message.plan && <ResultView result={message.result} chart={message.plan.chart} />}
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={e => { e.preventDefault(); ask(question); }}
+        className="p-4 border-t border-slate-100 flex items-center gap-2"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="Ex.: ROAS por campanha no último mês"
+          className="flex-1 px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-bold focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="submit" disabled={pending || !question.trim()} className="p-3 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 transition-all disabled:opacity-50">
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DataChat;
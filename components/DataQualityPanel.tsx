@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ChevronDown, ChevronUp, Eye } from 'lucide-react';
+import {
+  QUALITY_ACTIONS, QUALITY_KIND_HINTS, QUALITY_KIND_LABELS, QualityAction, QualityChoices, QualityIssue, QualityReport,
+  excludedRowCount, qualityActionLabel,
+} from '../services/dataQuality';
+
+interface DataQualityPanelProps {
+  report: QualityReport;
+  choices: QualityChoices;
+  onChange: (choices: QualityChoices) => void;
+  onShowRows: (issue: QualityIssue) => void;
+}
+
+const formatCount = (v: number) => v.toLocaleString('pt-BR');
+
+const formatShare = (count: number, total: number) =>
+  `${(total ? (count / total) * 100 : 0).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+// Aberto logo após cada carga; depois fica recolhido em uma linha para não disputar espaço com o painel
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, choices, onChange, onShowRows }) => {
+  const [expanded, setExpanded] = useState(true);
+  const affected = new Set(report.issues.flatMap(i => i.rows)).size;
+  const excluded = excludedRowCount(report, choices);
+  const changed = report.issues.filter(i => (choices[i.id] ?? 'keep') !== 'keep').length;
+
+  const choose = (issue: QualityIssue, action: QualityAction) => {
+    const next = { ...choices };
+    if (action === 'keep') delete next[issue.id];
+    else next[issue.id] = action;
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-[24px] p-5 text-amber-800">
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={() => setExpanded(v => !v)} className="flex items-center text-left">
+          <ShieldAlert className="w-4 h-4 mr-2 flex-shrink-0" />
+          <span className="text-xs font-black uppercase tracking-widest">
+            Qualidade dos dados · {report.issues.length} problema(s) em {formatCount(affected)} linha(s)
+          </span>
+          {changed > 0 && (
+            <span className="ml-3 text-[10px] font-bold normal-case text-amber-600">
+              {changed} tratado(s){excluded > 0 ? ` · ${formatCount(excluded)} linha(s) fora do painel` : ''}
+            </span>
+          )}
+        </button>
+        <button onClick={() => setExpanded(v => !v)} className="text-amber-500 hover:text-amber-700">
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-2 max-h-80 overflow-y-auto scrollbar-thin">
+          {report.issues.map(issue => {
+            const current = choices[issue.id] ?? 'keep';
+            return (
+              <div key={issue.id} className="bg-white/70 border border-amber-100 rounded-2xl px-4 py-3 flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[220px]">
+                  <p className="text-[11px] font-black text-slate-700" title={QUALITY_KIND_HINTS[issue.kind]}>
+                    {QUALITY_KIND_LABELS[issue.kind]}
+                    {issue.column && <span className="text-slate-400"> · {issue.column}</span>}
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-500">
+                    {formatCount(issue.rows.length)} linha(s) ({formatShare(issue.rows.length, report.totalRows)})
+                    {issue.samples.length > 0 && issue.kind !== 'empty' && (
+                      <> · ex.: {issue.samples.map(s => <code key={s} className="mx-0.5 px-1 bg-amber-100/70 rounded text-amber-800">{s}</code>)}</>
+                    )}
+                  </p>
+                </div>
+                <div className="flex bg-slate-100 p-0.5 rounded-xl">
+                  {QUALITY_ACTIONS[issue.kind].map(action => (
+                    <button
+                      key={action}
+                      onClick={() => choose(issue, action)}
+                      className={`px-2.5 py-1 rounded-lg text-[10px] font-black transition-all ${current === action ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {qualityActionLabel(issue.kind, action)}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onShowRows(issue)}
+                  className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800"
+                >
+                  <Eye className="w-3 h-3 mr-1" /> VER LINHAS
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,206 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown, Columns3, ChevronUp, ChevronDown, Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { DashboardData, DataRow } from '../types';
+import { CompiledMetric } from '../services/metrics';
+import { headerSignature } from '../services/columnMapping';
+import { isRowFlagged } from '../services/alerts';
+import { tableToExport } from '../services/exporter';
+import {
+  ColumnLayout, SortKey, TableColumn, arrangeColumns, buildTableColumns, columnTotal, formatCell,
+  isNumericColumn, loadColumnLayout, saveColumnLayout, sortRows, toggleSort,
+} from '../services/tableView';
+import ExportMenu from './ExportMenu';
+
+interface DataTableProps {
+  data: DashboardData;
+  rows: DataRow[];
+  metrics: CompiledMetric[];
+  // Catálogo completo: dá o total recalculado das colunas de razão da planilha
+  catalog: CompiledMetric[];
+  // Entidades sinalizadas pelas regras de alerta, por coluna
+  highlights?: Map<string, Set<string>>;
+  // Coluna com o problema de qualidade que trouxe estas linhas
+  markedColumn?: string | null;
+}
+
+// Altura fixa por linha: a virtualização calcula quais linhas cabem na janela sem medir o DOM
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 560;
+const OVERSCAN = 10;
+
+// Larguras fixas evitam que as colunas "pulem" conforme linhas diferentes entram na janela
+const columnWidth = (column: TableColumn) =>
+  isNumericColumn(column) ? 140 : column.type === 'date' ? 150 : 220;
+
+const DataTable: React.FC<DataTableProps> = ({ data, rows, metrics, catalog, highlights, markedColumn }) => {
+  const signature = useMemo(() => headerSignature(data.headers), [data.headers]);
+  const [layout, setLayout] = useState<ColumnLayout>(() => loadColumnLayout(signature));
+  const [sort, setSort] = useState<SortKey[]>([]);
+  const [showColumns, setShowColumns] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const arranged = useMemo(() => arrangeColumns(buildTableColumns(data, metrics, catalog), layout), [data, metrics, catalog, layout]);
+  const visible = arranged.filter(c => !layout.hidden.includes(c.key));
+
+  const sortedRows = useMemo(() => sortRows(rows, arranged, sort), [rows, arranged, sort]);
+  const totals = useMemo(
+    () => Object.fromEntries(arranged.map(c => [c.key, columnTotal(rows, c)])),
+    [rows, arranged]
+  );
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(sortedRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = sortedRows.slice(first, last);
+
+  const updateLayout = (next: ColumnLayout) => {
+    setLayout(next);
+    saveColumnLayout(signature, next);
+  };
+
+  const toggleHidden = (key: string) => {
+    const hidden = layout.hidden.includes(key) ? layout.hidden.filter(k => k !== key) : [...layout.hidden, key];
+    // Sempre sobra ao menos uma coluna visível
+    if (hidden.length >= arranged.length) return;
+    updateLayout({ ...layout, hidden });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const order = arranged.map(c => c.key);
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    updateLayout({ ...layout, order });
+  };
+
+  const changeSort = (key: string, additive: boolean) => {
+    setSort(prev => toggleSort(prev, key, additive));
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  return (
+    <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4">
+        <div>
+          <h4 className="font-black text-slate-800 tracking-tighter uppercase text-sm">Auditoria ({rows.length.toLocaleString('pt-BR')})</h4>
+          <p className="text-[10px] font-bold text-slate-400">Clique no cabeçalho para ordenar; Shift+clique adiciona critérios.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {sort.length > 0 && (
+            <button onClick={() => setSort([])} className="px-3 py-2 text-[10px] font-black text-slate-500 hover:text-slate-700">LIMPAR ORDEM</button>
+          )}
+          <ExportMenu getTable={() => tableToExport('Dados', sortedRows, visible)} fileName="auditoria" disabled={rows.length === 0} />
+          <div className="relative">
+            <button
+              onClick={() => setShowColumns(v => !v)}
+              className="px-4 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-xl transition-all flex items-center"
+            >
+              <Columns3 className="w-4 h-4 mr-1" /> COLUNAS
+              {layout.hidden.length > 0 && <span className="ml-1 text-slate-400">({visible.length}/{arranged.length})</span>}
+            </button>
+            {showColumns && (
+              <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl z-30 p-3 space-y-2">
+                <div className="max-h-72 overflow-y-auto scrollbar-thin space-y-1">
+                  {arranged.map((column, index) => {
+                    const hidden = layout.hidden.includes(column.key);
+                    return (
+                      <div key={column.key} className="flex items-center gap-2 p-1.5 rounded-xl hover:bg-slate-50">
+                        <button onClick={() => toggleHidden(column.key)} className={hidden ? 'text-slate-300' : 'text-indigo-600'}>
+                          {hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                        </button>
+                        <span className={`flex-1 truncate text-[11px] font-bold ${hidden ? 'text-slate-300' : column.metric ? 'text-indigo-500' : 'text-slate-600'}`}>{column.label}</span>
+                        <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronUp className="w-3 h-3" /></button>
+                        <button onClick={() => moveColumn(index, 1)} disabled={index === arranged.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronDown className="w-3 h-3" /></button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <button
+                  onClick={() => updateLayout({ order: [], hidden: [] })}
+                  className="w-full inline-flex items-center justify-center pt-2 border-t border-slate-100 text-[10px] font-black text-slate-400 hover:text-slate-600"
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" /> RESTAURAR PADRÃO
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto scrollbar-thin"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="text-left text-[11px] border-separate border-spacing-0 table-fixed" style={{ width: visible.reduce((s, c) => s + columnWidth(c), 0), minWidth: '100%' }}>
+          <colgroup>
+            {visible.map(c => <col key={c.key} style={{ width: columnWidth(c) }} />)}
+          </colgroup>
+          <thead>
+            <tr>
+              {visible.map(column => {
+                const position = sort.findIndex(s => s.key === column.key);
+                const active = sort[position];
+                return (
+                  <th
+                    key={column.key}
+                    onClick={e => changeSort(column.key, e.shiftKey)}
+                    className={`sticky top-0 z-10 bg-slate-50 border-b border-slate-200 px-4 py-3 font-black uppercase tracking-widest cursor-pointer select-none hover:bg-slate-100 ${column.metric ? 'text-indigo-400' : 'text-slate-400'}`}
+                  >
+                    <span className={`flex items-center gap-1 ${isNumericColumn(column) ? 'justify-end' : ''}`}>
+                      <span className="truncate" title={column.label}>{column.label}</span>
+                      {active
+                        ? <>{active.dir === 'asc' ? <ArrowUp className="w-3 h-3 flex-shrink-0 text-indigo-600" /> : <ArrowDown className="w-3 h-3 flex-shrink-0 text-indigo-600" />}{sort.length > 1 && <span className="text-[9px] text-indigo-600">{position + 1}</span>}</>
+                        : <ArrowUpDown className="w-3 h-3 flex-shrink-0 opacity-30" />}
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {windowRows.map((row, i) => {
+              const flagged = !!highlights?.size && isRowFlagged(row, highlights, data);
+              return (
+                <tr key={first + i} style={{ height: ROW_HEIGHT }} className={`transition-colors ${flagged ? 'bg-rose-50 hover:bg-rose-100/70' : 'hover:bg-indigo-50/30'}`}>
+                  {visible.map(column => {
+                    const text = formatCell(row, column);
+                    // Dentro da linha sinalizada, a célula da entidade que disparou o alerta fica em vermelho
+                    const alerted = flagged && !!highlights!.get(column.key)?.has(text);
+                    const marked = column.key === markedColumn;
+                    return (
+                      <td
+                        key={column.key}
+                        title={text}
+                        className={`px-4 border-b border-slate-100 font-bold whitespace-nowrap truncate ${marked ? 'bg-amber-50 text-amber-700' : alerted ? 'text-rose-600' : column.metric ? 'text-indigo-600' : 'text-slate-600'} ${isNumericColumn(column) ? 'text-right' : ''}`}
+                      >
+                        {text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {last < sortedRows.length && <tr style={{ height: (sortedRows.length - last) * ROW_HEIGHT }} />}
+          </tbody>
+          <tfoot>
+            <tr>
+              {visible.map((column, index) => (
+                <td
+                  key={column.key}
+                  title={totals[column.key]}
+                  className={`sticky bottom-0 z-10 bg-slate-100 border-t border-slate-200 px-4 py-3 font-black whitespace-nowrap truncate ${column.metric ? 'text-indigo-700' : 'text-slate-700'} ${isNumericColumn(column) ? 'text-right' : ''}`}
+                >
+                  {index === 0 && !isNumericColumn(column) ? `Total · ${totals[column.key]}` : totals[column.key]}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DataTable;
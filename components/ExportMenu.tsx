@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown, FileText, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { ExportTable, downloadBlob, exportFileName, toCsv, toXlsx } from '../services/exporter';
+
+interface ExportMenuProps {
+  // Montada só no clique: a tabela inteira pode ter muitas linhas
+  getTable: () => ExportTable;
+  fileName: string;
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ getTable, fileName, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportAs = async (format: 'csv' | 'xlsx') => {
+    setOpen(false);
+    setBusy(true);
+    setError(null);
+    try {
+      const table = getTable();
+      const blob = format === 'csv'
+        ? new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' })
+        : await toXlsx([table]);
+      downloadBlob(blob, exportFileName(fileName, format));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        disabled={disabled || busy}
+        className="px-4 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-xl transition-all flex items-center disabled:opacity-50"
+      >
+        {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />} EXPORTAR
+        <ChevronDown className="w-3 h-3 ml-1 text-slate-400" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-white border border-slate-200 rounded-2xl shadow-xl z-30 p-2 space-y-1">
+          <button onClick={() => exportAs('csv')} className="w-full flex items-center px-3 py-2 rounded-xl text-[11px] font-bold text-slate-600 hover:bg-slate-50">
+            <FileText className="w-4 h-4 mr-2 text-slate-400" /> CSV (separado por ;)
+          </button>
+          <button onClick={() => exportAs('xlsx')} className="w-full flex items-center px-3 py-2 rounded-xl text-[11px] font-bold text-slate-600 hover:bg-slate-50">
+            <FileSpreadsheet className="w-4 h-4 mr-2 text-emerald-600" /> Excel (.xlsx)
+          </button>
+        </div>
+      )}
+      {error && <p className="absolute right-0 mt-1 w-56 text-[10px] font-bold text-rose-500">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
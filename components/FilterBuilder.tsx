@@ -0,0 +1,150 @@
+import React from 'react';
+import { Plus, Trash2, ChevronDown, SlidersHorizontal, X } from 'lucide-react';
+import { DashboardData } from '../types';
+import { isNumericType } from '../services/columnTypes';
+import {
+  AdvancedFilter, FilterCondition, FilterGroup, FilterLogic, LOGIC_LABELS, OPERATOR_LABELS,
+  conditionError, createCondition, createGroup, needsValue, operatorsFor,
+} from '../services/advancedFilter';
+
+interface FilterBuilderProps {
+  data: DashboardData;
+  filter: AdvancedFilter;
+  onChange: (filter: AdvancedFilter) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-white border border-slate-200 rounded-xl px-3 py-2 text-[11px] font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative">
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} appearance-none cursor-pointer pr-7 max-w-[200px] truncate`}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const LogicToggle: React.FC<{ value: FilterLogic, onChange: (v: FilterLogic) => void }> = ({ value, onChange }) => (
+  <div className="inline-flex bg-slate-100 p-0.5 rounded-lg">
+    {(['and', 'or'] as FilterLogic[]).map(l => (
+      <button
+        key={l}
+        onClick={() => onChange(l)}
+        className={`px-2 py-1 rounded-md text-[10px] font-black ${value === l ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+      >
+        {LOGIC_LABELS[l]}
+      </button>
+    ))}
+  </div>
+);
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ data, filter, onChange, onClose }) => {
+  const columnOptions = data.headers.map(h => ({ value: h, label: h }));
+
+  const updateGroup = (groupId: string, update: (g: FilterGroup) => FilterGroup) =>
+    onChange({ ...filter, groups: filter.groups.map(g => g.id === groupId ? update(g) : g) });
+
+  const updateCondition = (groupId: string, conditionId: string, patch: Partial<FilterCondition>) =>
+    updateGroup(groupId, g => ({
+      ...g,
+      conditions: g.conditions.map(c => {
+        if (c.id !== conditionId) return c;
+        // Trocar a coluna reinicia operador e valores, que dependem do tipo
+        return patch.column && patch.column !== c.column
+          ? { ...createCondition(patch.column, data.types[patch.column]), id: c.id }
+          : { ...c, ...patch };
+      }),
+    }));
+
+  const removeCondition = (groupId: string, conditionId: string) =>
+    onChange({
+      ...filter,
+      groups: filter.groups
+        .map(g => g.id === groupId ? { ...g, conditions: g.conditions.filter(c => c.id !== conditionId) } : g)
+        .filter(g => g.conditions.length > 0),
+    });
+
+  const newCondition = () => createCondition(data.headers[0], data.types[data.headers[0]]);
+
+  const renderValueInput = (groupId: string, condition: FilterCondition) => {
+    if (!needsValue(condition.operator)) return null;
+    const type = data.types[condition.column];
+    const inputType = type === 'date' ? 'date' : 'text';
+    const placeholder = isNumericType(type) ? 'ex.: 100 ou 1.200,50' : 'valor';
+    const input = (field: 'value' | 'value2') => (
+      <input
+        type={inputType}
+        value={condition[field]}
+        placeholder={placeholder}
+        onChange={e => updateCondition(groupId, condition.id, { [field]: e.target.value })}
+        className={`${inputClass} w-36`}
+      />
+    );
+    return condition.operator === 'between'
+      ? <>{input('value')}<span className="text-[10px] font-black text-slate-400">e</span>{input('value2')}</>
+      : input('value');
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-100 rounded-[24px] p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
+            <SlidersHorizontal className="w-3 h-3 mr-1" /> Filtro avançado
+          </h5>
+          {filter.groups.length > 1 && (
+            <span className="flex items-center gap-2 text-[10px] font-bold text-slate-400">
+              Combinar grupos com <LogicToggle value={filter.logic} onChange={logic => onChange({ ...filter, logic })} />
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      {filter.groups.map((group, gi) => (
+        <div key={group.id} className="space-y-2">
+          {gi > 0 && <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">{LOGIC_LABELS[filter.logic]}</p>}
+          <div className="bg-white border border-slate-200 rounded-2xl p-3 space-y-2">
+            {group.conditions.map((condition, ci) => {
+              const error = conditionError(condition, data);
+              return (
+                <div key={condition.id} className="flex flex-wrap items-center gap-2">
+                  <span className="w-10 text-[10px] font-black text-slate-400 text-center">
+                    {ci === 0 ? 'SE' : ci === 1
+                      ? <LogicToggle value={group.logic} onChange={logic => updateGroup(group.id, g => ({ ...g, logic }))} />
+                      : LOGIC_LABELS[group.logic]}
+                  </span>
+                  <Select value={condition.column} options={columnOptions} onChange={v => updateCondition(group.id, condition.id, { column: v })} />
+                  <Select
+                    value={condition.operator}
+                    options={operatorsFor(data.types[condition.column]).map(o => ({ value: o, label: OPERATOR_LABELS[o] }))}
+                    onChange={v => updateCondition(group.id, condition.id, { operator: v as FilterCondition['operator'] })}
+                  />
+                  {renderValueInput(group.id, condition)}
+                  <button onClick={() => removeCondition(group.id, condition.id)} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+                  {error && <span className="text-[10px] font-bold text-rose-500">{error}</span>}
+                </div>
+              );
+            })}
+            <button
+              onClick={() => updateGroup(group.id, g => ({ ...g, conditions: [...g.conditions, newCondition()] }))}
+              className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus className="w-3 h-3 mr-1" /> CONDIÇÃO
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange({ ...filter, groups: [...filter.groups, createGroup(newCondition())] })}
+        className="inline-flex items-center px-3 py-2 bg-white border border-dashed border-slate-300 rounded-xl text-[10px] font-black text-slate-500 hover:text-indigo-600 hover:border-indigo-300"
+      >
+        <Plus className="w-3 h-3 mr-1" /> {filter.groups.length ? 'NOVO GRUPO' : 'ADICIONAR CONDIÇÃO'}
+      </button>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,187 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronUp, Settings2, ArrowDown } from 'lucide-react';
+import { ColumnMapping, DashboardData, DataRow } from '../types';
+import { isNumericType } from '../services/columnTypes';
+import { isRatioColumn } from '../services/metrics';
+import { headerSignature } from '../services/columnMapping';
+import { FunnelConfig, FunnelStep, buildFunnel, loadFunnelConfig, saveFunnelConfig, splitFunnel, suggestFunnel } from '../services/funnel';
+
+interface FunnelViewProps {
+  data: DashboardData;
+  rows: DataRow[];
+  mapping: ColumnMapping;
+  // Colunas de texto que podem dividir o funil
+  dimensions: string[];
+}
+
+const selectClass = "bg-slate-50 border border-slate-100 rounded-xl pl-3 pr-7 py-2 text-[11px] font-bold text-slate-600 appearance-none cursor-pointer focus:ring-2 focus:ring-indigo-500 outline-none max-w-[200px] truncate";
+const inputClass = "bg-white border border-slate-200 rounded-xl px-3 py-2 text-[11px] font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative">
+    <select value={value} onChange={e => onChange(e.target.value)} className={selectClass}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const formatCount = (v: number) => v.toLocaleString('pt-BR', { maximumFractionDigits: 0 });
+const formatPct = (v: number | null) => v === null ? '—' : `${v.toLocaleString('pt-BR', { maximumFractionDigits: v < 10 ? 2 : 1 })}%`;
+
+// Conteúdo do widget de funil: título e moldura vêm do card da grade
+const FunnelView: React.FC<FunnelViewProps> = ({ data, rows, mapping, dimensions }) => {
+  const signature = useMemo(() => headerSignature(data.headers), [data.headers]);
+  const [config, setConfig] = useState<FunnelConfig>(() =>
+    loadFunnelConfig(signature, data) ?? { stages: suggestFunnel(data, mapping), dimension: null }
+  );
+  const [editing, setEditing] = useState(false);
+
+  const updateConfig = (patch: Partial<FunnelConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveFunnelConfig(signature, next);
+  };
+
+  const countColumns = data.headers.filter(h => isNumericType(data.types[h]) && data.types[h] !== 'currency' && !isRatioColumn(h, data.types[h]));
+  const columnOptions = countColumns.map(c => ({ value: c, label: c }));
+
+  const overall = useMemo(() => buildFunnel(rows, config.stages), [rows, config.stages]);
+  const segments = useMemo(
+    () => config.dimension ? splitFunnel(rows, config.stages, config.dimension, data, overall) : [],
+    [rows, config.stages, config.dimension, data, overall]
+  );
+
+  const updateStage = (index: number, patch: Partial<FunnelConfig['stages'][number]>) =>
+    updateConfig({ stages: config.stages.map((s, i) => i === index ? { ...s, ...patch } : s) });
+
+  const moveStage = (index: number, delta: number) => {
+    const stages = [...config.stages];
+    const [stage] = stages.splice(index, 1);
+    stages.splice(index + delta, 0, stage);
+    updateConfig({ stages });
+  };
+
+  const addStage = () => {
+    const column = countColumns.find(c => !config.stages.some(s => s.column === c)) ?? countColumns[0];
+    if (column) updateConfig({ stages: [...config.stages, { column, label: column }] });
+  };
+
+  const top = overall[0]?.value ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-end gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black text-slate-400 uppercase">Dividir por:</span>
+          <Select
+            value={config.dimension ?? ''}
+            options={[{ value: '', label: 'Nenhum' }, ...dimensions.map(d => ({ value: d, label: d }))]}
+            onChange={v => updateConfig({ dimension: v || null })}
+          />
+          <button
+            onClick={() => setEditing(v => !v)}
+            className={`px-3 py-2 text-[10px] font-black rounded-xl transition-all flex items-center ${editing ? 'bg-indigo-600 text-white' : 'text-slate-500 bg-slate-50 hover:bg-slate-100'}`}
+          >
+            <Settings2 className="w-3 h-3 mr-1" /> ETAPAS ({config.stages.length})
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="bg-slate-50 border border-slate-100 rounded-[24px] p-4 space-y-2">
+          {config.stages.map((stage, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <span className="w-5 text-[10px] font-black text-slate-400">{i + 1}.</span>
+              <input value={stage.label} onChange={e => updateStage(i, { label: e.target.value })} className={`${inputClass} w-48`} />
+              <Select value={stage.column} options={columnOptions} onChange={v => updateStage(i, { column: v })} />
+              <button onClick={() => moveStage(i, -1)} disabled={i === 0} className="p-1 text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronUp className="w-3 h-3" /></button>
+              <button onClick={() => moveStage(i, 1)} disabled={i === config.stages.length - 1} className="p-1 text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronDown className="w-3 h-3" /></button>
+              <button onClick={() => updateConfig({ stages: config.stages.filter((_, j) => j !== i) })} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-1">
+            <button onClick={addStage} disabled={!countColumns.length} className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+              <Plus className="w-3 h-3 mr-1" /> ETAPA
+            </button>
+            <button
+              onClick={() => updateConfig({ stages: suggestFunnel(data, mapping) })}
+              className="text-[10px] font-black text-slate-400 hover:text-slate-600"
+            >
+              DETECTAR DE NOVO
+            </button>
+          </div>
+        </div>
+      )}
+
+      {config.stages.length < 2 ? (
+        <p className="text-[11px] font-bold text-slate-400">
+          Escolha ao menos duas colunas de contagem (impressões, cliques, checkouts, compras) em ETAPAS para montar o funil.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {overall.map((step, i) => (
+            <div key={i}>
+              {i > 0 && <StepTransition step={step} />}
+              <div className="flex items-center gap-4">
+                <span className="w-44 text-[11px] font-black text-slate-600 truncate" title={step.stage.column}>{step.stage.label}</span>
+                <div className="flex-1 h-8 bg-slate-50 rounded-xl overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 rounded-xl transition-all"
+                    style={{ width: `${top > 0 ? Math.max(1, Math.min(100, (step.value / top) * 100)) : 0}%`, opacity: 1 - i * 0.12 }}
+                  />
+                </div>
+                <span className="w-28 text-right text-sm font-black text-slate-800">{formatCount(step.value)}</span>
+                <span className="w-16 text-right text-[10px] font-bold text-slate-400">{formatPct(step.fromTop)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {config.stages.length >= 2 && segments.length > 0 && (
+        <div className="overflow-x-auto scrollbar-thin">
+          <table className="w-full text-left text-[11px]">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="px-3 py-2">{config.dimension}</th>
+                {config.stages.map((stage, i) => (
+                  <th key={i} className="px-3 py-2 text-right whitespace-nowrap">{i === 0 ? stage.label : `→ ${stage.label}`}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map(segment => (
+                <tr key={segment.entity} className="border-t border-slate-100">
+                  <td className="px-3 py-2 font-bold text-slate-700 max-w-[240px] truncate" title={segment.entity}>{segment.entity}</td>
+                  {segment.steps.map((step, i) => (
+                    <td
+                      key={i}
+                      className={`px-3 py-2 text-right whitespace-nowrap ${segment.weakestStep === i ? 'bg-rose-50 text-rose-600 font-black' : 'text-slate-600 font-bold'}`}
+                      title={segment.weakestStep === i ? `Maior perda em relação ao funil geral (${formatPct(overall[i].conversion)})` : undefined}
+                    >
+                      {i === 0 ? formatCount(step.value) : <>{formatPct(step.conversion)} <span className="text-slate-400 font-bold">({formatCount(step.value)})</span></>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] font-bold text-slate-400">
+            Conversão de cada etapa sobre a anterior. Em vermelho, a passagem em que o segmento mais perde em relação ao funil geral.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StepTransition = ({ step }: { step: FunnelStep }) => (
+  <div className="flex items-center gap-2 pl-48 py-1 text-[10px] font-bold text-slate-400">
+    <ArrowDown className="w-3 h-3" />
+    <span className="text-indigo-600 font-black">{formatPct(step.conversion)}</span> passaram
+    {step.dropOff > 0 && <span className="text-rose-500">· {formatCount(step.dropOff)} ficaram pelo caminho</span>}
+  </div>
+);
+
+export default FunnelView;
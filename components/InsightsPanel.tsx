@@ -0,0 +1,71 @@
+import React from 'react';
+import { BrainCircuit, Lightbulb, AlertTriangle, X, Filter as FilterIcon } from 'lucide-react';
+import { InsightAnomaly, InsightResult } from '../types';
+import { SEVERITY_STYLES } from './theme';
+
+interface InsightsPanelProps {
+  result: InsightResult;
+  // Quando a dimensão da anomalia é filtrável, o card vira atalho para filtrar aquele anúncio/campanha
+  canFilter: (anomaly: InsightAnomaly) => boolean;
+  onFilter: (anomaly: InsightAnomaly) => void;
+  onClose: () => void;
+}
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ result, canFilter, onFilter, onClose }) => (
+  <div className="space-y-4 animate-in fade-in slide-in-from-top-4 duration-500">
+    <div className="bg-indigo-950 rounded-[32px] p-8 text-white shadow-2xl border border-white/10">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-indigo-400 flex items-center mb-2"><BrainCircuit className="w-4 h-4 mr-2" /> Recomendações Estratégicas</p>
+          <h3 className="text-2xl font-black tracking-tighter">{result.title}</h3>
+        </div>
+        <button onClick={onClose} className="p-2 text-indigo-300 hover:text-white"><X className="w-5 h-5" /></button>
+      </div>
+      <p className="mt-4 text-sm font-medium text-indigo-100 leading-relaxed">{result.summary}</p>
+    </div>
+
+    {result.recommendations.length > 0 && (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {result.recommendations.map((rec, i) => (
+          <div key={i} className="bg-white p-5 rounded-[28px] border border-slate-200 shadow-sm">
+            <div className="flex items-center space-x-2 mb-2 text-indigo-600">
+              <Lightbulb className="w-4 h-4" />
+              <span className="text-[10px] font-black uppercase tracking-widest">Ação {i + 1}</span>
+            </div>
+            <p className="text-xs font-bold text-slate-600 leading-relaxed">{rec}</p>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {result.anomalies.length > 0 && (
+      <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+        <h4 className="text-xs font-black text-slate-800 uppercase tracking-widest flex items-center mb-4"><AlertTriangle className="w-4 h-4 mr-2 text-amber-500" /> Anomalias</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {result.anomalies.map((anomaly, i) => {
+            const styles = SEVERITY_STYLES[anomaly.severity];
+            return (
+              <div key={i} className={`p-4 rounded-2xl border ${styles.border}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{anomaly.dimension}</p>
+                    <p className="text-xs font-black text-slate-800 truncate">{anomaly.entity}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase ${styles.badge}`}>{styles.label}</span>
+                </div>
+                <p className="text-[11px] font-bold text-slate-500 mt-2">{anomaly.description}</p>
+                {canFilter(anomaly) && (
+                  <button onClick={() => onFilter(anomaly)} className="mt-2 inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800">
+                    <FilterIcon className="w-3 h-3 mr-1" /> FILTRAR
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default InsightsPanel;
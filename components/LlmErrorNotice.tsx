@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw, Settings2, X } from 'lucide-react';
+import { LLM_ERROR_HINTS, LlmError } from '../services/llmErrors';
+
+interface LlmErrorNoticeProps {
+  error: LlmError;
+  onRetry?: () => void;
+  onConfigure?: () => void;
+  onDismiss?: () => void;
+  compact?: boolean;
+}
+
+// Falhas de configuração e autenticação levam às configurações; as demais só pedem nova tentativa
+const LlmErrorNotice: React.FC<LlmErrorNoticeProps> = ({ error, onRetry, onConfigure, onDismiss, compact }) => {
+  const suggestsSettings = error.kind === 'config' || error.kind === 'auth';
+  return (
+    <div className={`bg-rose-50 border border-rose-200 text-rose-700 ${compact ? 'rounded-2xl p-3' : 'rounded-[24px] p-5'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs font-black flex items-center"><AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" /> {error.message}</p>
+          <p className="text-[11px] font-bold text-rose-500 mt-1">{LLM_ERROR_HINTS[error.kind]}</p>
+        </div>
+        {onDismiss && <button onClick={onDismiss} className="text-rose-400 hover:text-rose-600"><X className="w-4 h-4" /></button>}
+      </div>
+      {(onRetry || (onConfigure && suggestsSettings)) && (
+        <div className="flex items-center gap-4 mt-3">
+          {onRetry && (
+            <button onClick={onRetry} className="inline-flex items-center text-[10px] font-black text-rose-700 hover:text-rose-900">
+              <RotateCcw className="w-3 h-3 mr-1" /> TENTAR NOVAMENTE
+            </button>
+          )}
+          {onConfigure && suggestsSettings && (
+            <button onClick={onConfigure} className="inline-flex items-center text-[10px] font-black text-rose-700 hover:text-rose-900">
+              <Settings2 className="w-3 h-3 mr-1" /> CONFIGURAR IA
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmErrorNotice;
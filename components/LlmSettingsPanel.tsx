@@ -0,0 +1,103 @@
+import React from 'react';
+import { Bot, X, ChevronDown, RotateCcw, KeyRound } from 'lucide-react';
+import { LlmSettings, MODEL_OPTIONS, PROVIDERS } from '../services/llm';
+import { DEFAULT_INSIGHT_TEMPLATE, TEMPLATE_VARIABLES } from '../services/llmPrompts';
+
+interface LlmSettingsPanelProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const LlmSettingsPanel: React.FC<LlmSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<LlmSettings>) => onChange({ ...settings, ...patch });
+  const usesModel = settings.provider !== 'mock';
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Bot className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Configurações de IA</h4>
+            <p className="text-xs font-medium text-slate-500">Provedor usado pelos Insights IA e pelo chat de perguntas.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {PROVIDERS.map(provider => (
+          <button
+            key={provider.id}
+            onClick={() => update({ provider: provider.id })}
+            className={`p-4 rounded-2xl border text-left transition-all ${
+              settings.provider === provider.id ? 'border-indigo-300 bg-indigo-50/50 ring-2 ring-indigo-500' : 'border-slate-100 bg-slate-50 hover:bg-slate-100'
+            }`}
+          >
+            <p className="text-xs font-black text-slate-800">{provider.label}</p>
+            <p className="text-[10px] font-bold text-slate-500 mt-1">{provider.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {usesModel && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Modelo</label>
+            <div className="relative">
+              <input
+                list="llm-models"
+                value={settings.model}
+                onChange={e => update({ model: e.target.value })}
+                className={`${inputClass} pr-8`}
+              />
+              <datalist id="llm-models">
+                {MODEL_OPTIONS.map(m => <option key={m} value={m} />)}
+              </datalist>
+              <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+            </div>
+          </div>
+          {settings.provider === 'gemini' && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1 flex items-center"><KeyRound className="w-3 h-3 mr-1" /> Chave do Gemini</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={e => update({ apiKey: e.target.value })}
+                placeholder="Fica salva apenas neste navegador"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-6 border-t border-slate-100">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Prompt dos Insights</label>
+          <button
+            onClick={() => update({ insightTemplate: DEFAULT_INSIGHT_TEMPLATE })}
+            disabled={settings.insightTemplate === DEFAULT_INSIGHT_TEMPLATE}
+            className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" /> RESTAURAR PADRÃO
+          </button>
+        </div>
+        <textarea
+          value={settings.insightTemplate}
+          onChange={e => update({ insightTemplate: e.target.value })}
+          rows={10}
+          className={`${inputClass} font-mono leading-relaxed resize-y`}
+        />
+        <p className="text-[10px] font-bold text-slate-400">
+          Variáveis: {TEMPLATE_VARIABLES.join(', ')}. O formato da resposta (título, resumo, recomendações e anomalias) é fixo.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsPanel;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Sigma, Plus, Trash2, X, CheckCircle2, ChevronDown } from 'lucide-react';
+import { ColumnMapping } from '../types';
+import { BUILT_IN_METRICS, DERIVED_PREFIX, MetricDefinition, MetricFormat, MetricSettings, compileMetric } from '../services/metrics';
+
+interface MetricsManagerProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  settings: MetricSettings;
+  onChange: (settings: MetricSettings) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: MetricFormat, label: string }[] = [
+  { value: 'currency', label: 'Moeda' },
+  { value: 'percent', label: '%' },
+  { value: 'ratio', label: 'Multiplicador (x)' },
+  { value: 'number', label: 'Número' },
+];
+
+const inputClass = "bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const MetricsManager: React.FC<MetricsManagerProps> = ({ headers, mapping, settings, onChange, onClose }) => {
+  const [name, setName] = useState('');
+  const [formula, setFormula] = useState('');
+  const [format, setFormat] = useState<MetricFormat>('number');
+  const [lowerIsBetter, setLowerIsBetter] = useState(false);
+
+  const validate = (def: MetricDefinition): string | null => {
+    try {
+      compileMetric(def, headers, mapping);
+      return null;
+    } catch (e) {
+      return (e as Error).message;
+    }
+  };
+
+  const draft: MetricDefinition = { id: 'draft', name, formula, format, lowerIsBetter };
+  const draftError = formula.trim() ? validate(draft) : null;
+
+  const toggleActive = (key: string) => onChange({
+    ...settings,
+    active: settings.active.includes(key) ? settings.active.filter(k => k !== key) : [...settings.active, key],
+  });
+
+  const addMetric = () => {
+    if (!name.trim() || !formula.trim() || draftError) return;
+    const id = `${Date.now().toString(36)}`;
+    onChange({
+      custom: [...settings.custom, { ...draft, id, name: name.trim() }],
+      active: [...settings.active, `${DERIVED_PREFIX}${id}`],
+    });
+    setName('');
+    setFormula('');
+  };
+
+  const removeMetric = (id: string) => onChange({
+    custom: settings.custom.filter(m => m.id !== id),
+    active: settings.active.filter(k => k !== `${DERIVED_PREFIX}${id}`),
+  });
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Sigma className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Métricas Calculadas</h4>
+            <p className="text-xs font-medium text-slate-500">Fórmulas aplicadas sobre os totais das colunas. Ativas aparecem nos cards e na tabela.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {[...BUILT_IN_METRICS, ...settings.custom].map(def => {
+          const key = `${DERIVED_PREFIX}${def.id}`;
+          const error = validate(def);
+          const active = settings.active.includes(key);
+          return (
+            <div key={key} className={`p-3 rounded-2xl border ${active && !error ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => toggleActive(key)}
+                  disabled={!!error}
+                  className="flex items-center text-xs font-black text-slate-700 disabled:text-slate-400"
+                >
+                  {active && !error && <CheckCircle2 className="w-3 h-3 mr-1 text-indigo-600" />}
+                  {def.name}
+                </button>
+                {!def.builtIn && (
+                  <button onClick={() => removeMetric(def.id)} className="text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+                )}
+              </div>
+              <p className="text-[10px] font-mono text-slate-500 mt-1 truncate">{def.formula}</p>
+              {error && <p className="text-[10px] font-bold text-amber-600 mt-1">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-6 border-t border-slate-100 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <input className={`${inputClass} w-40`} placeholder="Nome (ex.: CPL)" value={name} onChange={e => setName(e.target.value)} />
+          <input className={`${inputClass} flex-1 min-w-[240px] font-mono`} placeholder="gastos / [Leads]" value={formula} onChange={e => setFormula(e.target.value)} />
+          <div className="relative">
+            <select value={format} onChange={e => setFormat(e.target.value as MetricFormat)} className={`${inputClass} appearance-none pr-8 cursor-pointer`}>
+              {FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+          </div>
+          <label className="flex items-center space-x-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={lowerIsBetter} onChange={e => setLowerIsBetter(e.target.checked)} className="accent-indigo-600" />
+            <span>Menor é melhor</span>
+          </label>
+          <button
+            onClick={addMetric}
+            disabled={!name.trim() || !formula.trim() || !!draftError}
+            className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1" /> ADICIONAR
+          </button>
+        </div>
+        <p className={`text-[10px] font-bold ${draftError ? 'text-rose-500' : 'text-slate-400'}`}>
+          {draftError || 'Use faturamento, gastos, vendas, cmv, cliques, impressoes ou [Nome da coluna], com + - * / e parênteses.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsManager;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { CalendarRange, ChevronDown } from 'lucide-react';
+import { CompareMode, DateRange, addDays, toInputDate } from '../services/periods';
+
+export interface PeriodState {
+  start: string;
+  end: string;
+  compare: CompareMode;
+}
+
+interface PeriodPickerProps {
+  value: PeriodState;
+  onChange: (value: PeriodState) => void;
+  extent: DateRange | null;
+}
+
+const COMPARE_OPTIONS: { value: CompareMode, label: string }[] = [
+  { value: 'none', label: 'Sem comparação' },
+  { value: 'previous', label: 'Período anterior' },
+  { value: 'previousMonth', label: 'Mesmo período do mês passado' },
+];
+
+const PeriodPicker: React.FC<PeriodPickerProps> = ({ value, onChange, extent }) => {
+  if (!extent) return null;
+
+  // Atalhos relativos à data mais recente da planilha, não a hoje: exportações costumam ser históricas
+  const presets = [
+    { label: '7D', start: addDays(extent.end, -6), end: extent.end },
+    { label: '14D', start: addDays(extent.end, -13), end: extent.end },
+    { label: '30D', start: addDays(extent.end, -29), end: extent.end },
+    { label: 'Mês', start: new Date(extent.end.getFullYear(), extent.end.getMonth(), 1), end: extent.end },
+  ];
+
+  const inputClass = "bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <CalendarRange className="w-4 h-4 text-slate-400" />
+      <input
+        type="date"
+        className={inputClass}
+        value={value.start}
+        min={toInputDate(extent.start)}
+        max={toInputDate(extent.end)}
+        onChange={e => onChange({ ...value, start: e.target.value })}
+      />
+      <span className="text-[10px] font-black text-slate-400 uppercase">até</span>
+      <input
+        type="date"
+        className={inputClass}
+        value={value.end}
+        min={toInputDate(extent.start)}
+        max={toInputDate(extent.end)}
+        onChange={e => onChange({ ...value, end: e.target.value })}
+      />
+      <div className="flex space-x-1">
+        {presets.map(p => (
+          <button
+            key={p.label}
+            onClick={() => onChange({ ...value, start: toInputDate(p.start), end: toInputDate(p.end) })}
+            className="px-2 py-1 rounded-lg text-[10px] font-black text-slate-500 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="relative">
+        <select
+          value={value.compare}
+          disabled={!value.start || !value.end}
+          onChange={e => onChange({ ...value, compare: e.target.value as CompareMode })}
+          className={`${inputClass} appearance-none pr-8 cursor-pointer disabled:opacity-50`}
+        >
+          {COMPARE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+      </div>
+    </div>
+  );
+};
+
+export default PeriodPicker;
@@ -0,0 +1,324 @@
+import React, { useState, useMemo } from 'react';
+import { Grid3x3, Plus, Trash2, ChevronDown, ChevronRight, Flame } from 'lucide-react';
+import { ColumnMapping, DashboardData, DataRow } from '../types';
+import { CompiledMetric } from '../services/metrics';
+import { Granularity } from '../services/timeSeries';
+import {
+  AGGREGATION_LABELS, PivotConfig, PivotDimension, PivotNode, PivotValue,
+  aggregateValue, aggregationsFor, buildPivot, collectGroupIds, flattenPivot, formatPivotValue, pivotValueLabel,
+} from '../services/pivot';
+import { pivotToExport } from '../services/exporter';
+import ExportMenu from './ExportMenu';
+
+interface PivotViewProps {
+  data: DashboardData;
+  rows: DataRow[];
+  mapping: ColumnMapping;
+  catalog: CompiledMetric[];
+  // Colunas de texto e data que podem virar linhas ou colunas do pivô
+  dimensions: string[];
+}
+
+const GRANULARITY_LABELS: Record<Granularity, string> = { day: 'Dia', week: 'Semana', month: 'Mês' };
+
+const selectClass = "bg-slate-50 border border-slate-100 rounded-xl pl-3 pr-7 py-2 text-[11px] font-bold text-slate-600 appearance-none cursor-pointer focus:ring-2 focus:ring-indigo-500 outline-none max-w-[200px] truncate";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative">
+    <select value={value} onChange={e => onChange(e.target.value)} className={selectClass}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const heatColor = (value: number | null, range: { min: number, max: number } | undefined) => {
+  if (value === null || !range || range.max === range.min) return undefined;
+  const t = (value - range.min) / (range.max - range.min);
+  return `rgba(99, 102, 241, ${(0.06 + t * 0.5).toFixed(2)})`;
+};
+
+const defaultConfig = (data: DashboardData, mapping: ColumnMapping, catalog: CompiledMetric[], dimensions: string[]): PivotConfig => {
+  const first = [mapping.campaign, mapping.adName, ...dimensions].find(c => c && dimensions.includes(c));
+  const values: PivotValue[] = [
+    ...[mapping.spend, mapping.revenue].filter(k => k && catalog.some(m => m.key === k)).map(k => ({ metric: k!, aggregation: 'sum' as const })),
+    ...(catalog.some(m => m.key === 'fx:roas') ? [{ metric: 'fx:roas', aggregation: 'ratio' as const }] : []),
+  ];
+  return {
+    rows: first ? [{ column: first, granularity: data.types[first] === 'date' ? 'week' : undefined }] : [],
+    column: null,
+    values: values.length ? values : catalog.slice(0, 1).map(m => ({ metric: m.key, aggregation: aggregationsFor(m)[0] })),
+  };
+};
+
+const PivotView: React.FC<PivotViewProps> = ({ data, rows, mapping, catalog, dimensions }) => {
+  const [config, setConfig] = useState<PivotConfig>(() => defaultConfig(data, mapping, catalog, dimensions));
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [heatmap, setHeatmap] = useState(true);
+
+  const values = config.values
+    .map(value => ({ value, metric: catalog.find(m => m.key === value.metric) }))
+    .filter((v): v is { value: PivotValue, metric: CompiledMetric } => !!v.metric);
+
+  const pivot = useMemo(() => buildPivot(rows, config, data), [rows, config, data]);
+  const visibleNodes = useMemo(() => flattenPivot(pivot.root, expanded), [pivot, expanded]);
+  const columnKeys = config.column ? pivot.columns.map(c => c.key) : [];
+
+  // Valores calculados uma vez por render para a tabela e para a escala do mapa de calor
+  const matrix = useMemo(() => visibleNodes.map(node => ({
+    node,
+    cells: columnKeys.map(key => values.map(({ value, metric }) => aggregateValue(node.cells.get(key) ?? [], value, metric))),
+    totals: values.map(({ value, metric }) => aggregateValue(node.rows, value, metric)),
+  })), [visibleNodes, pivot, config.values, catalog]);
+
+  // Escala por nível e por valor: subtotais não competem com as linhas de detalhe
+  const heatRanges = useMemo(() => {
+    const ranges = new Map<string, { min: number, max: number }>();
+    matrix.forEach(({ node, cells, totals }) => {
+      const source = columnKeys.length ? cells : [totals];
+      source.forEach(cellValues => cellValues.forEach((v, i) => {
+        if (v === null || !isFinite(v)) return;
+        const key = `${node.depth}:${i}`;
+        const range = ranges.get(key);
+        if (!range) ranges.set(key, { min: v, max: v });
+        else {
+          range.min = Math.min(range.min, v);
+          range.max = Math.max(range.max, v);
+        }
+      }));
+    });
+    return ranges;
+  }, [matrix]);
+
+  const updateConfig = (patch: Partial<PivotConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+
+  const dimensionOptions = dimensions.map(d => ({ value: d, label: d }));
+  const granularityOptions = (Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => ({ value: g, label: GRANULARITY_LABELS[g] }));
+  const metricOptions = catalog.map(m => ({ value: m.key, label: m.label }));
+
+  const withGranularity = (column: string): PivotDimension =>
+    ({ column, granularity: data.types[column] === 'date' ? 'week' : undefined });
+
+  const setRowDimension = (index: number, patch: Partial<PivotDimension>) => {
+    updateConfig({ rows: config.rows.map((d, i) => i === index ? (patch.column ? withGranularity(patch.column) : { ...d, ...patch }) : d) });
+    setExpanded(new Set());
+  };
+
+  const addRowDimension = () => {
+    const next = dimensions.find(d => !config.rows.some(r => r.column === d) && config.column?.column !== d);
+    if (next) updateConfig({ rows: [...config.rows, withGranularity(next)] });
+  };
+
+  const removeRowDimension = (index: number) => {
+    updateConfig({ rows: config.rows.filter((_, i) => i !== index) });
+    setExpanded(new Set());
+  };
+
+  const setValue = (index: number, patch: Partial<PivotValue>) => updateConfig({
+    values: config.values.map((v, i) => {
+      if (i !== index) return v;
+      const next = { ...v, ...patch };
+      // Ao trocar a métrica, mantém a agregação só se ela fizer sentido para a nova métrica
+      const metric = catalog.find(m => m.key === next.metric);
+      return metric && !aggregationsFor(metric).includes(next.aggregation) ? { ...next, aggregation: aggregationsFor(metric)[0] } : next;
+    }),
+  });
+
+  const addValue = () => {
+    const metric = catalog.find(m => !config.values.some(v => v.metric === m.key)) ?? catalog[0];
+    if (metric) updateConfig({ values: [...config.values, { metric: metric.key, aggregation: aggregationsFor(metric)[0] }] });
+  };
+
+  const toggleNode = (id: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const renderCells = (cellValues: (number | null)[], depth: number, rowKey: string, bold = false) =>
+    values.map((v, i) => (
+      <td
+        key={`${rowKey}-${i}`}
+        style={heatmap && depth >= 0 ? { backgroundColor: heatColor(cellValues[i], heatRanges.get(`${depth}:${i}`)) } : undefined}
+        className={`px-4 py-2 text-right whitespace-nowrap border-b border-slate-100 ${bold ? 'font-black text-slate-800' : 'font-bold text-slate-600'}`}
+      >
+        {formatPivotValue(cellValues[i], v.value, v.metric)}
+      </td>
+    ));
+
+  const totalRow = {
+    cells: columnKeys.map(key => values.map(({ value, metric }) => aggregateValue(pivot.root.cells.get(key) ?? [], value, metric))),
+    totals: values.map(({ value, metric }) => aggregateValue(pivot.root.rows, value, metric)),
+  };
+
+  return (
+    <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Grid3x3 className="w-5 h-5" /></div>
+            <div>
+              <h4 className="font-black text-slate-800 tracking-tighter uppercase text-sm">Tabela Dinâmica</h4>
+              <p className="text-[10px] font-bold text-slate-400">Razão ponderada soma as colunas da fórmula antes de dividir; média é a média simples das linhas.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setHeatmap(v => !v)}
+              className={`inline-flex items-center px-3 py-2 rounded-xl text-[10px] font-black transition-all ${heatmap ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              <Flame className="w-3 h-3 mr-1" /> MAPA DE CALOR
+            </button>
+            {config.rows.length > 1 && (
+              <>
+                <button onClick={() => setExpanded(new Set(collectGroupIds(pivot.root)))} className="px-3 py-2 text-[10px] font-black text-slate-500 hover:text-slate-700">EXPANDIR</button>
+                <button onClick={() => setExpanded(new Set())} className="px-3 py-2 text-[10px] font-black text-slate-500 hover:text-slate-700">RECOLHER</button>
+              </>
+            )}
+            <ExportMenu
+              getTable={() => pivotToExport('Pivô', pivot, config, values)}
+              fileName="tabela-dinamica"
+              disabled={config.rows.length === 0 || values.length === 0}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Linhas</h5>
+            {config.rows.map((dimension, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Select value={dimension.column} options={dimensionOptions} onChange={v => setRowDimension(i, { column: v })} />
+                {dimension.granularity && (
+                  <Select value={dimension.granularity} options={granularityOptions} onChange={v => setRowDimension(i, { granularity: v as Granularity })} />
+                )}
+                <button onClick={() => removeRowDimension(i)} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+              </div>
+            ))}
+            <button onClick={addRowDimension} className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800">
+              <Plus className="w-3 h-3 mr-1" /> ADICIONAR NÍVEL
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Colunas</h5>
+            <div className="flex items-center gap-2">
+              <Select
+                value={config.column?.column ?? ''}
+                options={[{ value: '', label: '(nenhuma)' }, ...dimensionOptions]}
+                onChange={v => updateConfig({ column: v ? withGranularity(v) : null })}
+              />
+              {config.column?.granularity && (
+                <Select
+                  value={config.column.granularity}
+                  options={granularityOptions}
+                  onChange={v => updateConfig({ column: { ...config.column!, granularity: v as Granularity } })}
+                />
+              )}
+            </div>
+            {pivot.truncatedColumns > 0 && (
+              <p className="text-[10px] font-bold text-amber-600">+{pivot.truncatedColumns} colunas ocultas; o total considera todas.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Valores</h5>
+            {config.values.map((value, i) => {
+              const metric = catalog.find(m => m.key === value.metric);
+              return (
+                <div key={i} className="flex items-center gap-2">
+                  <Select value={value.metric} options={metricOptions} onChange={v => setValue(i, { metric: v })} />
+                  {metric && (
+                    <Select
+                      value={value.aggregation}
+                      options={aggregationsFor(metric).map(a => ({ value: a, label: AGGREGATION_LABELS[a] }))}
+                      onChange={v => setValue(i, { aggregation: v as PivotValue['aggregation'] })}
+                    />
+                  )}
+                  <button onClick={() => updateConfig({ values: config.values.filter((_, j) => j !== i) })} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+                </div>
+              );
+            })}
+            <button onClick={addValue} disabled={catalog.length === 0} className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+              <Plus className="w-3 h-3 mr-1" /> ADICIONAR VALOR
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {config.rows.length === 0 || values.length === 0 ? (
+        <p className="p-10 text-center text-xs font-bold text-slate-400">Escolha ao menos um nível de linha e um valor.</p>
+      ) : (
+        <div className="overflow-auto max-h-[640px] scrollbar-thin">
+          <table className="w-full text-left text-[11px] border-separate border-spacing-0">
+            <thead className="sticky top-0 z-10 bg-slate-50">
+              {config.column && (
+                <tr>
+                  <th rowSpan={2} className="px-4 py-3 border-b border-slate-200 font-black text-slate-400 uppercase tracking-widest align-bottom">
+                    {config.rows.map(r => r.column).join(' › ')}
+                  </th>
+                  {pivot.columns.map(c => (
+                    <th key={c.key} colSpan={values.length} className="px-4 py-2 border-b border-l border-slate-200 font-black text-slate-600 text-center whitespace-nowrap">{c.label}</th>
+                  ))}
+                  <th colSpan={values.length} className="px-4 py-2 border-b border-l border-slate-200 font-black text-indigo-600 text-center">Total</th>
+                </tr>
+              )}
+              <tr>
+                {!config.column && (
+                  <th className="px-4 py-3 border-b border-slate-200 font-black text-slate-400 uppercase tracking-widest">{config.rows.map(r => r.column).join(' › ')}</th>
+                )}
+                {[...columnKeys, '__total'].flatMap(key => values.map((v, i) => (
+                  <th key={`${key}-${i}`} className={`px-4 py-2 border-b border-slate-200 font-black uppercase tracking-widest text-right whitespace-nowrap ${i === 0 && config.column ? 'border-l' : ''} ${v.metric.derived ? 'text-indigo-400' : 'text-slate-400'}`}>
+                    {pivotValueLabel(v.value, v.metric)}
+                  </th>
+                )))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map(({ node, cells, totals }) => (
+                <PivotRow key={node.id} node={node} expanded={expanded.has(node.id)} onToggle={toggleNode}>
+                  {cells.map((cellValues, c) => renderCells(cellValues, node.depth, `${node.id}-${c}`))}
+                  {renderCells(totals, columnKeys.length ? -1 : node.depth, `${node.id}-total`, !!columnKeys.length)}
+                </PivotRow>
+              ))}
+            </tbody>
+            <tfoot className="sticky bottom-0 bg-slate-100">
+              <tr>
+                <td className="px-4 py-3 font-black text-slate-800 uppercase tracking-widest">Total · {pivot.root.rows.length.toLocaleString('pt-BR')} linhas</td>
+                {totalRow.cells.map((cellValues, c) => renderCells(cellValues, -1, `total-${c}`, true))}
+                {renderCells(totalRow.totals, -1, 'total-total', true)}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface PivotRowProps {
+  node: PivotNode;
+  expanded: boolean;
+  onToggle: (id: string) => void;
+  children: React.ReactNode;
+}
+
+const PivotRow: React.FC<PivotRowProps> = ({ node, expanded, onToggle, children }) => (
+  <tr className="hover:bg-indigo-50/30">
+    <td className="px-4 py-2 border-b border-slate-100 whitespace-nowrap" style={{ paddingLeft: 16 + node.depth * 20 }}>
+      {node.children.length > 0 ? (
+        <button onClick={() => onToggle(node.id)} className="inline-flex items-center font-black text-slate-700 hover:text-indigo-600">
+          {expanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+          {node.label}
+        </button>
+      ) : (
+        <span className="font-bold text-slate-600">{node.label}</span>
+      )}
+      <span className="ml-2 text-[9px] font-bold text-slate-300">{node.rows.length.toLocaleString('pt-BR')}</span>
+    </td>
+    {children}
+  </tr>
+);
+
+export default PivotView;
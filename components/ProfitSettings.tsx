@@ -0,0 +1,143 @@
+import React from 'react';
+import { Calculator, Plus, Trash2, X } from 'lucide-react';
+import { ProfitModel, SIMPLES_ANEXO_I, SIMPLES_ANEXO_III, TaxBracket, effectiveTaxRate } from '../services/profitModel';
+
+interface ProfitSettingsProps {
+  model: ProfitModel;
+  onChange: (model: ProfitModel) => void;
+  onClose: () => void;
+  salesColumn?: string;
+  cogsColumn?: string;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const NumberField = ({ label, value, onChange, step = 0.01, suffix }: any) => (
+  <div className="space-y-2">
+    <label className={labelClass}>{label}</label>
+    <div className="relative">
+      <input type="number" step={step} min={0} className={inputClass} value={value} onChange={e => onChange(Number(e.target.value) || 0)} />
+      {suffix && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black text-slate-400">{suffix}</span>}
+    </div>
+  </div>
+);
+
+const ProfitSettings: React.FC<ProfitSettingsProps> = ({ model, onChange, onClose, salesColumn, cogsColumn }) => {
+  const update = (patch: Partial<ProfitModel>) => onChange({ ...model, ...patch });
+
+  const updateBracket = (index: number, patch: Partial<TaxBracket>) =>
+    update({ brackets: model.brackets.map((b, i) => i === index ? { ...b, ...patch } : b) });
+
+  const addBracket = () => update({ brackets: [...model.brackets, { upTo: null, rate: 0, deduction: 0 }] });
+  const removeBracket = (index: number) => update({ brackets: model.brackets.filter((_, i) => i !== index) });
+
+  const modeButton = (mode: ProfitModel['taxMode'], label: string) => (
+    <button
+      onClick={() => update({ taxMode: mode })}
+      className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+        model.taxMode === mode ? 'bg-white text-indigo-600 shadow' : 'text-slate-500 hover:text-slate-800'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const presetButton = (label: string, onClick: () => void) => (
+    <button onClick={onClick} className="px-3 py-1 rounded-lg text-[10px] font-black text-slate-500 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 transition-all">
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Calculator className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Modelo de Lucro</h4>
+            <p className="text-xs font-medium text-slate-500">Alíquota efetiva atual: {effectiveTaxRate(model).toFixed(2)}%</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <div className="flex space-x-1 bg-slate-100 p-1 rounded-xl w-fit">
+            {modeButton('flat', 'Alíquota fixa')}
+            {modeButton('brackets', 'Faixas (Simples)')}
+          </div>
+
+          {model.taxMode === 'flat' ? (
+            <>
+              <NumberField label="Imposto sobre faturamento" value={model.taxRate} onChange={(v: number) => update({ taxRate: v })} suffix="%" />
+              <div className="flex gap-2">
+                {presetButton('Simples 6%', () => update({ taxRate: 6 }))}
+                {presetButton('Lucro Presumido 13,33%', () => update({ taxRate: 13.33 }))}
+                {presetButton('Lucro Presumido 16,33%', () => update({ taxRate: 16.33 }))}
+              </div>
+            </>
+          ) : (
+            <>
+              <NumberField label="Receita bruta 12 meses (RBT12)" value={model.annualRevenue} onChange={(v: number) => update({ annualRevenue: v })} step={1000} suffix="R$" />
+              <div className="flex gap-2">
+                {presetButton('Anexo III', () => update({ brackets: SIMPLES_ANEXO_III }))}
+                {presetButton('Anexo I', () => update({ brackets: SIMPLES_ANEXO_I }))}
+              </div>
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-slate-400 font-black uppercase tracking-widest text-[9px]">
+                    <th className="text-left py-1">Até (R$)</th>
+                    <th className="text-left py-1">Alíquota %</th>
+                    <th className="text-left py-1">Dedução (R$)</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.brackets.map((b, i) => (
+                    <tr key={i}>
+                      <td className="pr-2 py-1">
+                        <input type="number" className={inputClass} placeholder="sem limite" value={b.upTo ?? ''} onChange={e => updateBracket(i, { upTo: e.target.value === '' ? null : Number(e.target.value) })} />
+                      </td>
+                      <td className="pr-2 py-1">
+                        <input type="number" step={0.01} className={inputClass} value={b.rate} onChange={e => updateBracket(i, { rate: Number(e.target.value) || 0 })} />
+                      </td>
+                      <td className="pr-2 py-1">
+                        <input type="number" className={inputClass} value={b.deduction} onChange={e => updateBracket(i, { deduction: Number(e.target.value) || 0 })} />
+                      </td>
+                      <td>
+                        <button onClick={() => removeBracket(i)} className="text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button onClick={addBracket} className="flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800">
+                <Plus className="w-3 h-3 mr-1" /> FAIXA
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Taxa do checkout" value={model.feePercent} onChange={(v: number) => update({ feePercent: v })} suffix="%" />
+            <NumberField label="Taxa fixa por venda" value={model.feeFixed} onChange={(v: number) => update({ feeFixed: v })} suffix="R$" />
+          </div>
+          {model.feeFixed > 0 && !salesColumn && (
+            <p className="text-[10px] font-bold text-amber-600 px-1">Mapeie a coluna de vendas para aplicar a taxa fixa por venda.</p>
+          )}
+          <div className="space-y-1 px-1">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Custo do produto</p>
+            <p className="text-xs font-bold text-slate-600">
+              {cogsColumn ? `Coluna "${cogsColumn}"` : 'Nenhuma coluna de CMV mapeada (opcional, defina em Colunas).'}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfitSettings;
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, ChevronDown, X, AlertTriangle } from 'lucide-react';
+import { REFRESH_OPTIONS } from '../services/sheetFetch';
+import { SnapshotDiff, hasChanges } from '../services/snapshotDiff';
+
+interface RefreshControlProps {
+  fetchedAt?: number;
+  interval: number;
+  onIntervalChange: (minutes: number) => void;
+  onRefresh: () => void;
+  refreshing: boolean;
+  diff: SnapshotDiff | null;
+  onDismissDiff: () => void;
+  error: string | null;
+}
+
+const relativeTime = (timestamp: number, now: number) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'agora';
+  if (minutes < 60) return `há ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `há ${hours} h`;
+  return new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+const describeDiff = (diff: SnapshotDiff) => {
+  const parts: string[] = [];
+  if (diff.added) parts.push(`+${diff.added} nova(s)`);
+  if (diff.changed) parts.push(`${diff.changed} alterada(s)`);
+  if (diff.removed) parts.push(`-${diff.removed} removida(s)`);
+  if (diff.columnsAdded.length) parts.push(`colunas novas: ${diff.columnsAdded.join(', ')}`);
+  if (diff.columnsRemoved.length) parts.push(`colunas removidas: ${diff.columnsRemoved.join(', ')}`);
+  return parts.join(' · ');
+};
+
+const RefreshControl: React.FC<RefreshControlProps> = ({
+  fetchedAt, interval, onIntervalChange, onRefresh, refreshing, diff, onDismissDiff, error,
+}) => {
+  // Relógio só para reescrever o "há X min"
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2">
+      {error ? (
+        <span title={error} className="hidden md:inline-flex items-center text-[10px] font-bold text-rose-500 max-w-[220px] truncate">
+          <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" /> {error}
+        </span>
+      ) : diff ? (
+        <span className={`hidden md:inline-flex items-center px-2 py-1 rounded-lg text-[10px] font-bold ${hasChanges(diff) ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+          {hasChanges(diff) ? describeDiff(diff) : 'Sem alterações'}
+          <button onClick={onDismissDiff} className="ml-1 opacity-60 hover:opacity-100"><X className="w-3 h-3" /></button>
+        </span>
+      ) : fetchedAt ? (
+        <span className="hidden md:inline text-[10px] font-bold text-slate-400">Atualizado {relativeTime(fetchedAt, now)}</span>
+      ) : null}
+      <div className="relative">
+        <select
+          value={interval}
+          onChange={e => onIntervalChange(Number(e.target.value))}
+          title="Atualização automática"
+          className="bg-slate-100 rounded-xl pl-3 pr-7 py-2 text-[10px] font-bold text-slate-600 appearance-none cursor-pointer outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {REFRESH_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Manual' : `A cada ${m} min`}</option>)}
+        </select>
+        <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+      </div>
+      <button onClick={onRefresh} disabled={refreshing} title="Recarregar planilha" className="p-2 text-slate-400 hover:text-slate-600 transition-colors disabled:opacity-50">
+        <RefreshCw className={`w-5 h-5 ${refreshing ? 'animate-spin' : ''}`} />
+      </button>
+    </div>
+  );
+};
+
+export default RefreshControl;
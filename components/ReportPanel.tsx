@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { FileDown, Printer, Upload, Trash2, X, Loader2 } from 'lucide-react';
+import { DateRange, fromInputDate, toInputDate } from '../services/periods';
+import {
+  MAX_LOGO_BYTES, ReportContent, ReportSettings, buildReportHtml, downloadReportHtml,
+  loadReportSettings, openReportWindow, printReport, saveReportSettings,
+} from '../services/report';
+
+interface ReportPanelProps {
+  // Sem coluna de data o relatório cobre todo o recorte atual
+  extent: DateRange | null;
+  defaultRange: DateRange | null;
+  hasInsights: boolean;
+  onBuild: (range: DateRange | null) => Promise<Omit<ReportContent, 'settings'>>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error('Não foi possível ler a imagem.'));
+  reader.readAsDataURL(file);
+});
+
+const ReportPanel: React.FC<ReportPanelProps> = ({ extent, defaultRange, hasInsights, onBuild, onClose }) => {
+  const [settings, setSettings] = useState<ReportSettings>(loadReportSettings);
+  const initial = defaultRange ?? extent;
+  const [start, setStart] = useState(initial ? toInputDate(initial.start) : '');
+  const [end, setEnd] = useState(initial ? toInputDate(initial.end) : '');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSettings = (patch: Partial<ReportSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    try {
+      saveReportSettings(next);
+    } catch {
+      setError('Não foi possível salvar o logo no navegador; ele vale só para este relatório.');
+    }
+  };
+
+  const uploadLogo = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    if (!file.type.startsWith('image/')) {
+      setError('Escolha um arquivo de imagem (PNG, JPG ou SVG).');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`Logo muito grande; use uma imagem de até ${Math.round(MAX_LOGO_BYTES / 1024)} KB.`);
+      return;
+    }
+    try {
+      updateSettings({ logo: await readAsDataUrl(file) });
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const startDate = fromInputDate(start);
+  const endDate = fromInputDate(end);
+  const range = startDate && endDate ? { start: startDate, end: endDate } : null;
+  const invalidRange = !!extent && (!range || range.start > range.end);
+
+  const generate = async (mode: 'print' | 'html') => {
+    setError(null);
+    const target = mode === 'print' ? openReportWindow() : null;
+    if (mode === 'print' && !target) {
+      setError('O navegador bloqueou a janela do relatório. Permita pop-ups para este site ou baixe o HTML.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const html = buildReportHtml({ ...(await onBuild(extent ? range : null)), settings });
+      if (target) printReport(target, html);
+      else downloadReportHtml(html, settings);
+    } catch (e) {
+      target?.close();
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><FileDown className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Relatório do Cliente</h4>
+            <p className="text-xs font-medium text-slate-500">Indicadores, Top Performance, tendência{hasInsights ? ' e insights da IA' : ''} com os filtros atuais.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className={labelClass}>Cliente</label>
+          <input value={settings.clientName} onChange={e => updateSettings({ clientName: e.target.value })} placeholder="Nome do cliente" className={inputClass} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Logo</label>
+          <div className="flex items-center gap-2">
+            {settings.logo && <img src={settings.logo} alt="Logo" className="h-9 max-w-[120px] object-contain rounded-lg border border-slate-100" />}
+            <label className="inline-flex items-center px-3 py-2 bg-slate-50 rounded-xl text-[10px] font-black text-slate-600 hover:bg-slate-100 cursor-pointer">
+              <Upload className="w-3 h-3 mr-1" /> {settings.logo ? 'TROCAR' : 'ENVIAR'}
+              <input type="file" accept="image/*" className="hidden" onChange={e => { uploadLogo(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+            {settings.logo && (
+              <button onClick={() => updateSettings({ logo: null })} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+            )}
+          </div>
+        </div>
+        {extent && (
+          <div className="space-y-2">
+            <label className={labelClass}>Período</label>
+            <div className="flex items-center gap-2">
+              <input type="date" value={start} onChange={e => setStart(e.target.value)} className={inputClass} />
+              <span className="text-[10px] font-black text-slate-400">A</span>
+              <input type="date" value={end} onChange={e => setEnd(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!hasInsights && (
+        <p className="text-[11px] font-bold text-slate-400">Gere os Insights IA antes para incluir a análise no relatório.</p>
+      )}
+      {error && <p className="text-[11px] font-bold text-rose-500">{error}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => generate('print')}
+          disabled={busy || invalidRange}
+          className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />} IMPRIMIR / PDF
+        </button>
+        <button
+          onClick={() => generate('html')}
+          disabled={busy || invalidRange}
+          className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all disabled:opacity-50"
+        >
+          <FileDown className="w-4 h-4 mr-2" /> BAIXAR HTML
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportPanel;
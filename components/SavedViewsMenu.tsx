@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Bookmark, ChevronDown, Link as LinkIcon, Save, Trash2, CheckCircle2 } from 'lucide-react';
+import { SavedView, deleteSavedView, listSavedViews, putSavedView } from '../services/localDb';
+import { ViewState } from '../services/viewState';
+
+interface SavedViewsMenuProps {
+  signature: string;
+  sheetUrl: string | null;
+  current: ViewState;
+  onApply: (view: ViewState) => void;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ signature, sheetUrl, current, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const refresh = () => listSavedViews(signature)
+    .then(setViews)
+    .catch(e => setError((e as Error).message));
+
+  useEffect(() => { refresh(); }, [signature]);
+
+  const saveCurrent = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Mesmo nome na mesma planilha sobrescreve a visão anterior
+    const existing = views.find(v => v.name.toLowerCase() === trimmed.toLowerCase());
+    try {
+      await putSavedView({
+        id: existing?.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name: trimmed,
+        signature,
+        sheetUrl,
+        state: current,
+        createdAt: Date.now(),
+      });
+      setName('');
+      await refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const removeView = async (id: string) => {
+    try {
+      await deleteSavedView(id);
+      await refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Não foi possível copiar. Copie o endereço da barra do navegador.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="px-4 py-2 text-xs font-bold text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-xl transition-all flex items-center"
+      >
+        <Bookmark className="w-4 h-4 mr-1" /> VISÕES
+        {views.length > 0 && <span className="ml-1 text-slate-400">({views.length})</span>}
+        <ChevronDown className="w-3 h-3 ml-1 text-slate-400" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl z-30 p-4 space-y-4">
+          <button onClick={copyLink} className="w-full inline-flex items-center justify-center px-3 py-2 bg-slate-50 rounded-xl text-[10px] font-black text-slate-600 hover:bg-slate-100">
+            {copied ? <CheckCircle2 className="w-3 h-3 mr-1 text-emerald-600" /> : <LinkIcon className="w-3 h-3 mr-1" />}
+            {copied ? 'LINK COPIADO' : 'COPIAR LINK DESTA VISÃO'}
+          </button>
+          {!sheetUrl && (
+            <p className="text-[10px] font-bold text-slate-400">Dados carregados de arquivo: o link guarda os filtros, mas não a planilha.</p>
+          )}
+
+          <div className="space-y-1 max-h-48 overflow-y-auto scrollbar-thin">
+            {views.length === 0 && <p className="text-[10px] font-bold text-slate-400">Nenhuma visão salva para estas colunas.</p>}
+            {views.map(view => (
+              <div key={view.id} className="flex items-center justify-between gap-2 p-2 rounded-xl hover:bg-slate-50">
+                <button onClick={() => { onApply(view.state); setOpen(false); }} className="flex-1 text-left text-xs font-bold text-slate-700 truncate">
+                  {view.name}
+                </button>
+                <button onClick={() => removeView(view.id)} className="text-slate-300 hover:text-rose-500"><Trash2 className="w-3 h-3" /></button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 pt-3 border-t border-slate-100">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') saveCurrent(); }}
+              placeholder="Nome da visão"
+              className="flex-1 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button onClick={saveCurrent} disabled={!name.trim()} className="p-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-50">
+              <Save className="w-4 h-4" />
+            </button>
+          </div>
+          {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
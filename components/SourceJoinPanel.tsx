@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { Merge, Plus, Trash2, X, ChevronDown, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { DataSource, JoinKey, JoinResult, formatJoinKey, joinSources, suggestJoinKeys } from '../services/join';
+
+interface SourceJoinPanelProps {
+  sources: DataSource[];
+  onCreate: (source: DataSource) => void;
+  onClose: () => void;
+}
+
+// Quantidade de chaves não correspondidas listadas por lado; o total aparece no cabeçalho
+const UNMATCHED_PREVIEW = 30;
+
+const selectClass = "w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-slate-600 appearance-none cursor-pointer focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative flex-1 min-w-0">
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${selectClass} pr-8`}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const UnmatchedList: React.FC<{ title: string, keys: string[] }> = ({ title, keys }) => (
+  <div className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+    <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{title} ({keys.length.toLocaleString('pt-BR')})</h5>
+    {keys.length === 0 ? (
+      <p className="text-[11px] font-bold text-emerald-600 flex items-center"><CheckCircle2 className="w-3 h-3 mr-1" /> Todas as chaves encontraram par.</p>
+    ) : (
+      <ul className="space-y-1 text-[11px] font-bold text-slate-600 max-h-48 overflow-y-auto scrollbar-thin">
+        {keys.slice(0, UNMATCHED_PREVIEW).map(key => (
+          <li key={key} className="truncate">{formatJoinKey(key)}</li>
+        ))}
+        {keys.length > UNMATCHED_PREVIEW && <li className="text-slate-400">+ {keys.length - UNMATCHED_PREVIEW} outras</li>}
+      </ul>
+    )}
+  </div>
+);
+
+const SourceJoinPanel: React.FC<SourceJoinPanelProps> = ({ sources, onCreate, onClose }) => {
+  const [leftId, setLeftId] = useState(sources[0]?.id ?? '');
+  const [rightId, setRightId] = useState(sources[1]?.id ?? sources[0]?.id ?? '');
+  const left = sources.find(s => s.id === leftId);
+  const right = sources.find(s => s.id === rightId);
+
+  const [keys, setKeys] = useState<JoinKey[]>(() => left && right ? suggestJoinKeys(left.data, right.data) : []);
+  const [result, setResult] = useState<JoinResult | null>(null);
+
+  const sourceOptions = sources.map(s => ({ value: s.id, label: s.name }));
+  const columnOptions = (source?: DataSource) => (source?.data.headers || []).map(h => ({ value: h, label: h }));
+
+  const changeSources = (nextLeft: string, nextRight: string) => {
+    setLeftId(nextLeft);
+    setRightId(nextRight);
+    setResult(null);
+    const l = sources.find(s => s.id === nextLeft);
+    const r = sources.find(s => s.id === nextRight);
+    setKeys(l && r ? suggestJoinKeys(l.data, r.data) : []);
+  };
+
+  const updateKey = (index: number, patch: Partial<JoinKey>) => {
+    setKeys(prev => prev.map((k, i) => i === index ? { ...k, ...patch } : k));
+    setResult(null);
+  };
+
+  const addKey = () => {
+    if (!left || !right) return;
+    setKeys(prev => [...prev, { left: left.data.headers[0], right: right.data.headers[0] }]);
+    setResult(null);
+  };
+
+  const removeKey = (index: number) => {
+    setKeys(prev => prev.filter((_, i) => i !== index));
+    setResult(null);
+  };
+
+  const validationError = useMemo(() => {
+    if (!left || !right) return 'Selecione as duas fontes.';
+    if (left.id === right.id) return 'Escolha fontes diferentes para combinar.';
+    if (keys.length === 0) return 'Defina ao menos uma chave de correspondência.';
+    return null;
+  }, [left, right, keys]);
+
+  const runJoin = () => {
+    if (validationError || !left || !right) return;
+    setResult(joinSources(left, right, keys));
+  };
+
+  const openResult = () => {
+    if (!result || !left || !right) return;
+    onCreate({ id: `join-${Date.now().toString(36)}`, name: `${left.name} + ${right.name}`, data: result.data });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Merge className="w-5 h-5" /></div>
+          <div>
+            <h4 className="text-lg font-black text-slate-800 tracking-tighter uppercase">Combinar Fontes</h4>
+            <p className="text-xs font-medium text-slate-500">Cruza duas planilhas pelas chaves escolhidas. Linhas com a mesma chave são somadas antes do cruzamento.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Select value={leftId} options={sourceOptions} onChange={v => changeSources(v, rightId)} />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">com</span>
+        <Select value={rightId} options={sourceOptions} onChange={v => changeSources(leftId, v)} />
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Chaves de correspondência</h5>
+        {keys.map((key, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <Select value={key.left} options={columnOptions(left)} onChange={v => updateKey(i, { left: v })} />
+            <span className="text-xs font-black text-slate-400">=</span>
+            <Select value={key.right} options={columnOptions(right)} onChange={v => updateKey(i, { right: v })} />
+            <button onClick={() => removeKey(i)} className="p-2 text-slate-300 hover:text-rose-500"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+        <button onClick={addKey} disabled={!left || !right} className="inline-flex items-center text-[10px] font-black text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+          <Plus className="w-3 h-3 mr-1" /> ADICIONAR CHAVE
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-6 border-t border-slate-100">
+        <p className={`text-[10px] font-bold ${validationError ? 'text-rose-500' : 'text-slate-400'}`}>
+          {validationError || 'Datas são comparadas por dia; textos ignoram acentos, maiúsculas e espaços extras.'}
+        </p>
+        <button
+          onClick={runJoin}
+          disabled={!!validationError}
+          className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-all disabled:opacity-50"
+        >
+          <Merge className="w-4 h-4 mr-1" /> COMBINAR
+        </button>
+      </div>
+
+      {result && left && right && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 bg-indigo-50/50 border border-indigo-100 rounded-2xl p-4">
+            <p className="text-xs font-bold text-slate-600">
+              <span className="font-black text-indigo-600">{result.matched.toLocaleString('pt-BR')}</span> chaves em ambas ·{' '}
+              {result.data.rows.length.toLocaleString('pt-BR')} linhas no resultado
+            </p>
+            <button onClick={openResult} className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-all">
+              ABRIR DATASET COMBINADO
+            </button>
+          </div>
+          {result.matched === 0 && (
+            <p className="text-[11px] font-bold text-amber-700 flex items-center"><AlertTriangle className="w-4 h-4 mr-2" /> Nenhuma chave correspondeu. Confira se as colunas escolhidas têm os mesmos valores nas duas fontes.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <UnmatchedList title={`Só em ${left.name}`} keys={result.unmatchedLeft} />
+            <UnmatchedList title={`Só em ${right.name}`} keys={result.unmatchedRight} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceJoinPanel;
@@ -0,0 +1,436 @@
+import React, { useState, useMemo } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, AreaChart, Area, PieChart, Pie, ScatterChart, Scatter, Cell,
+  XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { Plus, Trash2, ChevronDown, Settings2, GripVertical, MoveHorizontal, MoveVertical, SlidersHorizontal, RotateCcw, CalendarDays, X, Loader2 } from 'lucide-react';
+import { ColumnMapping, DashboardData, DataRow } from '../types';
+import { CompiledMetric, formatMetric } from '../services/metrics';
+import { Granularity } from '../services/timeSeries';
+import { activeConditionCount } from '../services/advancedFilter';
+import {
+  WIDGET_NEEDS, WIDGET_TYPE_LABELS, Widget, WidgetSeries, WidgetType, createWidget, moveWidget,
+} from '../services/widgets';
+import { COLORS } from './theme';
+import FilterBuilder from './FilterBuilder';
+import FunnelView from './FunnelView';
+
+interface WidgetGridProps {
+  data: DashboardData;
+  rows: DataRow[];
+  mapping: ColumnMapping;
+  catalog: CompiledMetric[];
+  // Colunas de texto e data que podem agrupar os gráficos
+  dimensions: string[];
+  dateColumn?: string;
+  highlights: Map<string, Set<string>>;
+  // Séries calculadas no worker para o recorte de `rows`, pelo id do widget
+  series: Record<string, WidgetSeries>;
+  widgets: Widget[];
+  onChange: (widgets: Widget[]) => void;
+  onReset: () => void;
+}
+
+interface WidgetCardProps extends Omit<WidgetGridProps, 'widgets' | 'series' | 'onChange' | 'onReset'> {
+  widget: Widget;
+  series?: WidgetSeries;
+  onUpdate: (patch: Partial<Widget>) => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDrop: () => void;
+}
+
+// Classes fixas: o Tailwind CDN não detecta classes montadas dinamicamente
+const WIDTH_CLASSES: Record<Widget['width'], string> = {
+  1: 'lg:col-span-1',
+  2: 'lg:col-span-2',
+  3: 'lg:col-span-3',
+  4: 'lg:col-span-4',
+};
+const HEIGHT_CLASSES: Record<Widget['height'], string> = { 1: 'h-[220px]', 2: 'h-[400px]' };
+
+const GRANULARITY_LABELS: Record<Granularity, string> = { day: 'Dia', week: 'Semana', month: 'Mês' };
+
+const axisTick = { fill: '#94a3b8', fontSize: 10, fontWeight: 700 };
+const tooltipStyle = { borderRadius: '16px', border: 'none' };
+
+const selectClass = "bg-white border border-slate-200 rounded-xl pl-3 pr-7 py-2 text-[11px] font-bold text-slate-600 appearance-none cursor-pointer focus:ring-2 focus:ring-indigo-500 outline-none max-w-[200px] truncate";
+const inputClass = "bg-white border border-slate-200 rounded-xl px-3 py-2 text-[11px] font-bold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest";
+
+const Select: React.FC<{ value: string, options: { value: string, label: string }[], onChange: (v: string) => void }> = ({ value, options, onChange }) => (
+  <div className="relative">
+    <select value={value} onChange={e => onChange(e.target.value)} className={selectClass}>
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+// Razões e percentuais ficam no eixo direito, valores absolutos no esquerdo
+const isRightAxis = (metric: CompiledMetric) => metric.format === 'ratio' || metric.format === 'percent';
+
+const EmptyState: React.FC<{ message: string }> = ({ message }) => (
+  <div className="h-full flex flex-col items-center justify-center text-slate-400">
+    <CalendarDays className="w-6 h-6 mb-2" />
+    <p className="text-xs font-bold text-center">{message}</p>
+  </div>
+);
+
+// Tipo de série que cada widget desenha; outra série é resultado de antes da edição e ainda não serve
+const SERIES_KIND: Record<WidgetType, WidgetSeries['kind']> = {
+  bar: 'category', scatter: 'category', table: 'category', line: 'trend', area: 'trend',
+  pie: 'pie', donut: 'pie', kpi: 'total', funnel: 'rows',
+};
+
+const Pending: React.FC = () => (
+  <div className="h-full flex flex-col items-center justify-center text-slate-400">
+    <Loader2 className="w-6 h-6 mb-2 animate-spin" />
+    <p className="text-xs font-bold">Calculando...</p>
+  </div>
+);
+
+const WidgetBody: React.FC<{ widget: Widget, series?: WidgetSeries, catalog: CompiledMetric[], dateColumn?: string, highlights: Map<string, Set<string>> }> = ({ widget, series, catalog, dateColumn, highlights }) => {
+  const metrics = widget.metrics.map(k => catalog.find(m => m.key === k)).filter((m): m is CompiledMetric => !!m);
+  const [first] = metrics;
+  const formatOf = (key: string) => catalog.find(m => m.key === key)?.format ?? 'number';
+
+  if (widget.type !== 'funnel' && !first) return <EmptyState message="Escolha uma métrica nas configurações do widget." />;
+  if (WIDGET_NEEDS[widget.type].dimension && !widget.dimension) return <EmptyState message="Escolha uma coluna para agrupar." />;
+  if ((widget.type === 'line' || widget.type === 'area') && !dateColumn) return <EmptyState message="Nenhuma coluna de data detectada na planilha." />;
+  if (!series || series.kind !== SERIES_KIND[widget.type]) return <Pending />;
+
+  switch (widget.type) {
+    case 'bar': {
+      if (series.kind !== 'category') return null;
+      const points = series.points.map(p => ({ name: p.name, value: p.values[first.key] ?? 0 }));
+      const flagged = highlights.get(widget.dimension);
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={points} layout="vertical">
+            <XAxis type="number" hide />
+            <YAxis dataKey="name" type="category" width={100} tick={{fill: '#64748b', fontSize: 10, fontWeight: 700}} axisLine={false} tickLine={false} />
+            <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={tooltipStyle} formatter={(v: number) => formatMetric(v, first.format)} />
+            <Bar dataKey="value" name={first.label} fill="#6366f1" radius={[0, 10, 10, 0]} barSize={20}>
+              {points.map(entry => (
+                <Cell key={entry.name} fill={flagged?.has(entry.name) ? '#f43f5e' : '#6366f1'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+    case 'line':
+    case 'area': {
+      if (series.kind !== 'trend') return null;
+      const points = series.points;
+      const Chart = widget.type === 'line' ? LineChart : AreaChart;
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <Chart data={points}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={axisTick} minTickGap={16} />
+            <YAxis yAxisId="left" axisLine={false} tickLine={false} tick={axisTick} />
+            {metrics.some(isRightAxis) && <YAxis yAxisId="right" orientation="right" axisLine={false} tickLine={false} tick={axisTick} />}
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number | null, _name: string, item: any) => formatMetric(v, formatOf(item?.dataKey))} />
+            <Legend wrapperStyle={{ fontSize: 10, fontWeight: 700 }} />
+            {metrics.map((m, i) => widget.type === 'line' ? (
+              <Line
+                key={m.key}
+                name={m.label}
+                yAxisId={isRightAxis(m) ? 'right' : 'left'}
+                type="monotone"
+                dataKey={m.key}
+                stroke={COLORS[i % COLORS.length]}
+                strokeWidth={3}
+                strokeDasharray={isRightAxis(m) ? '6 4' : undefined}
+                dot={points.length <= 31 ? { r: 3, strokeWidth: 2, stroke: '#fff' } : false}
+              />
+            ) : (
+              <Area
+                key={m.key}
+                name={m.label}
+                yAxisId={isRightAxis(m) ? 'right' : 'left'}
+                type="monotone"
+                dataKey={m.key}
+                stroke={COLORS[i % COLORS.length]}
+                fill={COLORS[i % COLORS.length]}
+                fillOpacity={0.15}
+                strokeWidth={2}
+              />
+            ))}
+          </Chart>
+        </ResponsiveContainer>
+      );
+    }
+    case 'pie':
+    case 'donut': {
+      if (series.kind !== 'pie') return null;
+      const { slices } = series;
+      if (!slices.length) return <EmptyState message="Sem valores positivos para dividir." />;
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie data={slices} dataKey="value" nameKey="name" innerRadius={widget.type === 'donut' ? '55%' : 0} outerRadius="80%" paddingAngle={widget.type === 'donut' ? 2 : 0}>
+              {slices.map((s, i) => <Cell key={s.name} fill={s.name === 'Outros' ? '#cbd5e1' : COLORS[i % COLORS.length]} />)}
+            </Pie>
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => formatMetric(v, first.format)} />
+            <Legend wrapperStyle={{ fontSize: 10, fontWeight: 700 }} />
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    }
+    case 'scatter': {
+      const [x, y, size] = metrics;
+      if (!x || !y) return <EmptyState message="A dispersão precisa de uma métrica para cada eixo." />;
+      if (series.kind !== 'category') return null;
+      const points = series.points
+        .filter(p => p.values[x.key] !== null && p.values[y.key] !== null)
+        .map(p => ({ name: p.name, x: p.values[x.key], y: p.values[y.key], z: size ? p.values[size.key] ?? 0 : 1 }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+            <XAxis type="number" dataKey="x" name={x.label} tick={axisTick} axisLine={false} tickLine={false} tickFormatter={(v: number) => formatMetric(v, x.format)} />
+            <YAxis type="number" dataKey="y" name={y.label} tick={axisTick} axisLine={false} tickLine={false} tickFormatter={(v: number) => formatMetric(v, y.format)} />
+            <ZAxis type="number" dataKey="z" range={size ? [60, 800] : [80, 80]} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              content={({ payload }: any) => {
+                const point = payload?.[0]?.payload;
+                if (!point) return null;
+                return (
+                  <div className="bg-white p-3 rounded-2xl shadow-lg text-[11px] font-bold text-slate-600 space-y-0.5">
+                    <p className="font-black text-slate-800">{point.name}</p>
+                    <p>{x.label}: {formatMetric(point.x, x.format)}</p>
+                    <p>{y.label}: {formatMetric(point.y, y.format)}</p>
+                    {size && <p>{size.label}: {formatMetric(point.z, size.format)}</p>}
+                  </div>
+                );
+              }}
+            />
+            <Scatter data={points} fill="#6366f1" fillOpacity={0.6}>
+              {points.map(p => <Cell key={p.name} fill={highlights.get(widget.dimension)?.has(p.name) ? '#f43f5e' : '#6366f1'} />)}
+            </Scatter>
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+    }
+    case 'kpi':
+      if (series.kind !== 'total') return null;
+      return (
+        <div className="h-full flex flex-col justify-center">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{first.label}</p>
+          <h3 className="text-3xl font-black text-slate-800 tracking-tighter truncate">{formatMetric(series.value, first.format)}</h3>
+          <p className="text-[11px] font-bold text-slate-400 mt-2">{series.rowCount.toLocaleString('pt-BR')} linhas</p>
+        </div>
+      );
+    case 'table': {
+      if (series.kind !== 'category') return null;
+      const { points } = series;
+      return (
+        <div className="h-full overflow-auto scrollbar-thin">
+          <table className="w-full text-left text-[11px]">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="px-3 py-2">{widget.dimension}</th>
+                {metrics.map(m => <th key={m.key} className="px-3 py-2 text-right whitespace-nowrap">{m.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {points.map(p => (
+                <tr key={p.name} className={`border-t border-slate-100 ${highlights.get(widget.dimension)?.has(p.name) ? 'bg-rose-50' : ''}`}>
+                  <td className="px-3 py-2 font-bold text-slate-700 max-w-[220px] truncate" title={p.name}>{p.name}</td>
+                  {metrics.map(m => <td key={m.key} className="px-3 py-2 text-right font-bold text-slate-600 whitespace-nowrap">{formatMetric(p.values[m.key], m.format)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+const WidgetEditor: React.FC<{ widget: Widget, data: DashboardData, catalog: CompiledMetric[], dimensions: string[], onUpdate: (patch: Partial<Widget>) => void }> = ({ widget, data, catalog, dimensions, onUpdate }) => {
+  const [showFilter, setShowFilter] = useState(false);
+  const needs = WIDGET_NEEDS[widget.type];
+  const metricOptions = catalog.map(m => ({ value: m.key, label: m.label }));
+  const slotLabels = widget.type === 'scatter' ? ['Eixo X', 'Eixo Y', 'Tamanho'] : [];
+  const filterCount = activeConditionCount(widget.filter, data);
+
+  const setMetric = (index: number, key: string) => {
+    const metrics = [...widget.metrics];
+    if (key) metrics[index] = key;
+    else metrics.splice(index, 1);
+    onUpdate({ metrics: metrics.filter(Boolean) });
+  };
+
+  // Slots preenchidos e, se couber, um vazio para adicionar mais uma métrica
+  const slots = Math.min(needs.maxMetrics, widget.metrics.length + 1);
+
+  return (
+    <div className="bg-slate-50 border border-slate-100 rounded-[24px] p-4 space-y-3 mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input value={widget.title} onChange={e => onUpdate({ title: e.target.value })} className={`${inputClass} w-48`} />
+        <Select
+          value={widget.type}
+          options={(Object.keys(WIDGET_TYPE_LABELS) as WidgetType[]).map(t => ({ value: t, label: WIDGET_TYPE_LABELS[t] }))}
+          onChange={v => onUpdate({ type: v as WidgetType, metrics: widget.metrics.slice(0, Math.max(1, WIDGET_NEEDS[v as WidgetType].maxMetrics)) })}
+        />
+        {needs.dimension && (
+          <Select
+            value={widget.dimension}
+            options={[{ value: '', label: 'Agrupar por...' }, ...dimensions.map(d => ({ value: d, label: d }))]}
+            onChange={v => onUpdate({ dimension: v })}
+          />
+        )}
+        {needs.time && (
+          <Select
+            value={widget.granularity}
+            options={(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => ({ value: g, label: GRANULARITY_LABELS[g] }))}
+            onChange={v => onUpdate({ granularity: v as Granularity })}
+          />
+        )}
+        {needs.limit && (
+          <label className="flex items-center gap-1">
+            <span className={labelClass}>Top</span>
+            <input type="number" min={1} max={100} value={widget.limit} onChange={e => onUpdate({ limit: Math.max(1, Math.min(100, Number(e.target.value) || 1)) })} className={`${inputClass} w-16`} />
+          </label>
+        )}
+        <button
+          onClick={() => setShowFilter(v => !v)}
+          className={`px-3 py-2 text-[10px] font-black rounded-xl transition-all flex items-center ${showFilter || filterCount ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+        >
+          <SlidersHorizontal className="w-3 h-3 mr-1" /> FILTRO{filterCount > 0 && ` (${filterCount})`}
+        </button>
+      </div>
+      {needs.maxMetrics > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {Array.from({ length: slots }, (_, i) => (
+            <div key={i} className="flex items-center gap-1">
+              {slotLabels[i] && <span className={labelClass}>{slotLabels[i]}</span>}
+              <Select
+                value={widget.metrics[i] ?? ''}
+                options={[{ value: '', label: i < widget.metrics.length ? 'Remover' : '+ Métrica' }, ...metricOptions]}
+                onChange={v => setMetric(i, v)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {showFilter && (
+        <FilterBuilder data={data} filter={widget.filter} onChange={filter => onUpdate({ filter })} onClose={() => setShowFilter(false)} />
+      )}
+    </div>
+  );
+};
+
+const WidgetCard: React.FC<WidgetCardProps> = ({ widget, series, onUpdate, onRemove, onDragStart, onDrop, ...context }) => {
+  const [editing, setEditing] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const { data, rows, mapping, catalog, dimensions, dateColumn, highlights } = context;
+  // Funil sem filtro próprio usa as linhas do painel; com filtro, as que o worker separou
+  const funnelRows = useMemo(
+    () => series?.kind === 'rows' && series.indices ? Array.from(series.indices, (i: number) => data.rows[i]) : rows,
+    [series, rows, data]
+  );
+  const filterCount = activeConditionCount(widget.filter, data);
+
+  return (
+    <div
+      onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={e => { e.preventDefault(); setDragOver(false); onDrop(); }}
+      className={`${WIDTH_CLASSES[widget.width]} bg-white p-6 rounded-[40px] border shadow-sm transition-all ${dragOver ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-100'}`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <span draggable onDragStart={onDragStart} className="cursor-grab text-slate-300 hover:text-slate-500" title="Arraste para reordenar">
+            <GripVertical className="w-4 h-4" />
+          </span>
+          <h4 className="text-sm font-black text-slate-400 uppercase tracking-widest truncate">{widget.title}</h4>
+          {filterCount > 0 && <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 text-[9px] font-black">FILTRO ({filterCount})</span>}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button onClick={() => onUpdate({ width: (widget.width % 4 + 1) as Widget['width'] })} title="Largura" className="p-1.5 text-slate-300 hover:text-slate-600"><MoveHorizontal className="w-4 h-4" /></button>
+          <button onClick={() => onUpdate({ height: widget.height === 1 ? 2 : 1 })} title="Altura" className="p-1.5 text-slate-300 hover:text-slate-600"><MoveVertical className="w-4 h-4" /></button>
+          <button onClick={() => setEditing(v => !v)} title="Configurar" className={`p-1.5 ${editing ? 'text-indigo-600' : 'text-slate-300 hover:text-slate-600'}`}><Settings2 className="w-4 h-4" /></button>
+          <button onClick={onRemove} title="Remover" className="p-1.5 text-slate-300 hover:text-rose-500"><Trash2 className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {editing && <WidgetEditor widget={widget} data={data} catalog={catalog} dimensions={dimensions} onUpdate={onUpdate} />}
+
+      {widget.type === 'funnel' && series?.kind === 'rows' ? (
+        <FunnelView data={data} rows={funnelRows} mapping={mapping} dimensions={dimensions.filter(d => data.types[d] === 'string')} />
+      ) : (
+        <div className={HEIGHT_CLASSES[widget.height]}>
+          <WidgetBody widget={widget} series={series} catalog={catalog} dateColumn={dateColumn} highlights={highlights} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const WidgetGrid: React.FC<WidgetGridProps> = ({ widgets, series, onChange, onReset, ...context }) => {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const { catalog, dimensions, mapping } = context;
+
+  const updateWidget = (id: string, patch: Partial<Widget>) => onChange(widgets.map(w => w.id === id ? { ...w, ...patch } : w));
+
+  const addWidget = (type: WidgetType) => {
+    const dimension = [mapping.adName, mapping.campaign, ...dimensions].find(d => d && dimensions.includes(d)) ?? '';
+    const metric = ['fx:roas', mapping.revenue, mapping.spend].find(k => k && catalog.some(m => m.key === k)) ?? catalog[0]?.key;
+    onChange([...widgets, createWidget(type, dimension, metric ? [metric] : [])]);
+    setAdding(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {widgets.map(widget => (
+        <WidgetCard
+          key={widget.id}
+          widget={widget}
+          series={series[widget.id]}
+          onUpdate={patch => updateWidget(widget.id, patch)}
+          onRemove={() => onChange(widgets.filter(w => w.id !== widget.id))}
+          onDragStart={() => setDragging(widget.id)}
+          onDrop={() => {
+            if (dragging) onChange(moveWidget(widgets, dragging, widget.id));
+            setDragging(null);
+          }}
+          {...context}
+        />
+      ))}
+
+      <div className="lg:col-span-4 flex flex-wrap items-center gap-2">
+        {adding ? (
+          <>
+            {(Object.keys(WIDGET_TYPE_LABELS) as WidgetType[]).map(type => (
+              <button key={type} onClick={() => addWidget(type)} className="inline-flex items-center px-3 py-2 bg-indigo-50 rounded-xl text-[10px] font-black text-indigo-600 hover:bg-indigo-100">
+                <Plus className="w-3 h-3 mr-1" /> {WIDGET_TYPE_LABELS[type]}
+              </button>
+            ))}
+            <button onClick={() => setAdding(false)} className="p-2 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </>
+        ) : (
+          <button
+            onClick={() => setAdding(true)}
+            className="inline-flex items-center px-3 py-2 bg-white border border-dashed border-slate-300 rounded-xl text-[10px] font-black text-slate-500 hover:text-indigo-600 hover:border-indigo-300"
+          >
+            <Plus className="w-3 h-3 mr-1" /> ADICIONAR WIDGET
+          </button>
+        )}
+        <button onClick={onReset} className="ml-auto inline-flex items-center text-[10px] font-black text-slate-400 hover:text-slate-600">
+          <RotateCcw className="w-3 h-3 mr-1" /> RESTAURAR PADRÃO
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WidgetGrid;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Layers } from 'lucide-react';
+import { SOURCE_TAB_COLUMN, SheetTable } from '../services/workbook';
+
+interface WorkbookTabPickerProps {
+  fileName: string;
+  tables: SheetTable[];
+  // append = true empilha as abas numa única fonte; false abre uma fonte por aba
+  onConfirm: (tables: SheetTable[], append: boolean) => void;
+  onCancel: () => void;
+}
+
+const WorkbookTabPicker: React.FC<WorkbookTabPickerProps> = ({ fileName, tables, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>(() => tables.slice(0, 1).map(t => t.name));
+  const [append, setAppend] = useState(true);
+
+  const toggle = (name: string) =>
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+
+  // Mantém a ordem das abas no arquivo, não a ordem dos cliques
+  const chosen = tables.filter(t => selected.includes(t.name));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><FileSpreadsheet className="w-5 h-5" /></div>
+        <div className="min-w-0">
+          <h4 className="text-sm font-black text-slate-800 truncate">{fileName}</h4>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{tables.length} abas com dados</p>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto scrollbar-thin">
+        {tables.map(t => (
+          <label key={t.name} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-50 hover:bg-slate-100 cursor-pointer">
+            <span className="flex items-center text-xs font-bold text-slate-700 min-w-0">
+              <input type="checkbox" checked={selected.includes(t.name)} onChange={() => toggle(t.name)} className="mr-3 accent-indigo-600" />
+              <span className="truncate">{t.name}</span>
+            </span>
+            <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap">
+              {t.records.length.toLocaleString('pt-BR')} linhas · {t.headers.length} colunas
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {chosen.length > 1 && (
+        <label className="flex items-start gap-2 text-[11px] font-bold text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={append} onChange={e => setAppend(e.target.checked)} className="mt-0.5 accent-indigo-600" />
+          <span>
+            <Layers className="inline w-3 h-3 mr-1" />
+            Empilhar em um único dataset, com a coluna "{SOURCE_TAB_COLUMN}" indicando a origem. Desmarcado, cada aba vira uma fonte.
+          </span>
+        </label>
+      )}
+
+      <div className="flex items-center justify-end gap-2 pt-4 border-t border-slate-100">
+        <button onClick={onCancel} className="px-4 py-2 text-xs font-bold text-slate-500 hover:text-slate-700">CANCELAR</button>
+        <button
+          onClick={() => onConfirm(chosen, append)}
+          disabled={chosen.length === 0}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 transition-all disabled:opacity-50"
+        >
+          ABRIR {chosen.length > 1 ? `${chosen.length} ABAS` : 'ABA'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookTabPicker;
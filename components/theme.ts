@@ -0,0 +1,9 @@
+import { InsightSeverity } from '../types';
+
+export const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f43f5e', '#f97316', '#eab308', '#22c55e', '#06b6d4'];
+
+export const SEVERITY_STYLES: Record<InsightSeverity, { label: string, badge: string, border: string }> = {
+  high: { label: 'Alta', badge: 'bg-rose-100 text-rose-700', border: 'border-rose-200' },
+  medium: { label: 'Média', badge: 'bg-amber-100 text-amber-700', border: 'border-amber-200' },
+  low: { label: 'Baixa', badge: 'bg-slate-100 text-slate-600', border: 'border-slate-200' },
+};
@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { LlmRequest, generateGeminiJson } from '../services/geminiService';
+import { LlmError, toLlmError } from '../services/llmErrors';
+import { MODEL_OPTIONS } from '../services/llm';
+
+const ENDPOINT = '/api/llm';
+// Os agregados enviados cabem com folga; acima disso é abuso ou erro do cliente
+const MAX_BODY_BYTES = 512 * 1024;
+// O proxy usa a chave do servidor: só modelos da lista e pedidos do tamanho dos que o app monta
+const MAX_PROMPT_CHARS = 200_000;
+const MAX_SCHEMA_CHARS = 16 * 1024;
+
+interface ProxyRequestBody {
+  model: string;
+  prompt: string;
+  schema: Record<string, unknown>;
+  temperature?: number;
+}
+
+const STATUS_BY_KIND: Record<string, number> = {
+  config: 400,
+  auth: 401,
+  quota: 429,
+  network: 502,
+  invalid_response: 502,
+  unknown: 500,
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new LlmError('config', 'Pedido grande demais para o proxy.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const isProxyRequestBody = (body: unknown): body is ProxyRequestBody => {
+  if (!body || typeof body !== 'object') return false;
+  const { model, prompt, schema, temperature } = body as Record<string, unknown>;
+  return typeof model === 'string'
+    && typeof prompt === 'string'
+    && !!schema && typeof schema === 'object' && !Array.isArray(schema)
+    && (temperature === undefined || typeof temperature === 'number');
+};
+
+const parseRequest = (raw: string): LlmRequest => {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new LlmError('config', 'Corpo do pedido não é JSON.');
+  }
+  if (!isProxyRequestBody(body)) throw new LlmError('config', 'Pedido precisa de model, prompt e schema.');
+  if (!MODEL_OPTIONS.includes(body.model)) throw new LlmError('config', `Modelo "${body.model}" não é aceito pelo proxy.`);
+  if (body.prompt.length > MAX_PROMPT_CHARS) throw new LlmError('config', 'Prompt grande demais para o proxy.');
+  if (JSON.stringify(body.schema).length > MAX_SCHEMA_CHARS) throw new LlmError('config', 'Schema grande demais para o proxy.');
+  const temperature = Number.isFinite(body.temperature) ? Math.min(2, Math.max(0, body.temperature!)) : 0;
+  return { model: body.model, prompt: body.prompt, schema: body.schema, temperature };
+};
+
+const createHandler = (apiKey: string | undefined): Connect.NextHandleFunction => async (req, res, next) => {
+  if (req.url !== ENDPOINT) return next();
+  if (req.method !== 'POST') return sendJson(res, 405, { error: { kind: 'config', message: 'Use POST.' } });
+  try {
+    if (!apiKey) throw new LlmError('config', 'GEMINI_API_KEY não definida no .env.local do servidor.');
+    const request = parseRequest(await readBody(req));
+    sendJson(res, 200, { result: await generateGeminiJson(request, apiKey) });
+  } catch (error) {
+    const llmError = toLlmError(error);
+    sendJson(res, STATUS_BY_KIND[llmError.kind] ?? 500, { error: { kind: llmError.kind, message: llmError.message } });
+  }
+};
+
+// Endpoint POST /api/llm nos servidores de dev e preview do Vite. A chave fica só no processo Node.
+export const llmProxyPlugin = (apiKey: string | undefined): Plugin => ({
+  name: 'utmdash-llm-proxy',
+  configureServer(server) {
+    server.middlewares.use(createHandler(apiKey));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createHandler(apiKey));
+  },
+});
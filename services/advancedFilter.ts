@@ -0,0 +1,226 @@
+import { ColumnType, DashboardData, DataRow } from "../types";
+import { isNumericType, parseNumeric } from "./columnTypes";
+import { formatDate, formatValue } from "./formatters";
+import { normalizeKeyValue } from "./join";
+import { fromInputDate, startOfDay } from "./periods";
+
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'contains' | 'notContains' | 'regex'
+  | 'empty' | 'notEmpty';
+
+export type FilterLogic = 'and' | 'or';
+
+export interface FilterCondition {
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  // Limite superior de "entre"
+  value2: string;
+}
+
+export interface FilterGroup {
+  id: string;
+  logic: FilterLogic;
+  conditions: FilterCondition[];
+}
+
+// Grupos combinados pela lógica externa: (A e B) ou (C)
+export interface AdvancedFilter {
+  logic: FilterLogic;
+  groups: FilterGroup[];
+}
+
+export const EMPTY_ADVANCED_FILTER: AdvancedFilter = { logic: 'and', groups: [] };
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  between: 'entre',
+  contains: 'contém',
+  notContains: 'não contém',
+  regex: 'regex',
+  empty: 'está vazio',
+  notEmpty: 'não está vazio',
+};
+
+export const LOGIC_LABELS: Record<FilterLogic, string> = { and: 'E', or: 'OU' };
+
+const NUMERIC_OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte', 'between', 'eq', 'neq', 'empty', 'notEmpty'];
+const DATE_OPERATORS: FilterOperator[] = ['between', 'gte', 'lte', 'eq', 'empty', 'notEmpty'];
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'notContains', 'eq', 'neq', 'regex', 'empty', 'notEmpty'];
+const ALL_OPERATORS = Object.keys(OPERATOR_LABELS) as FilterOperator[];
+
+export const operatorsFor = (type: ColumnType | undefined): FilterOperator[] =>
+  isNumericType(type) ? NUMERIC_OPERATORS : type === 'date' ? DATE_OPERATORS : TEXT_OPERATORS;
+
+export const needsValue = (operator: FilterOperator) => operator !== 'empty' && operator !== 'notEmpty';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCondition = (column: string, type: ColumnType | undefined): FilterCondition =>
+  ({ id: newId(), column, operator: operatorsFor(type)[0], value: '', value2: '' });
+
+export const createGroup = (condition: FilterCondition): FilterGroup =>
+  ({ id: newId(), logic: 'and', conditions: [condition] });
+
+const isEmptyCell = (value: unknown) => value === undefined || value === null || value === '';
+
+type Predicate = (row: DataRow) => boolean;
+
+// Erro de validação exibido ao lado da condição; condições inválidas não filtram nada
+export const conditionError = (condition: FilterCondition, data: DashboardData): string | null => {
+  if (!data.headers.includes(condition.column)) return 'Coluna não existe nesta planilha.';
+  const type = data.types[condition.column];
+  if (!operatorsFor(type).includes(condition.operator)) return 'Operador não se aplica a esta coluna.';
+  if (!needsValue(condition.operator)) return null;
+
+  const values = condition.operator === 'between' ? [condition.value, condition.value2] : [condition.value];
+  if (values.some(v => v.trim() === '')) return 'Informe o valor.';
+  if (isNumericType(type) && values.some(v => parseNumeric(v) === null)) return 'Número inválido.';
+  if (type === 'date' && values.some(v => !fromInputDate(v))) return 'Data inválida.';
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch {
+      return 'Expressão regular inválida.';
+    }
+  }
+  return null;
+};
+
+const compileCondition = (condition: FilterCondition, data: DashboardData): Predicate => {
+  const { column, operator } = condition;
+  const type = data.types[column];
+
+  if (operator === 'empty') return row => isEmptyCell(row[column]);
+  if (operator === 'notEmpty') return row => !isEmptyCell(row[column]);
+
+  if (isNumericType(type) || type === 'date') {
+    // Datas comparadas pelo dia, ignorando o horário da célula
+    const toNumber = (raw: string) => isNumericType(type) ? parseNumeric(raw)! : fromInputDate(raw)!.getTime();
+    const cellNumber = (row: DataRow): number | null => {
+      const value = row[column];
+      if (type === 'date') return value instanceof Date ? startOfDay(value).getTime() : null;
+      return typeof value === 'number' ? value : null;
+    };
+    const a = toNumber(condition.value);
+    const b = operator === 'between' ? toNumber(condition.value2) : a;
+    const [low, high] = a <= b ? [a, b] : [b, a];
+    return row => {
+      const actual = cellNumber(row);
+      if (actual === null) return operator === 'neq';
+      switch (operator) {
+        case 'eq': return actual === a;
+        case 'neq': return actual !== a;
+        case 'gt': return actual > a;
+        case 'gte': return actual >= a;
+        case 'lt': return actual < a;
+        case 'lte': return actual <= a;
+        case 'between': return actual >= low && actual <= high;
+        default: return true;
+      }
+    };
+  }
+
+  if (operator === 'regex') {
+    const pattern = new RegExp(condition.value, 'i');
+    return row => pattern.test(formatValue(row[column], type));
+  }
+  // Texto sem acento e sem diferenciar maiúsculas, como nas chaves do join
+  const expected = normalizeKeyValue(condition.value);
+  return row => {
+    const actual = normalizeKeyValue(row[column]);
+    switch (operator) {
+      case 'contains': return actual.includes(expected);
+      case 'notContains': return !actual.includes(expected);
+      case 'eq': return actual === expected;
+      case 'neq': return actual !== expected;
+      default: return true;
+    }
+  };
+};
+
+// Ignora condições inválidas e grupos vazios; sem nada válido, aceita todas as linhas
+export const compileAdvancedFilter = (filter: AdvancedFilter, data: DashboardData): Predicate | null => {
+  const groups = filter.groups
+    .map(group => ({
+      logic: group.logic,
+      predicates: group.conditions.filter(c => !conditionError(c, data)).map(c => compileCondition(c, data)),
+    }))
+    .filter(g => g.predicates.length > 0)
+    .map(g => g.logic === 'and'
+      ? (row: DataRow) => g.predicates.every(p => p(row))
+      : (row: DataRow) => g.predicates.some(p => p(row)));
+  if (groups.length === 0) return null;
+  return filter.logic === 'and' ? row => groups.every(g => g(row)) : row => groups.some(g => g(row));
+};
+
+const displayDate = (raw: string) => {
+  const date = fromInputDate(raw);
+  return date ? formatDate(date) : raw;
+};
+
+export const describeCondition = (condition: FilterCondition, data: DashboardData): string => {
+  const { column, operator, value, value2 } = condition;
+  if (!needsValue(operator)) return `${column} ${OPERATOR_LABELS[operator]}`;
+  const show = data.types[column] === 'date' ? displayDate : (v: string) => v;
+  if (operator === 'between') return `${column} entre ${show(value)} e ${show(value2)}`;
+  const quoted = isNumericType(data.types[column]) || data.types[column] === 'date' ? show(value) : `"${value}"`;
+  return `${column} ${OPERATOR_LABELS[operator]} ${quoted}`;
+};
+
+export const activeConditionCount = (filter: AdvancedFilter, data: DashboardData) =>
+  filter.groups.reduce((n, g) => n + g.conditions.filter(c => !conditionError(c, data)).length, 0);
+
+// Filtros vindos da URL ou de visões salvas: valida a estrutura campo a campo
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' ? value as Record<string, unknown> : null;
+
+const parseLogic = (l: unknown): FilterLogic => l === 'or' ? 'or' : 'and';
+
+const isOperator = (value: unknown): value is FilterOperator => ALL_OPERATORS.includes(value as FilterOperator);
+
+const parseCondition = (raw: unknown): FilterCondition | null => {
+  const c = asRecord(raw);
+  if (!c || typeof c.column !== 'string' || !isOperator(c.operator)) return null;
+  return {
+    id: typeof c.id === 'string' ? c.id : newId(),
+    column: c.column,
+    operator: c.operator,
+    value: typeof c.value === 'string' ? c.value : '',
+    value2: typeof c.value2 === 'string' ? c.value2 : '',
+  };
+};
+
+const parseGroup = (raw: unknown): FilterGroup | null => {
+  const g = asRecord(raw);
+  if (!g || !Array.isArray(g.conditions)) return null;
+  return {
+    id: typeof g.id === 'string' ? g.id : newId(),
+    logic: parseLogic(g.logic),
+    conditions: g.conditions.map(parseCondition).filter((c): c is FilterCondition => c !== null),
+  };
+};
+
+export const parseAdvancedFilter = (raw: unknown): AdvancedFilter | undefined => {
+  const v = asRecord(raw);
+  if (!v || !Array.isArray(v.groups)) return undefined;
+  return {
+    logic: parseLogic(v.logic),
+    groups: v.groups.map(parseGroup).filter((g): g is FilterGroup => g !== null),
+  };
+};
+
+// Descarta condições de colunas que não existem na planilha aberta
+export const sanitizeAdvancedFilter = (filter: AdvancedFilter, data: DashboardData): AdvancedFilter => ({
+  logic: filter.logic,
+  groups: filter.groups
+    .map(g => ({ ...g, conditions: g.conditions.filter(c => data.headers.includes(c.column)) }))
+    .filter(g => g.conditions.length > 0),
+});
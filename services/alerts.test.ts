@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AlertRule, evaluateAlerts, loadAlertRules } from './alerts';
+import { parseCSV } from './csvParser';
+import { buildMetricCatalog } from './metrics';
+
+const data = parseCSV([
+  'Anúncio;Data;Gastos;Receita',
+  'A;01/03/2024;R$ 10,00;R$ 10,00',
+  'A;02/03/2024;R$ 10,00;R$ 12,00',
+  'A;03/03/2024;R$ 10,00;R$ 11,00',
+  'B;01/03/2024;R$ 10,00;R$ 10,00',
+  'B;02/03/2024;R$ 10,00;R$ 30,00',
+  'B;03/03/2024;R$ 20,00;R$ 20,00',
+  'C;01/03/2024;R$ 10,00;R$ 10,00',
+  'C;03/03/2024;R$ 10,00;R$ 10,00',
+].join('\n')).data!;
+const catalog = buildMetricCatalog(data, { revenue: 'Receita', spend: 'Gastos', filters: [] }, []);
+
+const rule = (conditions: AlertRule['conditions']): AlertRule =>
+  ({ id: 'r', name: 'Regra', enabled: true, severity: 'medium', dimension: 'Anúncio', conditions });
+
+const entities = (r: AlertRule) => evaluateAlerts(data, [r], catalog, 'Data').hits.map(h => h.entity);
+
+describe('evaluateAlerts', () => {
+  it('exige a condição em cada um dos últimos N dias, sem pular dias vazios', () => {
+    const streak = rule([{ kind: 'streak', metric: 'fx:roas', operator: 'lt', value: 1.5, days: 3 }]);
+    // B teve ROAS 3 no meio; C não teve linhas no dia 2
+    expect(entities(streak)).toEqual(['A']);
+  });
+
+  it('compara o último dia com o anterior em variação percentual', () => {
+    const change = rule([{ kind: 'change', metric: 'Gastos', operator: 'gte', value: 50, days: 3 }]);
+    const [hit] = evaluateAlerts(data, [change], catalog, 'Data').hits;
+    expect(hit.entity).toBe('B');
+    expect(hit.evidence[0]).toContain('+100% no dia');
+  });
+
+  it('pula regras por dia quando não há coluna de data', () => {
+    const streak = rule([{ kind: 'streak', metric: 'fx:roas', operator: 'lt', value: 1.5, days: 3 }]);
+    const result = evaluateAlerts(data, [streak], catalog);
+    expect(result.hits).toEqual([]);
+    expect(result.skipped[0].reason).toBe('Condições por dia precisam de uma coluna de data mapeada.');
+  });
+});
+
+describe('loadAlertRules', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('descarta regras e condições malformadas do localStorage', () => {
+    const stored = [
+      { dimension: 'Anúncio', conditions: [{ kind: 'streak', metric: 'fx:roas', operator: 'lt', value: 1.5, days: 3 }, { kind: 'media' }] },
+      { name: 'Sem dimensão', conditions: [] },
+      null,
+    ];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    const [loaded, ...rest] = loadAlertRules();
+    expect(rest).toEqual([]);
+    expect(loaded).toMatchObject({ name: 'Nova regra', enabled: true, severity: 'medium', dimension: 'Anúncio' });
+    expect(loaded.conditions).toEqual([{ kind: 'streak', metric: 'fx:roas', operator: 'lt', value: 1.5, days: 3 }]);
+  });
+});
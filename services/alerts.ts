@@ -0,0 +1,296 @@
+import { ColumnMapping, DashboardData, DataRow, InsightSeverity } from "../types";
+import { formatValue } from "./formatters";
+import { CompiledMetric, aggregateMetric, formatMetric } from "./metrics";
+import { addDays, dateExtent, percentChange, startOfDay, toInputDate } from "./periods";
+
+// value: total da entidade na planilha; streak: vale em cada um dos últimos N dias; change: variação % do penúltimo para o último dia
+export type AlertConditionKind = 'value' | 'streak' | 'change';
+
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+export interface AlertCondition {
+  kind: AlertConditionKind;
+  metric: string;
+  operator: AlertOperator;
+  // Na unidade da métrica; em "change", variação percentual (50 = +50%, -30 = -30%)
+  value: number;
+  // Só para "streak"
+  days: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: InsightSeverity;
+  // Coluna que identifica a entidade avaliada (anúncio, campanha...)
+  dimension: string;
+  // Todas as condições precisam valer ao mesmo tempo
+  conditions: AlertCondition[];
+}
+
+export interface AlertHit {
+  rule: AlertRule;
+  entity: string;
+  // Valores que dispararam cada condição, já formatados
+  evidence: string[];
+}
+
+export interface AlertEvaluation {
+  hits: AlertHit[];
+  // Regras que não fazem sentido nesta planilha (coluna ou métrica ausente)
+  skipped: { rule: AlertRule, reason: string }[];
+}
+
+export const ALERT_KIND_LABELS: Record<AlertConditionKind, string> = {
+  value: 'Total',
+  streak: 'Dias seguidos',
+  change: 'Variação diária (%)',
+};
+
+export const ALERT_OPERATOR_LABELS: Record<AlertOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+};
+
+const SEVERITY_ORDER: Record<InsightSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const STORAGE_KEY = 'utmdash:alert-rules';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAlertCondition = (metric: string): AlertCondition =>
+  ({ kind: 'value', metric, operator: 'gt', value: 0, days: 3 });
+
+export const createAlertRule = (dimension: string, metric: string): AlertRule =>
+  ({ id: newId(), name: 'Nova regra', enabled: true, severity: 'medium', dimension, conditions: [createAlertCondition(metric)] });
+
+const compare = (actual: number, operator: AlertOperator, expected: number) => {
+  switch (operator) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'eq': return Math.abs(actual - expected) < 1e-9;
+  }
+};
+
+const isTimeBased = (condition: AlertCondition) => condition.kind !== 'value';
+
+export const ruleError = (rule: AlertRule, data: DashboardData, catalog: CompiledMetric[], dateColumn?: string): string | null => {
+  if (!data.headers.includes(rule.dimension)) return `Coluna "${rule.dimension}" não existe nesta planilha.`;
+  if (rule.conditions.length === 0) return 'Regra sem condições.';
+  const missing = rule.conditions.find(c => !catalog.some(m => m.key === c.metric));
+  if (missing) return `Métrica "${missing.metric}" indisponível nesta planilha.`;
+  if (rule.conditions.some(isTimeBased) && !dateColumn) return 'Condições por dia precisam de uma coluna de data mapeada.';
+  if (rule.conditions.some(c => c.kind === 'streak' && (!Number.isInteger(c.days) || c.days < 1))) return 'Informe quantos dias seguidos.';
+  return null;
+};
+
+interface EntityContext {
+  rows: DataRow[];
+  // Linhas da entidade por dia (yyyy-mm-dd), montado só quando alguma condição é por dia
+  byDay: Map<string, DataRow[]> | null;
+  lastDay: Date | null;
+}
+
+const dayValue = (ctx: EntityContext, day: Date, metric: CompiledMetric) => {
+  const rows = ctx.byDay?.get(toInputDate(day));
+  if (!rows) return null;
+  const value = aggregateMetric(rows, metric);
+  return value !== null && isFinite(value) ? value : null;
+};
+
+// Devolve a evidência formatada quando a condição vale, ou null
+const checkCondition = (condition: AlertCondition, metric: CompiledMetric, ctx: EntityContext): string | null => {
+  const show = (v: number) => formatMetric(v, metric.format);
+  const expected = `${ALERT_OPERATOR_LABELS[condition.operator]} ${show(condition.value)}`;
+
+  if (condition.kind === 'value') {
+    const value = aggregateMetric(ctx.rows, metric);
+    if (value === null || !isFinite(value) || !compare(value, condition.operator, condition.value)) return null;
+    return `${metric.label} = ${show(value)} (${expected})`;
+  }
+
+  if (!ctx.lastDay) return null;
+
+  if (condition.kind === 'streak') {
+    const values: number[] = [];
+    // Dia sem linhas quebra a sequência: não há como afirmar que a métrica continuou ruim
+    for (let d = condition.days - 1; d >= 0; d--) {
+      const value = dayValue(ctx, addDays(ctx.lastDay, -d), metric);
+      if (value === null || !compare(value, condition.operator, condition.value)) return null;
+      values.push(value);
+    }
+    return `${metric.label} ${expected} por ${condition.days} dia(s) seguidos: ${values.map(show).join(' → ')}`;
+  }
+
+  const current = dayValue(ctx, ctx.lastDay, metric);
+  const previous = dayValue(ctx, addDays(ctx.lastDay, -1), metric);
+  if (current === null || previous === null) return null;
+  const change = percentChange(current, previous);
+  if (change === null || !compare(change, condition.operator, condition.value)) return null;
+  const sign = change > 0 ? '+' : '';
+  return `${metric.label}: ${show(previous)} → ${show(current)} (${sign}${change.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}% no dia, limite ${ALERT_OPERATOR_LABELS[condition.operator]} ${condition.value}%)`;
+};
+
+// Avalia as regras sobre a planilha inteira; as condições por dia olham para o último dia com dados
+export const evaluateAlerts = (
+  data: DashboardData,
+  rules: AlertRule[],
+  catalog: CompiledMetric[],
+  dateColumn?: string
+): AlertEvaluation => {
+  const hits: AlertHit[] = [];
+  const skipped: AlertEvaluation['skipped'] = [];
+  const lastDay = dateColumn ? dateExtent(data.rows, dateColumn)?.end ?? null : null;
+
+  rules.filter(r => r.enabled).forEach(rule => {
+    const error = ruleError(rule, data, catalog, dateColumn);
+    if (error) {
+      skipped.push({ rule, reason: error });
+      return;
+    }
+
+    const groups = new Map<string, DataRow[]>();
+    data.rows.forEach(row => {
+      const entity = formatValue(row[rule.dimension], data.types[rule.dimension]);
+      if (entity === '') return;
+      const group = groups.get(entity);
+      if (group) group.push(row);
+      else groups.set(entity, [row]);
+    });
+
+    const metrics = rule.conditions.map(c => catalog.find(m => m.key === c.metric)!);
+    const needsDays = rule.conditions.some(isTimeBased);
+
+    groups.forEach((rows, entity) => {
+      let byDay: Map<string, DataRow[]> | null = null;
+      if (needsDays && dateColumn) {
+        byDay = new Map();
+        rows.forEach(row => {
+          const value = row[dateColumn];
+          if (!(value instanceof Date)) return;
+          const key = toInputDate(startOfDay(value));
+          const day = byDay!.get(key);
+          if (day) day.push(row);
+          else byDay!.set(key, [row]);
+        });
+      }
+      const ctx: EntityContext = { rows, byDay, lastDay };
+      const evidence: string[] = [];
+      const matched = rule.conditions.every((condition, i) => {
+        const found = checkCondition(condition, metrics[i], ctx);
+        if (found) evidence.push(found);
+        return found !== null;
+      });
+      if (matched) hits.push({ rule, entity, evidence });
+    });
+  });
+
+  hits.sort((a, b) => SEVERITY_ORDER[a.rule.severity] - SEVERITY_ORDER[b.rule.severity] || a.entity.localeCompare(b.entity, 'pt-BR'));
+  return { hits, skipped };
+};
+
+// Entidades sinalizadas por coluna, para destacar linhas da tabela e barras do gráfico
+export const alertHighlights = (hits: AlertHit[]): Map<string, Set<string>> => {
+  const map = new Map<string, Set<string>>();
+  hits.forEach(hit => {
+    const set = map.get(hit.rule.dimension);
+    if (set) set.add(hit.entity);
+    else map.set(hit.rule.dimension, new Set([hit.entity]));
+  });
+  return map;
+};
+
+export const isRowFlagged = (row: DataRow, highlights: Map<string, Set<string>>, data: DashboardData) => {
+  for (const [dimension, entities] of highlights) {
+    if (entities.has(formatValue(row[dimension], data.types[dimension]))) return true;
+  }
+  return false;
+};
+
+// Exemplos prontos, montados só com o que a planilha tem
+export const alertTemplates = (mapping: ColumnMapping, catalog: CompiledMetric[]): AlertRule[] => {
+  const dimension = mapping.adName || mapping.campaign;
+  if (!dimension) return [];
+  const has = (key?: string) => !!key && catalog.some(m => m.key === key);
+  const templates: AlertRule[] = [];
+  if (has(mapping.spend) && has(mapping.sales)) {
+    templates.push({
+      id: 'spend-no-sales', name: 'Gasto alto sem vendas', enabled: true, severity: 'high', dimension,
+      conditions: [
+        { kind: 'value', metric: mapping.spend!, operator: 'gt', value: 300, days: 3 },
+        { kind: 'value', metric: mapping.sales!, operator: 'eq', value: 0, days: 3 },
+      ],
+    });
+  }
+  if (mapping.date && has('fx:roas')) {
+    templates.push({
+      id: 'roas-streak', name: 'ROAS abaixo de 1,5 por 3 dias', enabled: true, severity: 'medium', dimension,
+      conditions: [{ kind: 'streak', metric: 'fx:roas', operator: 'lt', value: 1.5, days: 3 }],
+    });
+  }
+  if (mapping.date && has('fx:cpa')) {
+    templates.push({
+      id: 'cpa-jump', name: 'CPA subiu 50% no dia', enabled: true, severity: 'medium', dimension,
+      conditions: [{ kind: 'change', metric: 'fx:cpa', operator: 'gte', value: 50, days: 3 }],
+    });
+  }
+  return templates;
+};
+
+export const withNewId = (rule: AlertRule): AlertRule => ({ ...rule, id: newId() });
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' ? value as Record<string, unknown> : null;
+
+const ALERT_KINDS = Object.keys(ALERT_KIND_LABELS) as AlertConditionKind[];
+const ALERT_OPERATORS = Object.keys(ALERT_OPERATOR_LABELS) as AlertOperator[];
+const SEVERITIES = Object.keys(SEVERITY_ORDER) as InsightSeverity[];
+
+const sanitizeCondition = (raw: unknown): AlertCondition | null => {
+  const c = asRecord(raw);
+  if (!c || typeof c.metric !== 'string') return null;
+  if (!ALERT_KINDS.includes(c.kind as AlertConditionKind) || !ALERT_OPERATORS.includes(c.operator as AlertOperator)) return null;
+  return {
+    kind: c.kind as AlertConditionKind,
+    metric: c.metric,
+    operator: c.operator as AlertOperator,
+    value: typeof c.value === 'number' && isFinite(c.value) ? c.value : 0,
+    days: typeof c.days === 'number' && isFinite(c.days) ? c.days : 3,
+  };
+};
+
+// Regras vindas do localStorage: valida campo a campo; métricas e colunas ausentes ficam para ruleError explicar
+const sanitizeRule = (raw: unknown): AlertRule | null => {
+  const r = asRecord(raw);
+  if (!r || typeof r.dimension !== 'string' || !Array.isArray(r.conditions)) return null;
+  return {
+    id: typeof r.id === 'string' ? r.id : newId(),
+    name: typeof r.name === 'string' ? r.name : 'Nova regra',
+    enabled: r.enabled !== false,
+    severity: SEVERITIES.includes(r.severity as InsightSeverity) ? r.severity as InsightSeverity : 'medium',
+    dimension: r.dimension,
+    conditions: r.conditions.map(sanitizeCondition).filter((c): c is AlertCondition => c !== null),
+  };
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.map(sanitizeRule).filter((r): r is AlertRule => r !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
@@ -0,0 +1,112 @@
+import { ColumnMapping, DashboardData, MappingProfile } from "../types";
+import { isNumericType } from "./columnTypes";
+
+export type MappingRole = Exclude<keyof ColumnMapping, 'filters'>;
+
+export const MAPPING_ROLES: { role: MappingRole, label: string, numeric?: boolean }[] = [
+  { role: 'revenue', label: 'Faturamento', numeric: true },
+  { role: 'spend', label: 'Gastos', numeric: true },
+  { role: 'date', label: 'Data' },
+  { role: 'adName', label: 'Nome do anúncio' },
+  { role: 'campaign', label: 'Campanha' },
+  { role: 'sales', label: 'Vendas (qtd.)', numeric: true },
+  { role: 'cogs', label: 'Custo do produto (CMV)', numeric: true },
+  { role: 'clicks', label: 'Cliques', numeric: true },
+  { role: 'impressions', label: 'Impressões', numeric: true },
+];
+
+// Heurísticas padrão: o mapeamento sugerido antes de o usuário revisar
+const ROLE_KEYWORDS: Record<MappingRole, string[]> = {
+  revenue: ['faturamento', 'receita', 'faturado', 'purchase conversion value', 'revenue'],
+  spend: ['gastos', 'gasto', 'custo', 'investimento', 'spend', 'amount spent', 'valor usado'],
+  date: ['data', 'periodo', 'dia', 'day', 'date', 'reporting starts'],
+  adName: ['nome do ad', 'anúncio', 'ad name'],
+  campaign: ['campanha', 'campaign'],
+  sales: ['vendas', 'compras', 'purchases', 'conversões'],
+  cogs: ['cmv', 'custo do produto', 'custo produto', 'cogs'],
+  clicks: ['cliques', 'clicks'],
+  impressions: ['impressões', 'impressoes', 'impressions'],
+};
+
+const FILTER_KEYWORDS = ['data', 'nome do ad', 'bm-ca-pf (teste)', 'status', 'campanha', 'ad set', 'campaign', 'conjunto', 'utm_source', 'utm_medium', 'utm_campaign', 'correspondência'];
+
+const STORAGE_KEY = 'utmdash:mapping-profiles';
+
+const normalize = (h: string) => h.trim().toLowerCase();
+
+export const suggestMapping = (data: DashboardData): ColumnMapping => {
+  const { headers, types } = data;
+  const matching = (role: MappingRole) => headers.filter(h => ROLE_KEYWORDS[role].some(k => normalize(h).includes(k)));
+  // Papéis numéricos preferem colunas numéricas entre as que casam pelo nome
+  const numeric = (role: MappingRole, exclude: string[] = []) => {
+    const candidates = matching(role).filter(h => !exclude.includes(h));
+    return candidates.find(h => isNumericType(types[h])) ?? candidates[0];
+  };
+
+  // Coluna de data: prioriza o nome esperado, mas só aceita colunas com datas reconhecidas
+  const date = matching('date').find(h => types[h] === 'date') ?? headers.find(h => types[h] === 'date');
+
+  return {
+    revenue: numeric('revenue'),
+    // "Custo do produto" também casa com "custo" e não pode virar a coluna de gastos
+    spend: numeric('spend', matching('cogs')),
+    date,
+    adName: matching('adName')[0],
+    campaign: matching('campaign')[0],
+    // Quantidade de vendas é inteira; "Valor das vendas" (moeda) também casa com a palavra-chave
+    sales: matching('sales').find(h => types[h] === 'integer') ?? numeric('sales'),
+    cogs: numeric('cogs'),
+    // "CPC (custo por clique)" também casa com "clique"; a contagem de cliques é inteira
+    clicks: matching('clicks').find(h => types[h] === 'integer') ?? numeric('clicks'),
+    impressions: numeric('impressions'),
+    filters: headers.filter(h => FILTER_KEYWORDS.some(t => normalize(h).includes(t))),
+  };
+};
+
+// Assinatura independente da ordem das colunas, para reconhecer a mesma planilha em outro carregamento
+export const headerSignature = (headers: string[]) => headers.map(normalize).sort().join('|');
+
+export const loadProfiles = (): MappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Um perfil por assinatura: salvar de novo para a mesma planilha substitui o anterior
+export const saveProfile = (name: string, headers: string[], mapping: ColumnMapping): MappingProfile => {
+  const signature = headerSignature(headers);
+  const profiles = loadProfiles().filter(p => p.signature !== signature);
+  const profile: MappingProfile = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || 'Sem nome',
+    signature,
+    mapping,
+    updatedAt: Date.now(),
+  };
+  persistProfiles([...profiles, profile]);
+  return profile;
+};
+
+export const deleteProfile = (id: string) => {
+  persistProfiles(loadProfiles().filter(p => p.id !== id));
+};
+
+// Descarta colunas que não existem mais na planilha atual
+export const sanitizeMapping = (mapping: ColumnMapping, headers: string[]): ColumnMapping => {
+  const valid = (col?: string) => (col && headers.includes(col) ? col : undefined);
+  const result: ColumnMapping = { filters: (mapping.filters || []).filter(c => headers.includes(c)) };
+  MAPPING_ROLES.forEach(({ role }) => { result[role] = valid(mapping[role]); });
+  return result;
+};
+
+export const findProfileFor = (headers: string[]): MappingProfile | undefined => {
+  const signature = headerSignature(headers);
+  return loadProfiles().find(p => p.signature === signature);
+};
@@ -0,0 +1,161 @@
+import { CellValue, ColumnType, DashboardData, DataRow } from "../types";
+
+type DateOrder = 'dmy' | 'mdy';
+type ValueKind = 'empty' | 'date' | 'currency' | 'percent' | 'integer' | 'number' | 'string';
+
+// Fração mínima de células não vazias que precisam concordar para a coluna assumir um tipo.
+// Abaixo disso a coluna fica como texto e as células divergentes são tratadas como inconsistentes.
+export const INFERENCE_THRESHOLD = 0.9;
+
+const CURRENCY_RE = /R\$|US\$|\$|€/;
+const DMY_RE = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+// Erros de fórmula do Excel e do Google Sheets, em inglês e em português
+const SPREADSHEET_ERROR_RE = /^#(DIV\/0!|N\/A|N\/D|VALUE!|VALOR!|REF!|NAME\?|NOME\?|NUM!|NÚM!|NULL!|NULO!|ERROR!|ERRO!|SPILL!|CALC!)$/i;
+// "R$ -", "-", "–": formato contábil para zero
+const DASH_ZERO_RE = /^(R\$|US\$|\$|€)?\s*[-–—]\s*(R\$|US\$|\$|€)?$/;
+const ISO_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?Z?)?$/;
+
+export const isSpreadsheetError = (raw: string) => SPREADSHEET_ERROR_RE.test(raw.trim());
+
+export const isDashZero = (raw: string) => DASH_ZERO_RE.test(raw.trim());
+
+export const isNumericType = (type: ColumnType | undefined) =>
+  type === 'currency' || type === 'percent' || type === 'integer' || type === 'number';
+
+// Números em formato brasileiro ou americano: R$ 1.200,50 | 4,00% | 1,200.50 | -350
+export const parseNumeric = (raw: string): number | null => {
+  let cleaned = raw.trim().replace(CURRENCY_RE, '').replace('%', '').replace(/\s/g, '');
+  if (cleaned === '' || !/^[-+]?[\d.,]+$/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // O separador que aparece por último é o decimal
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    // Apenas vírgula: decimal, a menos que se repita como milhar (1,200,000)
+    cleaned = /^[-+]?\d{1,3}(,\d{3}){2,}$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  } else if (/^[-+]?\d{1,3}(\.\d{3})+$/.test(cleaned) && (cleaned.split('.').length > 2 || CURRENCY_RE.test(raw))) {
+    // 1.200.000 ou R$ 1.200: pontos como milhar
+    cleaned = cleaned.replace(/\./g, '');
+  }
+
+  const num = Number(cleaned);
+  return isNaN(num) ? null : num;
+};
+
+const buildDate = (y: number, m: number, d: number, h = 0, mi = 0, s = 0): Date | null => {
+  const date = new Date(y, m - 1, d, h, mi, s);
+  // Rejeita datas que o construtor "corrige", como 31/02
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return date;
+};
+
+export const parseDate = (raw: string, order: DateOrder = 'dmy'): Date | null => {
+  const value = raw.trim();
+  const iso = value.match(ISO_RE);
+  if (iso) {
+    const [, y, m, d, h, mi, s] = iso;
+    return buildDate(Number(y), Number(m), Number(d), Number(h || 0), Number(mi || 0), Number(s || 0));
+  }
+  const dmy = value.match(DMY_RE);
+  if (dmy) {
+    const [, a, b, yRaw, h, mi, s] = dmy;
+    const y = yRaw.length === 2 ? 2000 + Number(yRaw) : Number(yRaw);
+    const [d, m] = order === 'dmy' ? [Number(a), Number(b)] : [Number(b), Number(a)];
+    return buildDate(y, m, d, Number(h || 0), Number(mi || 0), Number(s || 0));
+  }
+  return null;
+};
+
+// Padrão brasileiro (dd/mm), exceto quando alguma data só faz sentido como mm/dd
+const detectDateOrder = (values: string[]): DateOrder => {
+  for (const value of values) {
+    const match = value.trim().match(DMY_RE);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return 'dmy';
+    if (Number(match[2]) > 12) return 'mdy';
+  }
+  return 'dmy';
+};
+
+const classifyValue = (raw: string, order: DateOrder): ValueKind => {
+  const value = raw.trim();
+  // Erros de fórmula e traços contábeis não votam no tipo: muitos "R$ -" não podem rebaixar a coluna de Gasto
+  // para texto. Continuam como texto na célula e aparecem no painel de qualidade.
+  if (value === '' || isSpreadsheetError(value) || isDashZero(value)) return 'empty';
+  if (parseDate(value, order)) return 'date';
+  const num = parseNumeric(value);
+  if (num === null) return 'string';
+  if (CURRENCY_RE.test(value)) return 'currency';
+  if (value.includes('%')) return 'percent';
+  return Number.isInteger(num) && !/[.,]\d{1,2}$/.test(value.replace('%', '').trim()) ? 'integer' : 'number';
+};
+
+export interface ColumnInference {
+  type: ColumnType;
+  dateOrder: DateOrder;
+}
+
+// Amostra todas as linhas da coluna, não apenas o primeiro valor
+export const inferColumnType = (values: string[]): ColumnInference => {
+  const dateOrder = detectDateOrder(values);
+  const counts: Record<ValueKind, number> = { empty: 0, date: 0, currency: 0, percent: 0, integer: 0, number: 0, string: 0 };
+  values.forEach(v => counts[classifyValue(v, dateOrder)]++);
+
+  const filled = values.length - counts.empty;
+  if (filled === 0) return { type: 'string', dateOrder };
+
+  const numeric = counts.currency + counts.percent + counts.integer + counts.number;
+  if (counts.date / filled >= INFERENCE_THRESHOLD) return { type: 'date', dateOrder };
+  if (numeric / filled >= INFERENCE_THRESHOLD) {
+    if (counts.currency > 0) return { type: 'currency', dateOrder };
+    if (counts.percent > 0) return { type: 'percent', dateOrder };
+    if (counts.number === 0) return { type: 'integer', dateOrder };
+    return { type: 'number', dateOrder };
+  }
+  return { type: 'string', dateOrder };
+};
+
+// Converte a célula bruta para o tipo da coluna; células que não se encaixam permanecem como texto
+export const convertValue = (raw: string, { type, dateOrder }: ColumnInference): CellValue => {
+  const value = (raw ?? '').trim();
+  if (value === '') return '';
+  if (type === 'date') return parseDate(value, dateOrder) ?? value;
+  if (isNumericType(type)) return parseNumeric(value) ?? value;
+  return value;
+};
+
+export const buildDashboardData = (headers: string[], records: string[][]): DashboardData => {
+  const types: Record<string, ColumnType> = {};
+  const inferences = headers.map((header, index) => {
+    const inference = inferColumnType(records.map(r => r[index] ?? ''));
+    types[header] = inference.type;
+    return inference;
+  });
+
+  const rows = records.map(record => {
+    const row: DataRow = {};
+    headers.forEach((header, index) => {
+      row[header] = convertValue(record[index] ?? '', inferences[index]);
+    });
+    return row;
+  });
+
+  return { headers, rows, types };
+};
+
+export const toNumber = (value: CellValue | undefined): number =>
+  typeof value === 'number' && !isNaN(value) ? value : 0;
+
+// Ordenação natural entre datas, números e textos
+export const compareValues = (a: CellValue | undefined, b: CellValue | undefined): number => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a === '' || a === undefined) return b === '' || b === undefined ? 0 : 1;
+  if (b === '' || b === undefined) return -1;
+  return String(a).localeCompare(String(b), 'pt-BR', { numeric: true });
+};
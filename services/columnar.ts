@@ -0,0 +1,174 @@
+import { CellValue, ColumnType, DashboardData, DataRow } from "../types";
+import { isNumericType } from "./columnTypes";
+import { formatValue } from "./formatters";
+
+// Armazenamento por coluna: números e datas em Float64Array (NaN = vazio), textos em dicionário.
+// Células que não cabem no tipo da coluna (ex.: "n/d" numa coluna numérica) ficam em `extra`.
+export type ColumnVector =
+  | { kind: 'number', values: Float64Array, extra: Record<number, CellValue> }
+  | { kind: 'date', values: Float64Array, extra: Record<number, CellValue> }
+  | { kind: 'text', codes: Uint32Array, dictionary: string[], extra: Record<number, CellValue> };
+
+export interface ColumnarTable {
+  headers: string[];
+  types: Record<string, ColumnType>;
+  virtualColumns?: string[];
+  length: number;
+  columns: Record<string, ColumnVector>;
+}
+
+const hasExtra = (vector: ColumnVector) => {
+  for (const _ in vector.extra) return true;
+  return false;
+};
+
+const encodeColumn = (rows: DataRow[], column: string, type: ColumnType): ColumnVector => {
+  const extra: Record<number, CellValue> = {};
+
+  if (isNumericType(type) || type === 'date') {
+    const kind = type === 'date' ? 'date' : 'number';
+    const values = new Float64Array(rows.length);
+    rows.forEach((row, i) => {
+      const value = row[column];
+      if (kind === 'date' && value instanceof Date) values[i] = value.getTime();
+      else if (kind === 'number' && typeof value === 'number') values[i] = value;
+      else {
+        values[i] = NaN;
+        if (value !== undefined && value !== null && value !== '') extra[i] = value;
+      }
+    });
+    return { kind, values, extra };
+  }
+
+  const codes = new Uint32Array(rows.length);
+  const dictionary: string[] = [];
+  const index = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const value = row[column];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      extra[i] = value;
+      return;
+    }
+    const text = value ?? '';
+    let code = index.get(text);
+    if (code === undefined) {
+      code = dictionary.length;
+      index.set(text, code);
+      dictionary.push(text);
+    }
+    codes[i] = code;
+  });
+  return { kind: 'text', codes, dictionary, extra };
+};
+
+export const toColumnar = (data: DashboardData): ColumnarTable => ({
+  headers: data.headers,
+  types: data.types,
+  virtualColumns: data.virtualColumns,
+  length: data.rows.length,
+  columns: Object.fromEntries(data.headers.map(h => [h, encodeColumn(data.rows, h, data.types[h])])),
+});
+
+// Buffers enviados ao outro lado por transferência, sem cópia
+export const transferablesOf = (table: ColumnarTable): ArrayBuffer[] =>
+  Object.values(table.columns).map(v => (v.kind === 'text' ? v.codes : v.values).buffer as ArrayBuffer);
+
+export const cellAt = (vector: ColumnVector, i: number): CellValue => {
+  if (vector.kind === 'text') {
+    const extra = vector.extra[i];
+    return extra !== undefined ? extra : vector.dictionary[vector.codes[i]];
+  }
+  const value = vector.values[i];
+  if (isNaN(value)) return vector.extra[i] ?? '';
+  return vector.kind === 'date' ? new Date(value) : value;
+};
+
+// Mesma regra de toNumber: só células numéricas entram nas somas
+export const numericAt = (vector: ColumnVector, i: number): number => {
+  if (vector.kind === 'number') {
+    const value = vector.values[i];
+    if (!isNaN(value)) return value;
+  }
+  const extra = vector.extra[i];
+  return typeof extra === 'number' && !isNaN(extra) ? extra : 0;
+};
+
+// Soma de cada coluna nas linhas indicadas, pela mesma regra de numericAt
+export const sumColumnar = (table: ColumnarTable, indices: ArrayLike<number>, columns: string[]): Record<string, number> =>
+  Object.fromEntries(columns.map(column => {
+    const vector = table.columns[column];
+    let sum = 0;
+    if (vector) for (let k = 0; k < indices.length; k++) sum += numericAt(vector, indices[k]);
+    return [column, sum];
+  }));
+
+export const fromColumnar = (table: ColumnarTable): DashboardData => {
+  const rows: DataRow[] = new Array(table.length);
+  for (let i = 0; i < table.length; i++) rows[i] = {};
+  table.headers.forEach(h => {
+    const vector = table.columns[h];
+    for (let i = 0; i < table.length; i++) rows[i][h] = cellAt(vector, i);
+  });
+  return { headers: table.headers, rows, types: table.types, ...(table.virtualColumns ? { virtualColumns: table.virtualColumns } : {}) };
+};
+
+// Rótulo exibido de cada célula, codificado: filtros, busca e agrupamentos comparam códigos em vez de strings
+export interface LabelIndex {
+  codes: Uint32Array;
+  labels: string[];
+  // Primeiro valor original de cada rótulo, para ordenar datas e números pelo valor
+  sortValues: CellValue[];
+}
+
+const labelCache = new WeakMap<ColumnVector, LabelIndex>();
+
+export const labelIndex = (table: ColumnarTable, column: string): LabelIndex => {
+  const vector = table.columns[column];
+  const cached = labelCache.get(vector);
+  if (cached) return cached;
+
+  const type = table.types[column];
+  const codes = new Uint32Array(table.length);
+  const labels: string[] = [];
+  const sortValues: CellValue[] = [];
+  const byLabel = new Map<string, number>();
+  const codeFor = (value: CellValue) => {
+    const label = formatValue(value, type);
+    let code = byLabel.get(label);
+    if (code === undefined) {
+      code = labels.length;
+      byLabel.set(label, code);
+      labels.push(label);
+      sortValues.push(value);
+    }
+    return code;
+  };
+
+  const withExtra = hasExtra(vector);
+  if (vector.kind === 'text') {
+    const byEntry = vector.dictionary.map(codeFor);
+    for (let i = 0; i < table.length; i++) {
+      codes[i] = withExtra && vector.extra[i] !== undefined ? codeFor(vector.extra[i]) : byEntry[vector.codes[i]];
+    }
+  } else {
+    // Formata cada valor distinto uma única vez
+    const byValue = new Map<number, number>();
+    for (let i = 0; i < table.length; i++) {
+      const value = vector.values[i];
+      if (isNaN(value)) {
+        codes[i] = codeFor(withExtra ? vector.extra[i] ?? '' : '');
+        continue;
+      }
+      let code = byValue.get(value);
+      if (code === undefined) {
+        code = codeFor(vector.kind === 'date' ? new Date(value) : value);
+        byValue.set(value, code);
+      }
+      codes[i] = code;
+    }
+  }
+
+  const index = { codes, labels, sortValues };
+  labelCache.set(vector, index);
+  return index;
+};
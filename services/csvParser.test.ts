@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCSV, parseCSVTable } from './csvParser';
+
+describe('parseCSVTable', () => {
+  it('remove o BOM do início do arquivo', () => {
+    const { headers, records } = parseCSVTable('\uFEFFCampanha,Gasto\nA,10');
+    expect(headers).toEqual(['Campanha', 'Gasto']);
+    expect(records).toEqual([['A', '10']]);
+  });
+
+  it('detecta ; quando a vírgula é o separador decimal', () => {
+    const text = 'Campanha;Gasto;ROAS\nA;1.200,50;2,5\nB;300,00;1,1';
+    expect(detectDelimiter(text)).toBe(';');
+    const { records, delimiter } = parseCSVTable(text);
+    expect(delimiter).toBe(';');
+    expect(records).toEqual([['A', '1.200,50', '2,5'], ['B', '300,00', '1,1']]);
+  });
+
+  it('mantém quebras de linha dentro de aspas', () => {
+    const { records, errors } = parseCSVTable('Anúncio,Texto\nA,"linha 1\nlinha 2"\nB,simples');
+    expect(records).toEqual([['A', 'linha 1\nlinha 2'], ['B', 'simples']]);
+    expect(errors).toEqual([]);
+  });
+
+  it('converte aspas escapadas ("") em uma aspa', () => {
+    const { records } = parseCSVTable('Nome,Obs\nA,"Promo ""Black Friday"""');
+    expect(records).toEqual([['A', 'Promo "Black Friday"']]);
+  });
+
+  it('aceita vírgulas em cabeçalhos entre aspas', () => {
+    const { headers, records } = parseCSVTable('"Valor de conversão (compras, 7 dias)",Gasto\n100,50');
+    expect(headers).toEqual(['Valor de conversão (compras, 7 dias)', 'Gasto']);
+    expect(records).toEqual([['100', '50']]);
+  });
+
+  it('reporta linhas com número de campos diferente do cabeçalho', () => {
+    const { records, errors } = parseCSVTable('A,B,C\n1,2,3\n4,5\n6,7,8,9');
+    expect(records).toHaveLength(3);
+    expect(errors).toEqual([
+      { line: 3, message: 'Esperado 3 campos, encontrado 2.' },
+      { line: 4, message: 'Esperado 3 campos, encontrado 4.' },
+    ]);
+  });
+
+  it('aponta a linha onde abriu a aspa que nunca fecha', () => {
+    const { errors } = parseCSVTable('A,B\n1,2\n3,"sem fim\n4,5');
+    expect(errors).toContainEqual({ line: 3, message: 'Aspas não fechadas até o fim do arquivo.' });
+  });
+});
+
+describe('parseCSV', () => {
+  it('infere os tipos a partir das linhas', () => {
+    const { data } = parseCSV('Dia;Gasto\n01/03/2025;R$ 10,00\n02/03/2025;R$ 20,50');
+    expect(data?.types).toEqual({ Dia: 'date', Gasto: 'currency' });
+    expect(data?.rows[1].Gasto).toBe(20.5);
+  });
+
+  it('devolve data nulo para arquivo vazio', () => {
+    expect(parseCSV('').data).toBeNull();
+  });
+});
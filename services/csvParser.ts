@@ -0,0 +1,187 @@
+import { DashboardData } from "../types";
+import { buildDashboardData } from "./columnTypes";
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  data: DashboardData | null;
+  delimiter: string;
+  errors: CsvParseError[];
+}
+
+interface CsvRecord {
+  fields: string[];
+  line: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DELIMITER_SAMPLE_LINES = 20;
+// Intervalo, em caracteres, entre avisos de progresso do tokenizador
+const PROGRESS_STEP = 1 << 18;
+
+// Conta ocorrências do delimitador fora de aspas em uma linha física
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+// Escolhe o delimitador cuja contagem no cabeçalho se repete de forma consistente nas linhas seguintes.
+// Exportações do Excel em pt-BR e do Meta Ads usam ';' porque a vírgula é o separador decimal.
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = -1;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const headerCount = countOutsideQuotes(lines[0], delimiter);
+    if (headerCount === 0) return;
+    const consistent = lines.slice(1).filter(l => countOutsideQuotes(l, delimiter) === headerCount).length;
+    const score = consistent * 1000 + headerCount;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Tokenizador RFC 4180: campos entre aspas podem conter delimitadores, quebras de linha e aspas escapadas ("")
+const tokenize = (text: string, delimiter: string, onProgress?: (ratio: number) => void) => {
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const pushField = () => {
+    fields.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const pushRecord = () => {
+    pushField();
+    // Linhas totalmente vazias são ignoradas, como no parser anterior
+    if (!(fields.length === 1 && fields[0] === '')) {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+  };
+
+  let nextProgress = PROGRESS_STEP;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (onProgress && i >= nextProgress) {
+      onProgress(i / text.length);
+      nextProgress += PROGRESS_STEP;
+    }
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() === '' && !fieldWasQuoted) {
+        inQuotes = true;
+        fieldWasQuoted = true;
+        field = '';
+      } else {
+        errors.push({ line, message: 'Aspas inesperadas em campo sem aspas.' });
+        field += char;
+      }
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRecord();
+      line++;
+      recordLine = line;
+    } else if (fieldWasQuoted) {
+      // Conteúdo após a aspa de fechamento: mantém, mas reporta
+      if (char.trim() !== '') {
+        errors.push({ line, message: 'Conteúdo após o fechamento das aspas.' });
+        field += char;
+      }
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: 'Aspas não fechadas até o fim do arquivo.' });
+  }
+  if (field !== '' || fields.length > 0 || fieldWasQuoted) pushRecord();
+
+  return { records, errors };
+};
+
+// Cabeçalhos vazios ou repetidos sobrescreveriam colunas no DataRow
+export const normalizeHeaders = (raw: string[]) => {
+  const seen: Record<string, number> = {};
+  return raw.map((h, index) => {
+    const base = h.trim() || `Coluna ${index + 1}`;
+    seen[base] = (seen[base] || 0) + 1;
+    return seen[base] > 1 ? `${base} (${seen[base]})` : base;
+  });
+};
+
+export interface CsvTable {
+  headers: string[];
+  records: string[][];
+  delimiter: string;
+  errors: CsvParseError[];
+}
+
+// Células ainda como texto: permite juntar várias abas antes de inferir os tipos
+export const parseCSVTable = (csvText: string, onProgress?: (ratio: number) => void): CsvTable => {
+  const text = csvText.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const { records, errors } = tokenize(text, delimiter, onProgress);
+
+  if (records.length === 0) return { headers: [], records: [], delimiter, errors };
+
+  const headers = normalizeHeaders(records[0].fields);
+
+  const body = records.slice(1).map(record => {
+    if (record.fields.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        message: `Esperado ${headers.length} campos, encontrado ${record.fields.length}.`,
+      });
+    }
+    return record.fields;
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { headers, records: body, delimiter, errors };
+};
+
+export const parseCSV = (csvText: string): CsvParseResult => {
+  const { headers, records, delimiter, errors } = parseCSVTable(csvText);
+  return { data: headers.length ? buildDashboardData(headers, records) : null, delimiter, errors };
+};
@@ -0,0 +1,136 @@
+import { ColumnMapping, DashboardData, DataRow } from "../types";
+import { AdvancedFilter, compileAdvancedFilter } from "./advancedFilter";
+import { ColumnarTable, cellAt, labelIndex, sumColumnar } from "./columnar";
+import { compareValues } from "./columnTypes";
+import { KpiColumns, Kpis, kpisFromTotals } from "./kpis";
+import { CompiledMetric, MetricDefinition, buildMetricCatalog } from "./metrics";
+import { DateRange, addDays } from "./periods";
+import { ProfitModel } from "./profitModel";
+import { computeWidgetSeries } from "./widgetSeries";
+import { WidgetSeries, WidgetSpec } from "./widgets";
+
+// Tudo o que o Dashboard precisa para montar filtros, KPIs, cards e widgets; só dados clonáveis
+export interface DashboardQuery {
+  filters: Record<string, string[]>;
+  advanced: AdvancedFilter;
+  search: string;
+  dateColumn?: string;
+  range: DateRange | null;
+  previousRange: DateRange | null;
+  filterColumns: string[];
+  kpiColumns: KpiColumns;
+  profitModel: ProfitModel;
+  mapping: ColumnMapping;
+  customMetrics: MetricDefinition[];
+  activeMetrics: string[];
+  widgets: WidgetSpec[];
+}
+
+export interface MetricValue {
+  value: number | null;
+  previous: number | null;
+}
+
+export interface DashboardQueryResult {
+  // Índices das linhas no recorte atual (filtros, busca e período), em ordem original
+  filtered: Uint32Array;
+  uniqueValues: Record<string, string[]>;
+  stats: Kpis;
+  previousStats: Kpis | null;
+  metricValues: Record<string, MetricValue>;
+  // Série de cada widget, pelo id
+  widgetSeries: Record<string, WidgetSeries>;
+}
+
+const aggregate = (table: ColumnarTable, indices: ArrayLike<number>, metric: CompiledMetric) =>
+  metric.evaluate(sumColumnar(table, indices, metric.columns));
+
+const computeStats = (table: ColumnarTable, indices: ArrayLike<number>, cols: KpiColumns, model: ProfitModel): Kpis => {
+  const sums = sumColumnar(table, indices, [cols.revenue, cols.spend, cols.sales, cols.cogs].filter((c): c is string => !!c));
+  const total = (column?: string) => column ? sums[column] : 0;
+  return kpisFromTotals({ fat: total(cols.revenue), gas: total(cols.spend), vendas: total(cols.sales), cmv: total(cols.cogs) }, model);
+};
+
+// Filtros, busca e filtro avançado; o período é aplicado depois, para servir também à comparação
+const matchRows = (table: ColumnarTable, query: DashboardQuery, schema: DashboardData): Uint32Array => {
+  // Cada filtro vira uma tabela "rótulo permitido?" indexada pelo código da célula
+  const filterChecks = Object.entries(query.filters)
+    .filter(([column, values]) => values.length > 0 && table.columns[column])
+    .map(([column, values]) => {
+      const { codes, labels } = labelIndex(table, column);
+      const wanted = new Set(values);
+      return { codes, allowed: Uint8Array.from(labels, l => wanted.has(l) ? 1 : 0) };
+    });
+
+  // A busca testa cada rótulo distinto uma vez, não cada célula
+  const term = query.search.toLowerCase();
+  const searchChecks = term === '' ? null : table.headers
+    .map(column => {
+      const { codes, labels } = labelIndex(table, column);
+      const matched = Uint8Array.from(labels, l => l.toLowerCase().includes(term) ? 1 : 0);
+      return { codes, matched, any: matched.includes(1) };
+    })
+    .filter(check => check.any);
+
+  const predicate = compileAdvancedFilter(query.advanced, schema);
+  const advancedColumns = Array.from(new Set(query.advanced.groups.flatMap(g => g.conditions.map(c => c.column))))
+    .filter(column => table.columns[column]);
+  const row: DataRow = {};
+
+  const out = new Uint32Array(table.length);
+  let count = 0;
+  for (let i = 0; i < table.length; i++) {
+    if (!filterChecks.every(c => c.allowed[c.codes[i]])) continue;
+    if (searchChecks && !searchChecks.some(c => c.matched[c.codes[i]])) continue;
+    if (predicate) {
+      advancedColumns.forEach(column => { row[column] = cellAt(table.columns[column], i); });
+      if (!predicate(row)) continue;
+    }
+    out[count++] = i;
+  }
+  return out.slice(0, count);
+};
+
+const filterByRange = (table: ColumnarTable, indices: Uint32Array, dateColumn: string, range: DateRange) => {
+  const vector = table.columns[dateColumn];
+  if (vector?.kind !== 'date') return new Uint32Array(0);
+  const start = range.start.getTime();
+  const end = addDays(range.end, 1).getTime();
+  return indices.filter(i => vector.values[i] >= start && vector.values[i] < end);
+};
+
+// Valores únicos de cada filtro, ordenados pelo valor original (datas em ordem cronológica)
+const uniqueValues = (table: ColumnarTable, columns: string[]) =>
+  Object.fromEntries(columns.filter(c => table.columns[c]).map(column => {
+    const { labels, sortValues } = labelIndex(table, column);
+    const order = labels.map((_, code) => code)
+      .filter(code => labels[code] !== '')
+      .sort((a, b) => compareValues(sortValues[a], sortValues[b]));
+    return [column, order.map(code => labels[code])];
+  }));
+
+export const runDashboardQuery = (table: ColumnarTable, query: DashboardQuery): DashboardQueryResult => {
+  const schema: DashboardData = { headers: table.headers, types: table.types, rows: [] };
+  const catalog = buildMetricCatalog(schema, query.mapping, query.customMetrics);
+
+  const matching = matchRows(table, query, schema);
+  const filtered = query.range && query.dateColumn ? filterByRange(table, matching, query.dateColumn, query.range) : matching;
+  const comparison = query.previousRange && query.dateColumn ? filterByRange(table, matching, query.dateColumn, query.previousRange) : null;
+
+  const metricValues: Record<string, MetricValue> = {};
+  catalog.filter(m => query.activeMetrics.includes(m.key)).forEach(metric => {
+    metricValues[metric.key] = {
+      value: aggregate(table, filtered, metric),
+      previous: comparison ? aggregate(table, comparison, metric) : null,
+    };
+  });
+
+  return {
+    filtered,
+    uniqueValues: uniqueValues(table, query.filterColumns),
+    stats: computeStats(table, filtered, query.kpiColumns, query.profitModel),
+    previousStats: comparison ? computeStats(table, comparison, query.kpiColumns, query.profitModel) : null,
+    metricValues,
+    widgetSeries: computeWidgetSeries(table, filtered, query.widgets, catalog, schema, query.dateColumn),
+  };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csvParser';
+import { analyzeDataQuality, applyQualityActions } from './dataQuality';
+
+const csv = (lines: string[]) => parseCSV(['Campanha;Gastos', ...lines].join('\n')).data!;
+
+describe('analyzeDataQuality', () => {
+  it('mantém a coluna como moeda e aponta traços e erros mesmo acima de 10% das células', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `C${i};${i < 4 ? 'R$ -' : i === 4 ? '#DIV/0!' : `R$ ${i},00`}`);
+    const data = csv(lines);
+    expect(data.types.Gastos).toBe('currency');
+
+    const report = analyzeDataQuality(data);
+    expect(report.issues.find(i => i.id === 'mixed:Gastos')?.rows).toEqual([0, 1, 2, 3]);
+    expect(report.issues.find(i => i.id === 'error:Gastos')?.samples).toEqual(['#DIV/0!']);
+  });
+
+  it('converte traço contábil em zero e exclui duplicadas', () => {
+    const data = csv(['A;R$ 10,00', 'B;R$ -', 'A;R$ 10,00']);
+    const report = analyzeDataQuality(data);
+    const clean = applyQualityActions(data, report, { 'mixed:Gastos': 'coerce', 'duplicate:*': 'exclude' });
+    expect(clean.rows.map(r => r.Gastos)).toEqual([10, 0]);
+  });
+
+  it('lê o ponto como milhar ao converter valores com unidade', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `C${i};${i + 1}`);
+    const data = csv([...lines, 'X;1.200 un', 'Y;~350']);
+    const report = analyzeDataQuality(data);
+    expect(report.issues.find(i => i.id === 'mixed:Gastos')?.rows).toEqual([20, 21]);
+    const clean = applyQualityActions(data, report, { 'mixed:Gastos': 'coerce' });
+    expect(clean.rows.slice(20).map(r => r.Gastos)).toEqual([1200, 350]);
+  });
+});
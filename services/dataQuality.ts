@@ -0,0 +1,211 @@
+import { CellValue, DashboardData, DataRow } from "../types";
+import { isDashZero, isNumericType, isSpreadsheetError, parseNumeric } from "./columnTypes";
+
+export type QualityIssueKind = 'error' | 'mixed' | 'empty' | 'outlier' | 'duplicate';
+
+// keep: mantém como veio; exclude: tira as linhas do painel; coerce: corrige só as células afetadas
+export type QualityAction = 'keep' | 'exclude' | 'coerce';
+
+// Escolha por problema (id do problema), guardada junto da fonte
+export type QualityChoices = Record<string, QualityAction>;
+
+export interface QualityIssue {
+  // Estável entre recargas da mesma planilha: tipo + coluna
+  id: string;
+  kind: QualityIssueKind;
+  // null para linhas duplicadas, que envolvem a linha inteira
+  column: string | null;
+  // Índices em data.rows
+  rows: number[];
+  // Alguns valores distintos encontrados, para o usuário reconhecer o problema
+  samples: string[];
+  // Valores atípicos: limites usados para a correção
+  bounds?: { low: number, high: number };
+}
+
+export interface QualityReport {
+  issues: QualityIssue[];
+  totalRows: number;
+}
+
+// Linhas que o painel manda para a aba Dados ao clicar em um problema
+export interface QualityFocus {
+  label: string;
+  column: string | null;
+  rows: DataRow[];
+}
+
+export const QUALITY_KIND_LABELS: Record<QualityIssueKind, string> = {
+  error: 'Erro de planilha',
+  mixed: 'Tipo divergente',
+  empty: 'Células vazias',
+  outlier: 'Valores atípicos',
+  duplicate: 'Linhas duplicadas',
+};
+
+export const QUALITY_KIND_HINTS: Record<QualityIssueKind, string> = {
+  error: 'Fórmulas com erro exportadas como texto; sem tratamento contam como zero nas somas.',
+  mixed: 'Células que não seguem o tipo da coluna e ficaram como texto; contam como zero nas somas.',
+  empty: 'Sem valor: somam zero e, na coluna de data, ficam fora de qualquer período.',
+  outlier: 'Muito acima ou abaixo do resto da coluna (3 intervalos interquartis).',
+  duplicate: 'Linhas idênticas a uma anterior; a primeira ocorrência não é marcada.',
+};
+
+// Ações oferecidas por tipo; vazias e duplicadas não têm valor razoável para substituir
+export const QUALITY_ACTIONS: Record<QualityIssueKind, QualityAction[]> = {
+  error: ['keep', 'coerce', 'exclude'],
+  mixed: ['keep', 'coerce', 'exclude'],
+  empty: ['keep', 'exclude'],
+  outlier: ['keep', 'coerce', 'exclude'],
+  duplicate: ['keep', 'exclude'],
+};
+
+export const qualityActionLabel = (kind: QualityIssueKind, action: QualityAction) =>
+  action === 'keep' ? 'Manter' : action === 'exclude' ? 'Excluir linhas'
+    : kind === 'outlier' ? 'Limitar' : kind === 'error' ? 'Tratar como vazio' : 'Converter';
+
+// Tukey com fator 3: só sinaliza o que está muito fora, não a cauda natural de gasto e receita
+const OUTLIER_FACTOR = 3;
+const MIN_OUTLIER_SAMPLE = 20;
+const MAX_SAMPLES = 5;
+
+// 1.200 | 12.500.000: grupos de três dígitos separados por ponto, sem vírgula decimal
+const PT_THOUSANDS_RE = /^[-+]?\d{1,3}(\.\d{3})+$/;
+
+const isErrorCell = (value: CellValue | undefined) => typeof value === 'string' && isSpreadsheetError(value);
+
+const isEmpty = (value: CellValue | undefined) => value === '' || value === undefined || value === null;
+
+const sampleOf = (values: CellValue[]) =>
+  Array.from(new Set(values.map(v => String(v)))).slice(0, MAX_SAMPLES);
+
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const base = Math.floor(position);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (position - base) * (next - sorted[base]);
+};
+
+const rowKey = (row: DataRow, headers: string[]) =>
+  JSON.stringify(headers.map(h => row[h] instanceof Date ? (row[h] as Date).getTime() : row[h]));
+
+// Um problema por tipo e coluna; colunas calculadas no carregamento (UTMs) herdam os problemas da original
+export const analyzeDataQuality = (data: DashboardData): QualityReport => {
+  const virtual = new Set(data.virtualColumns ?? []);
+  const headers = data.headers.filter(h => !virtual.has(h));
+  const issues: QualityIssue[] = [];
+  const push = (kind: QualityIssueKind, column: string | null, rows: number[], extra: Partial<QualityIssue> = {}) => {
+    if (!rows.length) return;
+    issues.push({
+      id: `${kind}:${column ?? '*'}`,
+      kind,
+      column,
+      rows,
+      samples: column ? sampleOf(rows.map(i => data.rows[i][column])) : [],
+      ...extra,
+    });
+  };
+
+  headers.forEach(column => {
+    const type = data.types[column];
+    const typed = isNumericType(type) || type === 'date';
+    const errors: number[] = [];
+    const mixed: number[] = [];
+    const empty: number[] = [];
+    const numbers: { index: number, value: number }[] = [];
+
+    data.rows.forEach((row, index) => {
+      const value = row[column];
+      if (isEmpty(value)) empty.push(index);
+      else if (isErrorCell(value)) errors.push(index);
+      else if (typed && typeof value === 'string') mixed.push(index);
+      else if (typeof value === 'number' && isFinite(value)) numbers.push({ index, value });
+    });
+
+    push('error', column, errors);
+    push('mixed', column, mixed);
+    // Vazio em coluna de texto é comum (UTM ausente, campanha sem conjunto); só conta onde vira zero ou some do período
+    if (typed) push('empty', column, empty);
+
+    if (isNumericType(type) && numbers.length >= MIN_OUTLIER_SAMPLE) {
+      const sorted = numbers.map(n => n.value).sort((a, b) => a - b);
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const spread = q3 - q1;
+      // Coluna quase constante: qualquer variação viraria "atípica"
+      if (spread > 0) {
+        const bounds = { low: q1 - OUTLIER_FACTOR * spread, high: q3 + OUTLIER_FACTOR * spread };
+        push('outlier', column, numbers.filter(n => n.value < bounds.low || n.value > bounds.high).map(n => n.index), { bounds });
+      }
+    }
+  });
+
+  const seen = new Set<string>();
+  const duplicates: number[] = [];
+  data.rows.forEach((row, index) => {
+    const key = rowKey(row, headers);
+    if (seen.has(key)) duplicates.push(index);
+    else seen.add(key);
+  });
+  push('duplicate', null, duplicates);
+
+  return { issues, totalRows: data.rows.length };
+};
+
+// Valor corrigido de uma célula; null quando não há correção (a célula fica como está)
+const coerceCell = (issue: QualityIssue, value: CellValue, data: DashboardData): CellValue | null => {
+  const type = issue.column ? data.types[issue.column] : undefined;
+  if (issue.kind === 'outlier' && issue.bounds && typeof value === 'number') {
+    const clamped = Math.min(issue.bounds.high, Math.max(issue.bounds.low, value));
+    return type === 'integer' ? Math.round(clamped) : clamped;
+  }
+  if (issue.kind === 'error') return '';
+  if (issue.kind === 'mixed') {
+    if (type === 'date') return '';
+    const text = String(value).trim();
+    if (isDashZero(text)) return 0;
+    // Sobras como "1.200 un" ou "~350": aproveita os dígitos; o que não tiver número vira vazio.
+    // Sem o símbolo de moeda, parseNumeric leria "1.200" como 1,2; aqui vale o padrão pt-BR de ponto como milhar.
+    const digits = text.replace(/[^\d.,+-]/g, '');
+    return parseNumeric(PT_THOUSANDS_RE.test(digits) ? digits.replace(/\./g, '') : digits) ?? '';
+  }
+  return null;
+};
+
+// Dados que o painel enxerga depois das escolhas; a fonte original continua intacta para refazer a análise
+export const applyQualityActions = (data: DashboardData, report: QualityReport, choices: QualityChoices): DashboardData => {
+  const excluded = new Set<number>();
+  const patches = new Map<number, Record<string, CellValue>>();
+
+  report.issues.forEach(issue => {
+    const action = choices[issue.id] ?? 'keep';
+    if (!QUALITY_ACTIONS[issue.kind].includes(action)) return;
+    if (action === 'exclude') issue.rows.forEach(i => excluded.add(i));
+    if (action === 'coerce' && issue.column) {
+      const column = issue.column;
+      issue.rows.forEach(i => {
+        const next = coerceCell(issue, data.rows[i][column], data);
+        if (next === null) return;
+        patches.set(i, { ...patches.get(i), [column]: next });
+      });
+    }
+  });
+
+  if (!excluded.size && !patches.size) return data;
+  const rows: DataRow[] = [];
+  data.rows.forEach((row, i) => {
+    if (excluded.has(i)) return;
+    const patch = patches.get(i);
+    rows.push(patch ? { ...row, ...patch } : row);
+  });
+  return { ...data, rows };
+};
+
+// Quantas linhas as escolhas atuais tiram do painel (contando uma vez as que aparecem em vários problemas)
+export const excludedRowCount = (report: QualityReport, choices: QualityChoices) => {
+  const excluded = new Set<number>();
+  report.issues.forEach(issue => {
+    if (choices[issue.id] === 'exclude') issue.rows.forEach(i => excluded.add(i));
+  });
+  return excluded.size;
+};
@@ -0,0 +1,63 @@
+// Web Worker: leitura de CSV e consultas do Dashboard fora da thread da interface.
+// Guarda uma única tabela colunar por vez; o cliente reenvia se pedir outra.
+import { ColumnarTable, toColumnar, transferablesOf } from "./columnar";
+import { DashboardQuery, DashboardQueryResult, runDashboardQuery } from "./dashboardQuery";
+import { IngestProgress, ingestCsv } from "./ingest";
+import { CsvParseError } from "./csvParser";
+
+export type WorkerRequest =
+  | { type: 'parse', id: number, datasetId: string, source: Blob | string }
+  | { type: 'load', datasetId: string, table: ColumnarTable }
+  | { type: 'query', id: number, datasetId: string, query: DashboardQuery };
+
+export type WorkerResponse =
+  | { type: 'progress', id: number, progress: IngestProgress }
+  | { type: 'parsed', id: number, table: ColumnarTable | null, errors: CsvParseError[] }
+  | { type: 'result', id: number, result: DashboardQueryResult }
+  | { type: 'error', id: number, message: string };
+
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+// Índices do recorte e dos funis com filtro próprio vão sem cópia
+const resultTransferables = (result: DashboardQueryResult): ArrayBuffer[] => [
+  result.filtered.buffer as ArrayBuffer,
+  ...Object.values(result.widgetSeries).flatMap(series =>
+    series.kind === 'rows' && series.indices ? [series.indices.buffer as ArrayBuffer] : []),
+];
+
+let current: { datasetId: string, table: ColumnarTable } | null = null;
+
+const parse = async (id: number, datasetId: string, source: Blob | string) => {
+  const { data, errors } = await ingestCsv(source, progress => scope.postMessage({ type: 'progress', id, progress }));
+  if (!data) {
+    scope.postMessage({ type: 'parsed', id, table: null, errors });
+    return;
+  }
+  const table = toColumnar(data);
+  current = { datasetId, table };
+  // Transferir esvaziaria os buffers daqui; a cópia mantida no worker responde às consultas
+  const copy = structuredClone(table);
+  scope.postMessage({ type: 'parsed', id, table: copy, errors }, transferablesOf(copy));
+};
+
+scope.onmessage = async ({ data: request }) => {
+  if (request.type === 'load') {
+    current = { datasetId: request.datasetId, table: request.table };
+    return;
+  }
+  try {
+    if (request.type === 'parse') {
+      await parse(request.id, request.datasetId, request.source);
+    } else if (current?.datasetId !== request.datasetId) {
+      scope.postMessage({ type: 'error', id: request.id, message: 'Dataset não carregado no worker.' });
+    } else {
+      const result = runDashboardQuery(current.table, request.query);
+      scope.postMessage({ type: 'result', id: request.id, result }, resultTransferables(result));
+    }
+  } catch (error) {
+    scope.postMessage({ type: 'error', id: request.id, message: (error as Error).message });
+  }
+};
@@ -0,0 +1,121 @@
+import { DashboardData } from "../types";
+import { ColumnarTable, fromColumnar, toColumnar, transferablesOf } from "./columnar";
+import { DashboardQuery, DashboardQueryResult, runDashboardQuery } from "./dashboardQuery";
+import { IngestProgress, IngestResult, ingestCsv } from "./ingest";
+import type { WorkerRequest, WorkerResponse } from "./dataWorker";
+
+// Omit distribuído pela união: cada variante perde o id, que é atribuído no envio
+type OutgoingRequest<T = Extract<WorkerRequest, { id: number }>> = T extends unknown ? Omit<T, 'id'> : never;
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+// undefined: ainda não criado; null: navegador sem suporte ou worker falhou ao carregar
+let worker: Worker | null | undefined;
+let nextId = 0;
+const pending = new Map<number, PendingRequest>();
+
+// O worker guarda uma tabela por vez; cada DashboardData ganha um id para saber se precisa reenviar
+const datasetIds = new WeakMap<DashboardData, string>();
+let loadedDataset: string | null = null;
+
+const newDatasetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const datasetIdOf = (data: DashboardData) => {
+  let id = datasetIds.get(data);
+  if (!id) datasetIds.set(data, id = newDatasetId());
+  return id;
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    worker = null;
+    return null;
+  }
+  worker.onmessage = ({ data: response }: MessageEvent<WorkerResponse>) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  };
+  // Worker que não carrega (ex.: CSP) derruba os pedidos em andamento; dali em diante tudo roda na thread principal
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    loadedDataset = null;
+    pending.forEach(p => p.reject(new Error('Worker de dados indisponível.')));
+    pending.clear();
+  };
+  return worker;
+};
+
+const send = (
+  target: Worker,
+  message: OutgoingRequest,
+  onProgress?: (progress: IngestProgress) => void
+): Promise<WorkerResponse> => {
+  const id = ++nextId;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+    target.postMessage({ ...message, id });
+  });
+};
+
+export const parseCsv = async (source: Blob | string, onProgress: (progress: IngestProgress) => void): Promise<IngestResult> => {
+  const target = getWorker();
+  if (!target) return ingestCsv(source, onProgress);
+  const datasetId = newDatasetId();
+  let response: WorkerResponse;
+  try {
+    response = await send(target, { type: 'parse', datasetId, source }, onProgress);
+  } catch (error) {
+    // Só refaz aqui se o worker caiu; erro de leitura do próprio arquivo se repetiria
+    if (worker === null) return ingestCsv(source, onProgress);
+    throw error;
+  }
+  if (response.type !== 'parsed') throw new Error('Resposta inesperada do worker.');
+  if (!response.table) return { data: null, errors: response.errors };
+  // O worker já mantém esta tabela: a primeira consulta não precisa reenviá-la
+  const data = fromColumnar(response.table);
+  datasetIds.set(data, datasetId);
+  loadedDataset = datasetId;
+  return { data, errors: response.errors };
+};
+
+const localTables = new WeakMap<DashboardData, ColumnarTable>();
+
+const queryLocally = (data: DashboardData, query: DashboardQuery) => {
+  let table = localTables.get(data);
+  if (!table) localTables.set(data, table = toColumnar(data));
+  return runDashboardQuery(table, query);
+};
+
+export const queryDashboard = async (data: DashboardData, query: DashboardQuery): Promise<DashboardQueryResult> => {
+  const target = getWorker();
+  if (!target) return queryLocally(data, query);
+  const datasetId = datasetIdOf(data);
+  if (loadedDataset !== datasetId) {
+    const table = toColumnar(data);
+    target.postMessage({ type: 'load', datasetId, table } satisfies WorkerRequest, transferablesOf(table));
+    loadedDataset = datasetId;
+  }
+  try {
+    const response = await send(target, { type: 'query', datasetId, query });
+    if (response.type === 'result') return response.result;
+  } catch {
+    // Outra tabela entrou no worker no meio do caminho, ou ele caiu: reenvia na próxima e responde daqui
+    loadedDataset = null;
+  }
+  return queryLocally(data, query);
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ExportTable, toCsv } from './exporter';
+
+const csvLines = (table: ExportTable) => toCsv(table).replace(/^\uFEFF/, '').split('\r\n');
+
+describe('toCsv', () => {
+  it('neutraliza textos que o Excel abriria como fórmula', () => {
+    const lines = csvLines({
+      name: 'Anúncios',
+      columns: [{ label: 'Anúncio', format: 'string' }],
+      rows: [['=HYPERLINK("x")'], ['+55 11'], ['-10%'], ['@SOMA(A1)'], ['\tTab'], ['\rCR'], ['Ad 01']],
+    });
+    expect(lines.slice(1)).toEqual([`"'=HYPERLINK(""x"")"`, `'+55 11`, `'-10%`, `'@SOMA(A1)`, `'\tTab`, `"'\rCR"`, 'Ad 01']);
+  });
+
+  it('escreve números negativos sem aspas e com vírgula decimal', () => {
+    const lines = csvLines({
+      name: 'Totais',
+      columns: [{ label: 'Lucro; bruto', format: 'currency' }, { label: 'CTR', format: 'percent' }, { label: 'ROAS', format: 'ratio' }],
+      rows: [[-1234.5, 12.5, Infinity], [null, '', 2]],
+    });
+    expect(lines).toEqual(['"Lucro; bruto";CTR;ROAS', '-1234,50;12,5%;', ';;2,00']);
+  });
+
+  it('começa com BOM para o Excel reconhecer UTF-8', () => {
+    expect(toCsv({ name: 'x', columns: [{ label: 'Nome', format: 'string' }], rows: [] })).toBe('\uFEFFNome');
+  });
+});
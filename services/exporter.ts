@@ -0,0 +1,170 @@
+import { CellValue, ColumnType, DataRow } from "../types";
+import { formatDate } from "./formatters";
+import { CompiledMetric, MetricFormat } from "./metrics";
+import { PivotConfig, PivotNode, PivotResult, PivotValue, aggregateValue, pivotValueLabel } from "./pivot";
+import { TableColumn, cellValue } from "./tableView";
+import { toInputDate } from "./periods";
+
+export type ExportFormat = ColumnType | MetricFormat;
+
+export interface ExportColumn {
+  label: string;
+  format: ExportFormat;
+}
+
+export type ExportCell = CellValue | null;
+
+// Tabela já resolvida (valores brutos + formato por coluna), pronta para CSV ou XLSX
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+// Excel em pt-BR abre ";" direto; vírgula é o separador decimal
+const CSV_DELIMITER = ';';
+
+const XLSX_FORMATS: Partial<Record<ExportFormat, string>> = {
+  currency: '"R$" #,##0.00',
+  percent: '0.00%',
+  integer: '#,##0',
+  number: '#,##0.00',
+  ratio: '0.00"x"',
+  date: 'dd/mm/yyyy',
+};
+
+const MAX_SHEET_NAME = 31;
+
+// Sem separador de milhar: "1234,56" é lido como número pelo Excel e pelo Sheets em pt-BR
+const csvNumber = (value: number, format: ExportFormat) => {
+  const fixed = format === 'currency' || format === 'ratio';
+  const text = value.toLocaleString('pt-BR', {
+    useGrouping: false,
+    minimumFractionDigits: fixed ? 2 : 0,
+    maximumFractionDigits: format === 'integer' ? 0 : fixed ? 2 : 6,
+  });
+  return format === 'percent' ? `${text}%` : text;
+};
+
+const csvCell = (value: ExportCell, format: ExportFormat): string => {
+  if (value === null || value === undefined || value === '') return '';
+  let text: string;
+  if (value instanceof Date) text = formatDate(value);
+  else if (typeof value === 'number') text = isFinite(value) ? csvNumber(value, format) : '';
+  // Texto que começa com "=", "+", "-", "@", tab ou CR viraria fórmula ao abrir a planilha
+  else text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable): string => {
+  const lines = [
+    table.columns.map(c => csvCell(c.label, 'string')).join(CSV_DELIMITER),
+    ...table.rows.map(row => row.map((v, i) => csvCell(v, table.columns[i].format)).join(CSV_DELIMITER)),
+  ];
+  // BOM para o Excel reconhecer UTF-8 (acentos)
+  return `\uFEFF${lines.join('\r\n')}`;
+};
+
+const xlsxValue = (value: ExportCell, format: ExportFormat): CellValue | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return null;
+    // Percentuais da planilha vêm como 12,5 (= 12,5%); o Excel espera 0,125
+    return format === 'percent' ? value / 100 : value;
+  }
+  return value;
+};
+
+const sheetName = (name: string, used: Set<string>) => {
+  const base = (name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Dados').slice(0, MAX_SHEET_NAME);
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = `${base.slice(0, MAX_SHEET_NAME - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Uma aba por tabela, com números e datas como células nativas e formato pt-BR aplicado pelo Excel
+export const toXlsx = async (tables: ExportTable[]): Promise<Blob> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  tables.forEach(table => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      table.columns.map(c => c.label),
+      ...table.rows.map(row => row.map((v, i) => xlsxValue(v, table.columns[i].format))),
+    ]);
+    table.rows.forEach((row, r) => row.forEach((value, c) => {
+      const cell = sheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+      if (!cell || cell.t !== 'n') return;
+      const hasTime = value instanceof Date && (value.getHours() || value.getMinutes());
+      cell.z = hasTime ? 'dd/mm/yyyy hh:mm' : value instanceof Date ? XLSX_FORMATS.date : XLSX_FORMATS[table.columns[c].format];
+    }));
+    sheet['!cols'] = table.columns.map(c => ({ wch: Math.min(40, Math.max(12, c.label.length + 2)) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(table.name, used));
+  });
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// "Campanhas Junho" -> "campanhas-junho-2024-06-30"
+export const exportFileName = (name: string, extension: string) => {
+  const slug = name
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'export'}-${toInputDate(new Date())}.${extension}`;
+};
+
+// Linhas na ordem e nas colunas visíveis da tabela de auditoria
+export const tableToExport = (name: string, rows: DataRow[], columns: TableColumn[]): ExportTable => ({
+  name,
+  columns: columns.map(c => ({ label: c.label, format: c.metric ? c.metric.format : c.type ?? 'string' })),
+  rows: rows.map(row => columns.map(c => cellValue(row, c) ?? null)),
+});
+
+// Árvore completa do pivô (independente do que está expandido), um nível por coluna, com a linha de total no fim
+export const pivotToExport = (
+  name: string,
+  pivot: PivotResult,
+  config: PivotConfig,
+  values: { value: PivotValue, metric: CompiledMetric }[]
+): ExportTable => {
+  const columnKeys = config.column ? pivot.columns.map(c => c.key) : [];
+  const valueFormat = ({ value, metric }: { value: PivotValue, metric: CompiledMetric }): ExportFormat =>
+    value.aggregation === 'count' ? 'integer' : metric.format;
+
+  const columns: ExportColumn[] = [
+    ...config.rows.map(r => ({ label: r.column, format: 'string' as const })),
+    ...(config.column ? pivot.columns : []).flatMap(c => values.map(v => ({ label: `${c.label} · ${pivotValueLabel(v.value, v.metric)}`, format: valueFormat(v) }))),
+    ...values.map(v => ({ label: columnKeys.length ? `Total · ${pivotValueLabel(v.value, v.metric)}` : pivotValueLabel(v.value, v.metric), format: valueFormat(v) })),
+  ];
+
+  const valueCells = (node: PivotNode) => [
+    ...columnKeys.flatMap(key => values.map(({ value, metric }) => aggregateValue(node.cells.get(key) ?? [], value, metric))),
+    ...values.map(({ value, metric }) => aggregateValue(node.rows, value, metric)),
+  ];
+
+  const rows: ExportCell[][] = [];
+  const walk = (node: PivotNode, path: string[]) => node.children.forEach(child => {
+    const labels = [...path, child.label];
+    rows.push([...labels, ...new Array(config.rows.length - labels.length).fill(''), ...valueCells(child)]);
+    walk(child, labels);
+  });
+  walk(pivot.root, []);
+  rows.push(['Total', ...new Array(Math.max(0, config.rows.length - 1)).fill(''), ...valueCells(pivot.root)]);
+
+  return { name, columns, rows };
+};
@@ -0,0 +1,28 @@
+import { CellValue, ColumnType } from "../types";
+
+export const formatBRL = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const formatDate = (d: Date) => {
+  const hasTime = d.getHours() !== 0 || d.getMinutes() !== 0 || d.getSeconds() !== 0;
+  return hasTime
+    ? d.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+    : d.toLocaleDateString('pt-BR');
+};
+
+// Formatação a partir do tipo inferido da coluna, não do nome do cabeçalho
+export const formatValue = (value: CellValue | undefined | null, type: ColumnType | undefined): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value !== 'number') return String(value);
+
+  switch (type) {
+    case 'currency':
+      return formatBRL(value);
+    case 'percent':
+      return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%`;
+    case 'integer':
+      return value.toLocaleString('pt-BR', { maximumFractionDigits: 0 });
+    default:
+      return value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+  }
+};
@@ -0,0 +1,148 @@
+import { ColumnMapping, DashboardData, DataRow } from "../types";
+import { isNumericType } from "./columnTypes";
+import { formatValue } from "./formatters";
+import { isRatioColumn, sumColumns } from "./metrics";
+
+// Etapa do funil: uma coluna de contagem (impressões, cliques, checkouts...) na ordem do funil
+export interface FunnelStage {
+  column: string;
+  label: string;
+}
+
+export interface FunnelStep {
+  stage: FunnelStage;
+  value: number;
+  // % da etapa anterior que chegou aqui; null na primeira etapa ou quando a anterior é zero
+  conversion: number | null;
+  // % da primeira etapa que chegou aqui
+  fromTop: number | null;
+  // Quantos ficaram entre a etapa anterior e esta
+  dropOff: number;
+}
+
+export interface FunnelSegment {
+  entity: string;
+  steps: FunnelStep[];
+  // Passagem com a pior conversão em relação ao funil geral: onde este segmento perde mais gente
+  weakestStep: number | null;
+}
+
+export interface FunnelConfig {
+  stages: FunnelStage[];
+  // Dimensão usada para comparar segmentos (campanha, anúncio, utm_source...)
+  dimension: string | null;
+}
+
+// Segmentos com mais volume na primeira etapa; o resto fica de fora da comparação
+export const MAX_FUNNEL_SEGMENTS = 8;
+
+// Conversão abaixo desta fração da conversão geral destaca a etapa como gargalo
+const WEAK_STEP_RATIO = 0.7;
+
+const STORAGE_KEY = 'utmdash:funnels';
+
+const normalize = (h: string) => h.trim().toLowerCase();
+
+// Ordem natural de um funil de anúncio; cada etapa reconhece nomes em pt-BR e nos exports do Meta/Google
+const STAGE_KEYWORDS: { label: string, role?: 'impressions' | 'clicks' | 'sales', keywords: string[], exclude?: string[] }[] = [
+  { label: 'Impressões', role: 'impressions', keywords: ['impressões', 'impressoes', 'impressions'] },
+  { label: 'Cliques', role: 'clicks', keywords: ['cliques no link', 'link clicks', 'cliques', 'clicks'], exclude: ['cpc', 'ctr', 'custo'] },
+  { label: 'Visualizações da página', keywords: ['visualizações da página de destino', 'visualizacoes da pagina de destino', 'landing page views', 'page views', 'visualizações da página'], exclude: ['custo', 'cost'] },
+  { label: 'Checkouts', keywords: ['finalizações de compra iniciadas', 'finalizacoes de compra iniciadas', 'checkouts iniciados', 'initiate checkout', 'initiated checkout', 'checkout'], exclude: ['custo', 'cost', 'valor', 'value'] },
+  { label: 'Compras', role: 'sales', keywords: ['compras', 'purchases', 'vendas', 'conversões'], exclude: ['custo', 'cost', 'valor', 'value'] },
+];
+
+// Funil sugerido: usa o mapeamento onde ele existe e procura pelo nome as etapas que o mapeamento não cobre
+export const suggestFunnel = (data: DashboardData, mapping: ColumnMapping): FunnelStage[] => {
+  const numeric = data.headers.filter(h => isNumericType(data.types[h]) && data.types[h] !== 'currency' && !isRatioColumn(h, data.types[h]));
+  const used = new Set<string>();
+  const stages: FunnelStage[] = [];
+  STAGE_KEYWORDS.forEach(({ label, role, keywords, exclude = [] }) => {
+    const mapped = role ? mapping[role] : undefined;
+    const column = mapped && numeric.includes(mapped) && !used.has(mapped)
+      ? mapped
+      : keywords
+        .map(k => numeric.find(h => !used.has(h) && normalize(h).includes(k) && !exclude.some(e => normalize(h).includes(e))))
+        .find(Boolean);
+    if (!column) return;
+    used.add(column);
+    stages.push({ column, label });
+  });
+  return stages;
+};
+
+const stepsFromSums = (sums: Record<string, number>, stages: FunnelStage[]): FunnelStep[] =>
+  stages.map((stage, i) => {
+    const value = sums[stage.column] ?? 0;
+    const previous = i > 0 ? sums[stages[i - 1].column] ?? 0 : null;
+    const top = sums[stages[0].column] ?? 0;
+    return {
+      stage,
+      value,
+      conversion: previous ? (value / previous) * 100 : null,
+      fromTop: i === 0 ? 100 : top ? (value / top) * 100 : null,
+      dropOff: previous !== null ? Math.max(0, previous - value) : 0,
+    };
+  });
+
+export const buildFunnel = (rows: DataRow[], stages: FunnelStage[]): FunnelStep[] =>
+  stages.length ? stepsFromSums(sumColumns(rows, stages.map(s => s.column)), stages) : [];
+
+// Um funil por valor da dimensão, comparando cada passagem com a mesma passagem do funil geral
+export const splitFunnel = (
+  rows: DataRow[],
+  stages: FunnelStage[],
+  dimension: string,
+  data: DashboardData,
+  overall: FunnelStep[]
+): FunnelSegment[] => {
+  if (!stages.length) return [];
+  const groups = new Map<string, DataRow[]>();
+  rows.forEach(row => {
+    const entity = formatValue(row[dimension], data.types[dimension]) || '(vazio)';
+    const group = groups.get(entity);
+    if (group) group.push(row);
+    else groups.set(entity, [row]);
+  });
+
+  return Array.from(groups, ([entity, groupRows]) => {
+    const steps = buildFunnel(groupRows, stages);
+    let weakestStep: number | null = null;
+    let weakestRatio = WEAK_STEP_RATIO;
+    steps.forEach((step, i) => {
+      const reference = overall[i]?.conversion;
+      if (step.conversion === null || !reference) return;
+      const ratio = step.conversion / reference;
+      if (ratio < weakestRatio) {
+        weakestRatio = ratio;
+        weakestStep = i;
+      }
+    });
+    return { entity, steps, weakestStep };
+  })
+    .sort((a, b) => b.steps[0].value - a.steps[0].value)
+    .slice(0, MAX_FUNNEL_SEGMENTS);
+};
+
+const loadFunnels = (): Record<string, FunnelConfig> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Configuração salva por planilha (assinatura dos cabeçalhos), descartando colunas que sumiram
+export const loadFunnelConfig = (signature: string, data: DashboardData): FunnelConfig | null => {
+  const saved = loadFunnels()[signature];
+  if (!saved || !Array.isArray(saved.stages)) return null;
+  return {
+    stages: saved.stages.filter(s => s && data.headers.includes(s.column)),
+    dimension: saved.dimension && data.headers.includes(saved.dimension) ? saved.dimension : null,
+  };
+};
+
+export const saveFunnelConfig = (signature: string, config: FunnelConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadFunnels(), [signature]: config }));
+};
@@ -1,42 +1,42 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { DashboardData } from "../types";
+import { GoogleGenAI } from "@google/genai";
+import { LlmError, toLlmError } from "./llmErrors";
 
-export const analyzeDataWithGemini = async (data: DashboardData): Promise<string> => {
-  // Use process.env.API_KEY directly as per guidelines
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Sample data to keep tokens low while providing context
-  const sampleData = data.rows.slice(0, 10);
-  const columnSummary = Object.keys(data.types).map(k => `${k} (${data.types[k]})`).join(', ');
+// Pedido genérico de resposta JSON; o mesmo formato é enviado ao proxy local
+export interface LlmRequest {
+  model: string;
+  prompt: string;
+  schema: object;
+  temperature: number;
+}
 
-  const prompt = `
-    Analyze the following data summary from a user's spreadsheet.
-    Columns: ${columnSummary}
-    Row count: ${data.rows.length}
-    Sample Data (first 10 rows): ${JSON.stringify(sampleData)}
-
-    Provide a concise analysis in Portuguese focusing on:
-    1. Key trends or anomalies discovered.
-    2. A brief business summary.
-    3. Three actionable recommendations based on the numbers.
-    
-    Format the output in professional Markdown.
-  `;
+// Chamada direta ao Gemini. Roda no navegador (com chave informada pelo usuário) ou no proxy do Vite (chave do servidor).
+export const generateGeminiJson = async (request: LlmRequest, apiKey: string | undefined): Promise<unknown> => {
+  if (!apiKey) throw new LlmError('config', 'Nenhuma chave do Gemini configurada.');
+  const ai = new GoogleGenAI({ apiKey });
 
+  let text: string | undefined;
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
+      model: request.model,
+      contents: request.prompt,
       config: {
-        temperature: 0.7,
+        temperature: request.temperature,
         topP: 0.95,
+        responseMimeType: 'application/json',
+        responseSchema: request.schema,
       }
     });
-
-    return response.text || "Não foi possível gerar insights no momento.";
+    text = response.text;
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "Erro ao processar análise inteligente. Verifique sua conexão ou volume de dados.";
+    console.error("Gemini Error:", error);
+    throw toLlmError(error);
+  }
+
+  if (!text) throw new LlmError('invalid_response', 'O Gemini devolveu uma resposta vazia.');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LlmError('invalid_response', 'O Gemini devolveu um JSON inválido.');
   }
 };
@@ -0,0 +1,50 @@
+import { DashboardData } from "../types";
+import { CsvParseError, parseCSVTable } from "./csvParser";
+import { buildDashboardData } from "./columnTypes";
+import { withUtmColumns } from "./utm";
+
+export type IngestPhase = 'read' | 'parse' | 'types';
+
+export interface IngestProgress {
+  phase: IngestPhase;
+  // 0 a 1 dentro da fase atual
+  ratio: number;
+}
+
+export interface IngestResult {
+  data: DashboardData | null;
+  errors: CsvParseError[];
+}
+
+export const INGEST_PHASE_LABELS: Record<IngestPhase, string> = {
+  read: 'Lendo arquivo',
+  parse: 'Interpretando linhas',
+  types: 'Detectando tipos',
+};
+
+// Lê o arquivo em blocos, avisando quantos bytes já chegaram
+const readStream = async (file: Blob, onProgress: (p: IngestProgress) => void): Promise<string> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    chunks.push(decoder.decode(value, { stream: true }));
+    onProgress({ phase: 'read', ratio: file.size ? loaded / file.size : 1 });
+  }
+  chunks.push(decoder.decode());
+  return chunks.join('');
+};
+
+// Caminho completo de um CSV até o DashboardData, com UTMs extraídas; roda no worker
+export const ingestCsv = async (source: Blob | string, onProgress: (p: IngestProgress) => void): Promise<IngestResult> => {
+  const text = typeof source === 'string' ? source : await readStream(source, onProgress);
+  onProgress({ phase: 'parse', ratio: 0 });
+  const { headers, records, errors } = parseCSVTable(text, ratio => onProgress({ phase: 'parse', ratio }));
+  if (headers.length === 0) return { data: null, errors };
+  onProgress({ phase: 'types', ratio: 0 });
+  return { data: withUtmColumns(buildDashboardData(headers, records)), errors };
+};
@@ -0,0 +1,131 @@
+import { ColumnMapping, DashboardData, DataRow } from "../types";
+import { formatValue } from "./formatters";
+import { Kpis } from "./kpis";
+import { CompiledMetric, aggregateMetric, sumColumns } from "./metrics";
+import { DateRange, toInputDate } from "./periods";
+import { Granularity, buildTimeSeries } from "./timeSeries";
+
+export interface EntityAggregate {
+  name: string;
+  rows: number;
+  revenue: number;
+  spend: number;
+  sales: number;
+  roas: number | null;
+}
+
+// Resumo enviado à IA: agregados do recorte filtrado em vez de linhas brutas
+export interface InsightContext {
+  period: { start: string, end: string } | null;
+  rowCount: number;
+  kpis: {
+    faturamento: number;
+    investido: number;
+    impostos: number;
+    taxas: number;
+    cmv: number;
+    lucro: number;
+    roas: number;
+    vendas: number;
+  };
+  metrics: Record<string, number | null>;
+  dimension: string | null;
+  top: EntityAggregate[];
+  bottom: EntityAggregate[];
+  trend: { granularity: Granularity, points: { periodo: string, faturamento: number, investido: number, roas: number | null }[] } | null;
+}
+
+interface InsightContextInput {
+  data: DashboardData;
+  rows: DataRow[];
+  mapping: ColumnMapping;
+  kpis: Kpis;
+  metrics: CompiledMetric[];
+  range: DateRange | null;
+}
+
+const ENTITY_LIMIT = 5;
+// Acima disso a tendência diária vira semanal para manter o prompt enxuto
+const MAX_TREND_POINTS = 60;
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+const aggregateBy = (rows: DataRow[], data: DashboardData, dimension: string, mapping: ColumnMapping): EntityAggregate[] => {
+  const groups: Record<string, DataRow[]> = {};
+  rows.forEach(row => {
+    const key = formatValue(row[dimension], data.types[dimension]) || 'N/A';
+    (groups[key] ||= []).push(row);
+  });
+  const columns = [mapping.revenue, mapping.spend, mapping.sales].filter((c): c is string => !!c);
+  return Object.entries(groups).map(([name, groupRows]) => {
+    const sums = sumColumns(groupRows, columns);
+    const revenue = mapping.revenue ? sums[mapping.revenue] : 0;
+    const spend = mapping.spend ? sums[mapping.spend] : 0;
+    return {
+      name,
+      rows: groupRows.length,
+      revenue: round(revenue),
+      spend: round(spend),
+      sales: mapping.sales ? sums[mapping.sales] : 0,
+      roas: spend > 0 ? round(revenue / spend) : null,
+    };
+  });
+};
+
+// Melhores e piores por ROAS entre os que tiveram gasto; sem gasto mapeado, ordena por faturamento
+const rankEntities = (entities: EntityAggregate[]) => {
+  const ranked = entities.some(e => e.roas !== null)
+    ? entities.filter(e => e.roas !== null).sort((a, b) => b.roas! - a.roas! || b.spend - a.spend)
+    : [...entities].sort((a, b) => b.revenue - a.revenue);
+  const top = ranked.slice(0, ENTITY_LIMIT);
+  const bottom = ranked.slice(Math.max(ENTITY_LIMIT, ranked.length - ENTITY_LIMIT)).reverse();
+  return { top, bottom };
+};
+
+const buildTrend = (rows: DataRow[], dateColumn: string, mapping: ColumnMapping): InsightContext['trend'] => {
+  const columns = [mapping.revenue, mapping.spend].filter((c): c is string => !!c);
+  let granularity: Granularity = 'day';
+  let buckets = buildTimeSeries(rows, dateColumn, columns, granularity);
+  if (buckets.length > MAX_TREND_POINTS) {
+    granularity = 'week';
+    buckets = buildTimeSeries(rows, dateColumn, columns, granularity);
+  }
+  if (buckets.length === 0) return null;
+  return {
+    granularity,
+    points: buckets.slice(-MAX_TREND_POINTS).map(b => {
+      const revenue = mapping.revenue ? b.sums[mapping.revenue] : 0;
+      const spend = mapping.spend ? b.sums[mapping.spend] : 0;
+      return { periodo: b.key, faturamento: round(revenue), investido: round(spend), roas: spend > 0 ? round(revenue / spend) : null };
+    }),
+  };
+};
+
+export const buildInsightContext = ({ data, rows, mapping, kpis, metrics, range }: InsightContextInput): InsightContext => {
+  const dimension = mapping.adName || mapping.campaign || null;
+  const ranked = dimension ? rankEntities(aggregateBy(rows, data, dimension, mapping)) : { top: [], bottom: [] };
+  const dateColumn = mapping.date && data.types[mapping.date] === 'date' ? mapping.date : undefined;
+
+  return {
+    period: range ? { start: toInputDate(range.start), end: toInputDate(range.end) } : null,
+    rowCount: rows.length,
+    kpis: {
+      faturamento: round(kpis.fat),
+      investido: round(kpis.gas),
+      impostos: round(kpis.imp),
+      taxas: round(kpis.taxas),
+      cmv: round(kpis.cmv),
+      lucro: round(kpis.luc),
+      roas: round(kpis.roas),
+      vendas: kpis.vendas,
+    },
+    metrics: Object.fromEntries(metrics.map(m => {
+      const value = aggregateMetric(rows, m);
+      return [m.label, value === null ? null : round(value)];
+    })),
+    dimension,
+    top: ranked.top,
+    bottom: ranked.bottom,
+    trend: dateColumn ? buildTrend(rows, dateColumn, mapping) : null,
+  };
+};
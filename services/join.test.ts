@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csvParser';
+import { DataSource, MATCH_COLUMN, joinSources, suggestJoinKeys } from './join';
+
+const source = (id: string, name: string, lines: string[]): DataSource => ({ id, name, data: parseCSV(lines.join('\n')).data! });
+
+const ads = source('ads', 'Meta', [
+  'Nome do anúncio;Gastos;ROAS;CTR',
+  'Ad 01;R$ 10,00;4;2%',
+  'ad 01 ;R$ 30,00;2;1%',
+  'Ad 02;R$ 20,00;1,5;3%',
+]);
+const sales = source('sales', 'Vendas', [
+  'utm_content;Faturamento',
+  'AD 01;R$ 50,00',
+  'Ad 01;R$ 30,00',
+  'Ad 03;R$ 15,00',
+]);
+
+describe('joinSources', () => {
+  const keys = suggestJoinKeys(ads.data, sales.data);
+  const result = joinSources(ads, sales, keys);
+  const byAd = Object.fromEntries(result.data.rows.map(r => [String(r['Nome do anúncio']).toLowerCase().trim(), r]));
+
+  it('cruza pelo anúncio sem caixa e espaços e soma cada lado antes de cruzar', () => {
+    expect(keys).toEqual([{ left: 'Nome do anúncio', right: 'utm_content' }]);
+    expect(result.matched).toBe(1);
+    expect(byAd['ad 01']).toMatchObject({ Gastos: 40, Faturamento: 80, [MATCH_COLUMN]: 'Ambas' });
+    expect(byAd['ad 03']).toMatchObject({ Gastos: 0, Faturamento: 15, [MATCH_COLUMN]: 'Só Vendas' });
+  });
+
+  it('não soma razões e percentuais ao consolidar linhas', () => {
+    expect(byAd['ad 01']).toMatchObject({ ROAS: '', CTR: '' });
+    expect(byAd['ad 02']).toMatchObject({ ROAS: 1.5, CTR: 3 });
+    expect(byAd['ad 03']).toMatchObject({ ROAS: '', CTR: '' });
+  });
+});
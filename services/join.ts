@@ -0,0 +1,160 @@
+import { CellValue, ColumnType, DashboardData, DataRow } from "../types";
+import { isNumericType, toNumber } from "./columnTypes";
+import { QualityChoices } from "./dataQuality";
+import { isRatioColumn } from "./metrics";
+import { toInputDate } from "./periods";
+
+export interface DataSource {
+  id: string;
+  name: string;
+  data: DashboardData;
+  // Link da planilha de origem; ausente para arquivos locais e datasets combinados
+  url?: string;
+  // Abas do link que compõem a fonte (gid ou nome); vazio usa a aba indicada no próprio link
+  tabs?: string[];
+  // Momento do último download bem-sucedido do link
+  fetchedAt?: number;
+  // Escolhas do painel de qualidade (excluir/corrigir), reaplicadas quando a fonte é recarregada
+  quality?: QualityChoices;
+}
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export interface JoinResult {
+  data: DashboardData;
+  matched: number;
+  unmatchedLeft: string[];
+  unmatchedRight: string[];
+}
+
+export const MATCH_COLUMN = 'Correspondência';
+
+const KEY_SEPARATOR = ' | ';
+
+// Datas comparadas por dia; textos sem acento, caixa ou espaços extras ("Ad 01 " = "ad 01")
+export const normalizeKeyValue = (value: CellValue | undefined): string => {
+  if (value instanceof Date) return toInputDate(value);
+  if (value === undefined || value === null) return '';
+  return String(value).normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+const rowKey = (row: DataRow, columns: string[]) => columns.map(c => normalizeKeyValue(row[c])).join(KEY_SEPARATOR);
+
+// Linhas com alguma parte da chave vazia nunca casam entre si, mas continuam no resultado como não correspondidas
+const isBlankKey = (key: string) => key.split(KEY_SEPARATOR).some(part => part === '');
+
+export const formatJoinKey = (key: string) => key.split(KEY_SEPARATOR).map(part => part || '(vazio)').join(KEY_SEPARATOR);
+
+interface Group {
+  key: string;
+  rows: DataRow[];
+}
+
+const groupByKey = (rows: DataRow[], columns: string[]) => {
+  const groups = new Map<string, Group>();
+  rows.forEach(row => {
+    const key = rowKey(row, columns);
+    const group = groups.get(key);
+    if (group) group.rows.push(row);
+    else groups.set(key, { key, rows: [row] });
+  });
+  return groups;
+};
+
+// Consolida um grupo em uma linha: soma colunas numéricas, mantém o primeiro valor preenchido das demais.
+// Agregar antes de cruzar evita duplicar o gasto de um anúncio em cada venda correspondente.
+// Razões e percentuais (ROAS, CTR, CPC...) não somam: com mais de uma linha no grupo ficam vazios,
+// e o painel recalcula as métricas equivalentes a partir das colunas somadas.
+const collapse = (group: Group, headers: string[], types: Record<string, ColumnType>): DataRow => {
+  const row: DataRow = {};
+  headers.forEach(h => {
+    if (isRatioColumn(h, types[h])) {
+      row[h] = group.rows.length === 1 ? group.rows[0][h] : '';
+    } else if (isNumericType(types[h])) {
+      row[h] = group.rows.reduce((acc, r) => acc + toNumber(r[h]), 0);
+    } else {
+      row[h] = group.rows.find(r => r[h] !== '' && r[h] !== undefined)?.[h] ?? '';
+    }
+  });
+  return row;
+};
+
+// Full outer join entre duas fontes. As colunas-chave aparecem uma vez (com o nome da esquerda);
+// colunas com o mesmo nome nas duas fontes recebem o nome da fonte como sufixo.
+export const joinSources = (left: DataSource, right: DataSource, keys: JoinKey[]): JoinResult => {
+  const leftKeys = keys.map(k => k.left);
+  const rightKeys = keys.map(k => k.right);
+  const leftGroups = groupByKey(left.data.rows, leftKeys);
+  const rightGroups = groupByKey(right.data.rows, rightKeys);
+
+  const leftOthers = left.data.headers.filter(h => !leftKeys.includes(h));
+  const rightOthers = right.data.headers.filter(h => !rightKeys.includes(h));
+  const rename = (h: string, source: DataSource, others: string[]) => others.includes(h) ? `${h} (${source.name})` : h;
+  const leftNames = Object.fromEntries(leftOthers.map(h => [h, rename(h, left, rightOthers)]));
+  const rightNames = Object.fromEntries(rightOthers.map(h => [h, rename(h, right, leftOthers)]));
+
+  const headers = [...leftKeys, ...leftOthers.map(h => leftNames[h]), ...rightOthers.map(h => rightNames[h]), MATCH_COLUMN];
+  const types: Record<string, ColumnType> = { [MATCH_COLUMN]: 'string' };
+  leftKeys.forEach(h => { types[h] = left.data.types[h]; });
+  leftOthers.forEach(h => { types[leftNames[h]] = left.data.types[h]; });
+  rightOthers.forEach(h => { types[rightNames[h]] = right.data.types[h]; });
+
+  const emptyRow = (names: Record<string, string>, others: string[], source: DashboardData) =>
+    Object.fromEntries(others.map(h => [names[h], isNumericType(source.types[h]) && !isRatioColumn(h, source.types[h]) ? 0 : '']));
+
+  const rows: DataRow[] = [];
+  const unmatchedLeft: string[] = [];
+  const unmatchedRight: string[] = [];
+  let matched = 0;
+
+  leftGroups.forEach(group => {
+    const l = collapse(group, left.data.headers, left.data.types);
+    const rightGroup = isBlankKey(group.key) ? undefined : rightGroups.get(group.key);
+    const row: DataRow = {};
+    leftKeys.forEach(h => { row[h] = l[h]; });
+    leftOthers.forEach(h => { row[leftNames[h]] = l[h]; });
+    if (rightGroup) {
+      const r = collapse(rightGroup, right.data.headers, right.data.types);
+      rightOthers.forEach(h => { row[rightNames[h]] = r[h]; });
+      row[MATCH_COLUMN] = 'Ambas';
+      matched++;
+    } else {
+      Object.assign(row, emptyRow(rightNames, rightOthers, right.data));
+      row[MATCH_COLUMN] = `Só ${left.name}`;
+      unmatchedLeft.push(group.key);
+    }
+    rows.push(row);
+  });
+
+  rightGroups.forEach(group => {
+    if (!isBlankKey(group.key) && leftGroups.has(group.key)) return;
+    const r = collapse(group, right.data.headers, right.data.types);
+    const row: DataRow = {};
+    keys.forEach(k => { row[k.left] = r[k.right]; });
+    Object.assign(row, emptyRow(leftNames, leftOthers, left.data));
+    rightOthers.forEach(h => { row[rightNames[h]] = r[h]; });
+    row[MATCH_COLUMN] = `Só ${right.name}`;
+    unmatchedRight.push(group.key);
+    rows.push(row);
+  });
+
+  return { data: { headers, rows, types }, matched, unmatchedLeft, unmatchedRight };
+};
+
+// Sugere pares de chave: colunas de mesmo nome e, se houver, nome do anúncio ↔ utm_content
+export const suggestJoinKeys = (left: DashboardData, right: DashboardData): JoinKey[] => {
+  const norm = (h: string) => normalizeKeyValue(h);
+  const keys: JoinKey[] = [];
+  left.headers.forEach(l => {
+    const r = right.headers.find(h => norm(h) === norm(l) && !isNumericType(right.types[h]));
+    if (r && !isNumericType(left.types[l])) keys.push({ left: l, right: r });
+  });
+  const adName = left.headers.find(h => /nome do ad|anúncio|ad name/i.test(h));
+  if (adName && right.headers.includes('utm_content') && !keys.some(k => k.left === adName)) {
+    keys.push({ left: adName, right: 'utm_content' });
+  }
+  return keys;
+};
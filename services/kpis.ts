@@ -0,0 +1,61 @@
+import { DataRow } from "../types";
+import { toNumber } from "./columnTypes";
+import { ProfitModel, computeProfit } from "./profitModel";
+
+export interface KpiColumns {
+  revenue?: string;
+  spend?: string;
+  sales?: string;
+  cogs?: string;
+}
+
+export interface Kpis {
+  fat: number;
+  gas: number;
+  imp: number;
+  taxas: number;
+  cmv: number;
+  luc: number;
+  roas: number;
+  vendas: number;
+  taxRate: number;
+}
+
+export interface KpiTotals {
+  fat: number;
+  gas: number;
+  vendas: number;
+  cmv: number;
+}
+
+// KPIs a partir das somas já feitas (no worker, as somas saem direto das colunas)
+export const kpisFromTotals = ({ fat, gas, vendas, cmv }: KpiTotals, model: ProfitModel): Kpis => {
+  const profit = computeProfit(fat, gas, vendas, cmv, model);
+
+  return {
+    fat,
+    gas,
+    imp: profit.tax,
+    taxas: profit.fees,
+    cmv,
+    luc: profit.profit,
+    // ROAS do conjunto é faturamento total / gasto total, não a média dos ROAS de cada linha
+    roas: gas > 0 ? fat / gas : 0,
+    vendas,
+    taxRate: profit.taxRate,
+  };
+};
+
+// Cálculo de KPIs
+export const computeKpis = (rows: DataRow[], cols: KpiColumns, model: ProfitModel): Kpis => {
+  let fat = 0, gas = 0, vendas = 0, cmv = 0;
+
+  rows.forEach(row => {
+    fat += toNumber(row[cols.revenue || '']);
+    gas += toNumber(row[cols.spend || '']);
+    vendas += toNumber(row[cols.sales || '']);
+    cmv += toNumber(row[cols.cogs || '']);
+  });
+
+  return kpisFromTotals({ fat, gas, vendas, cmv }, model);
+};
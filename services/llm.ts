@@ -0,0 +1,166 @@
+import { InsightAnomaly, InsightResult } from "../types";
+import { InsightContext } from "./insightContext";
+import { QueryPlan, QuerySchema } from "./queryPlan";
+import { LlmRequest, generateGeminiJson } from "./geminiService";
+import { LlmError, toLlmError } from "./llmErrors";
+import { formatMetric, normalizeIdentifier } from "./metrics";
+import { formatBRL } from "./formatters";
+import {
+  DEFAULT_INSIGHT_TEMPLATE, INSIGHT_SCHEMA, QUERY_PLAN_SCHEMA,
+  buildQueryPrompt, renderInsightPrompt, toInsightResult, toQueryPlan,
+} from "./llmPrompts";
+
+export type ProviderId = 'proxy' | 'gemini' | 'mock';
+
+export interface LlmSettings {
+  provider: ProviderId;
+  model: string;
+  // Só usada pelo provedor "gemini", que chama a API direto do navegador
+  apiKey: string;
+  insightTemplate: string;
+}
+
+export interface InsightProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  generateInsights: (context: InsightContext, settings: LlmSettings) => Promise<InsightResult>;
+  planQuery: (question: string, schema: QuerySchema, settings: LlmSettings) => Promise<QueryPlan>;
+}
+
+export const MODEL_OPTIONS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+export const PROXY_ENDPOINT = '/api/llm';
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'proxy',
+  model: MODEL_OPTIONS[0],
+  apiKey: '',
+  insightTemplate: DEFAULT_INSIGHT_TEMPLATE,
+};
+
+const STORAGE_KEY = 'utmdash:llm-settings';
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(raw) } : DEFAULT_LLM_SETTINGS;
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Provedores que respondem JSON a partir de um prompt: mudam apenas no transporte
+const jsonProvider = (
+  meta: Pick<InsightProvider, 'id' | 'label' | 'description'>,
+  complete: (request: LlmRequest, settings: LlmSettings) => Promise<unknown>
+): InsightProvider => ({
+  ...meta,
+  generateInsights: async (context, settings) => toInsightResult(await complete({
+    model: settings.model,
+    prompt: renderInsightPrompt(settings.insightTemplate, context),
+    schema: INSIGHT_SCHEMA,
+    temperature: 0.4,
+  }, settings)),
+  planQuery: async (question, schema, settings) => toQueryPlan(await complete({
+    model: settings.model,
+    prompt: buildQueryPrompt(question, schema),
+    schema: QUERY_PLAN_SCHEMA,
+    temperature: 0,
+  }, settings), schema),
+});
+
+const callProxy = async (request: LlmRequest): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(PROXY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    throw toLlmError(error);
+  }
+  if (response.status === 404) throw new LlmError('network', 'Proxy local não encontrado. Rode o app com "npm run dev" ou "npm run preview".');
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new LlmError(body?.error?.kind ?? 'unknown', body?.error?.message ?? `Proxy respondeu ${response.status}.`);
+  }
+  if (!body || !('result' in body)) throw new LlmError('invalid_response', 'Resposta inesperada do proxy local.');
+  return body.result;
+};
+
+const ratio = (v: number | null) => formatMetric(v, 'ratio');
+
+// Respostas determinísticas derivadas dos próprios agregados, para desenvolvimento sem rede
+const mockInsights = (context: InsightContext): InsightResult => {
+  const { kpis, top, bottom, dimension } = context;
+  const anomalies: InsightAnomaly[] = dimension
+    ? bottom
+        .filter(e => e.roas !== null && e.roas < Math.max(1, kpis.roas / 2))
+        .map(e => ({
+          dimension,
+          entity: e.name,
+          description: `ROAS de ${ratio(e.roas)} com ${formatBRL(e.spend)} investidos, abaixo da média de ${ratio(kpis.roas)}.`,
+          severity: e.roas! < 1 ? 'high' : 'medium',
+        }))
+    : [];
+  const best = top[0];
+  const worst = bottom[0];
+  return {
+    title: `ROAS de ${ratio(kpis.roas)} em ${context.rowCount.toLocaleString('pt-BR')} linhas`,
+    summary: `Faturamento de ${formatBRL(kpis.faturamento)} para ${formatBRL(kpis.investido)} investidos, com lucro estimado de ${formatBRL(kpis.lucro)}.`,
+    recommendations: [
+      best ? `Escalar "${best.name}", que lidera com ROAS de ${ratio(best.roas)}.` : 'Mapeie a coluna de anúncio para ver rankings.',
+      worst ? `Revisar ou pausar "${worst.name}", o pior desempenho do período.` : 'Mapeie a coluna de gastos para comparar anúncios.',
+      'Comparar o período com o anterior para confirmar a tendência.',
+    ],
+    anomalies,
+  };
+};
+
+const mockQueryPlan = (question: string, schema: QuerySchema): QueryPlan => {
+  const norm = normalizeIdentifier(question);
+  const mentioned = <T>(items: T[], name: (item: T) => string) =>
+    items.find(item => norm.includes(normalizeIdentifier(name(item))));
+  const metric = mentioned(schema.metrics, m => m.label) ?? schema.metrics.find(m => m.key.startsWith('fx:')) ?? schema.metrics[0];
+  const byDay = /\b(dia|diario|data)\b/.test(norm.replace(/_/g, ' ')) && schema.dateColumn;
+  const group = byDay ? schema.dateColumn : mentioned(schema.columns.filter(c => c.type === 'string'), c => c.name)?.name
+    ?? schema.columns.find(c => c.type === 'string')?.name;
+  const top = norm.match(/top_(\d+)/);
+  return {
+    where: [],
+    dateRange: null,
+    groupBy: group ? [group] : [],
+    metrics: metric ? [metric.key] : [],
+    having: [],
+    sort: metric && !byDay ? { field: metric.key, direction: 'desc' } : null,
+    limit: top ? Number(top[1]) : byDay ? null : 10,
+    chart: byDay ? 'line' : 'bar',
+  };
+};
+
+export const PROVIDERS: InsightProvider[] = [
+  jsonProvider(
+    { id: 'proxy', label: 'Proxy local', description: 'O servidor do Vite chama o Gemini com a GEMINI_API_KEY do .env.local. A chave nunca chega ao navegador.' },
+    request => callProxy(request)
+  ),
+  jsonProvider(
+    { id: 'gemini', label: 'Gemini direto', description: 'Chama a API do navegador com a chave informada abaixo. Use apenas na sua máquina.' },
+    (request, settings) => generateGeminiJson(request, settings.apiKey)
+  ),
+  {
+    id: 'mock',
+    label: 'Simulado',
+    description: 'Respostas fixas calculadas localmente, sem rede. Para desenvolvimento e testes.',
+    generateInsights: async context => mockInsights(context),
+    planQuery: async (question, schema) => mockQueryPlan(question, schema),
+  },
+];
+
+export const getProvider = (settings: LlmSettings): InsightProvider =>
+  PROVIDERS.find(p => p.id === settings.provider) ?? PROVIDERS[0];
@@ -0,0 +1,37 @@
+export type LlmErrorKind = 'config' | 'auth' | 'quota' | 'network' | 'invalid_response' | 'unknown';
+
+// Erro dos provedores de IA com uma categoria que a UI usa para sugerir a correção
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+
+  constructor(kind: LlmErrorKind, message: string) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+  }
+}
+
+export const LLM_ERROR_HINTS: Record<LlmErrorKind, string> = {
+  config: 'Revise o provedor e o modelo em Configurações de IA.',
+  auth: 'A chave de API foi recusada. Confira a chave no provedor escolhido.',
+  quota: 'Limite de uso atingido. Aguarde alguns minutos ou troque de modelo.',
+  network: 'Sem resposta do servidor. Verifique a conexão ou se o proxy local está rodando.',
+  invalid_response: 'A IA respondeu em formato inesperado. Tente novamente.',
+  unknown: 'Tente novamente em instantes.',
+};
+
+// Ordem importa: status e códigos do Gemini (NOT_FOUND, RESOURCE_EXHAUSTED...) antes das palavras soltas,
+// e sempre com limite de palavra ("rate" aparece dentro de "generateContent")
+const ERROR_PATTERNS: { kind: LlmErrorKind, pattern: RegExp, message: string }[] = [
+  { kind: 'config', pattern: /\b404\b|\bNOT_FOUND\b|\bnot found\b|\bnot supported\b/i, message: 'Modelo não encontrado ou indisponível.' },
+  { kind: 'auth', pattern: /\b40[13]\b|\bPERMISSION_DENIED\b|\bUNAUTHENTICATED\b|\bapi[ _]key\b|\bunauthori[sz]ed\b/i, message: 'Chave de API inválida ou sem permissão.' },
+  { kind: 'quota', pattern: /\b429\b|\bRESOURCE_EXHAUSTED\b|\bquota\b|\brate[ _-]?limit/i, message: 'Cota da API excedida.' },
+  { kind: 'network', pattern: /\bfetch\b|\bnetwork\b|\bfailed to\b|\bECONN[A-Z]*\b|\btime(d)? ?out\b/i, message: 'Falha de conexão com o provedor de IA.' },
+];
+
+export const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const match = ERROR_PATTERNS.find(p => p.pattern.test(message));
+  return match ? new LlmError(match.kind, match.message) : new LlmError('unknown', message || 'Erro desconhecido no provedor de IA.');
+};
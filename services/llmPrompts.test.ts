@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { toQueryPlan } from './llmPrompts';
+import { QuerySchema } from './queryPlan';
+
+const schema: QuerySchema = {
+  columns: [{ name: 'Campanha', type: 'string' }, { name: 'Gastos', type: 'currency' }],
+  metrics: [{ key: 'fx:roas', label: 'ROAS', format: 'ratio' }],
+  dateColumn: null,
+  dateExtent: null,
+  today: '2024-03-10',
+};
+
+describe('toQueryPlan', () => {
+  it('aceita campos do esquema sem diferenciar acento e caixa', () => {
+    const plan = toQueryPlan({
+      where: [{ field: 'campanha', operator: 'contains', value: 'Black' }],
+      having: [{ field: 'ROAS', operator: 'gte', value: 2 }],
+      groupBy: ['Campanha'],
+      chart: 'bar',
+    }, schema);
+    expect(plan.where).toEqual([{ field: 'campanha', operator: 'contains', value: 'Black' }]);
+    expect(plan.having).toEqual([{ field: 'ROAS', operator: 'gte', value: '2' }]);
+    expect(plan.chart).toBe('bar');
+  });
+
+  it('recusa o plano nomeando a condição inválida em vez de descartá-la', () => {
+    expect(() => toQueryPlan({ where: [{ field: 'Canal', operator: 'eq', value: 'Meta' }] }, schema))
+      .toThrow('"Canal" não é uma coluna desta planilha.');
+    expect(() => toQueryPlan({ having: [{ field: 'ROAS', operator: 'between', value: 2 }] }, schema))
+      .toThrow('operador "between" desconhecido em "ROAS".');
+    expect(() => toQueryPlan({ having: [{ field: 'fx:roas', operator: 'gt', value: null }] }, schema))
+      .toThrow('valor inválido para "fx:roas".');
+  });
+});
@@ -0,0 +1,183 @@
+import { Type } from "@google/genai";
+import { InsightResult, InsightSeverity } from "../types";
+import { InsightContext } from "./insightContext";
+import { LlmError } from "./llmErrors";
+import { normalizeIdentifier } from "./metrics";
+import { OPERATOR_LABELS, QueryCondition, QueryOperator, QueryPlan, QuerySchema } from "./queryPlan";
+
+const SEVERITIES: InsightSeverity[] = ['high', 'medium', 'low'];
+
+// Esquemas no formato do Gemini; são JSON puro, então também viajam até o proxy local
+export const INSIGHT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: 'Manchete curta sobre o período analisado.' },
+    summary: { type: Type.STRING, description: 'Resumo de negócio em 2 a 4 frases.' },
+    recommendations: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Três recomendações acionáveis baseadas nos números.',
+    },
+    anomalies: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dimension: { type: Type.STRING, description: 'Nome da coluna do anúncio ou campanha.' },
+          entity: { type: Type.STRING, description: 'Valor exato do anúncio ou campanha, como aparece nos dados.' },
+          description: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: SEVERITIES },
+        },
+        required: ['dimension', 'entity', 'description', 'severity'],
+      },
+    },
+  },
+  required: ['title', 'summary', 'recommendations', 'anomalies'],
+  propertyOrdering: ['title', 'summary', 'recommendations', 'anomalies'],
+};
+
+const conditionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    field: { type: Type.STRING },
+    operator: { type: Type.STRING, enum: ['eq', 'neq', 'contains', 'gt', 'gte', 'lt', 'lte'] },
+    value: { type: Type.STRING, description: 'Números sem separador de milhar (500.5); datas como aaaa-mm-dd.' },
+  },
+  required: ['field', 'operator', 'value'],
+};
+
+export const QUERY_PLAN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    where: { type: Type.ARRAY, items: conditionSchema, description: 'Filtros sobre colunas da planilha, antes de agrupar.' },
+    dateRange: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: { start: { type: Type.STRING }, end: { type: Type.STRING } },
+      required: ['start', 'end'],
+    },
+    groupBy: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Nomes exatos de colunas.' },
+    metrics: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Chaves (key) do catálogo de métricas.' },
+    having: { type: Type.ARRAY, items: conditionSchema, description: 'Condições sobre métricas agregadas; field é a key da métrica.' },
+    sort: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: { field: { type: Type.STRING }, direction: { type: Type.STRING, enum: ['asc', 'desc'] } },
+      required: ['field', 'direction'],
+    },
+    limit: { type: Type.INTEGER, nullable: true },
+    chart: { type: Type.STRING, enum: ['table', 'bar', 'line'] },
+  },
+  required: ['where', 'dateRange', 'groupBy', 'metrics', 'having', 'sort', 'limit', 'chart'],
+};
+
+// Variáveis disponíveis no modelo de prompt editável
+export const TEMPLATE_VARIABLES = ['{{dados}}', '{{dimensao}}', '{{periodo}}'];
+
+export const DEFAULT_INSIGHT_TEMPLATE = `Você é um gestor de tráfego sênior. Analise os agregados abaixo, já calculados sobre o recorte filtrado do dashboard.
+Valores monetários em reais; ROAS = faturamento / investido.
+Período: {{periodo}}. Rankings agrupados por: {{dimensao}}.
+
+{{dados}}
+
+Responda em português:
+- title: manchete do período.
+- summary: resumo de negócio.
+- recommendations: três recomendações acionáveis.
+- anomalies: anúncios ou campanhas com comportamento fora do padrão (ROAS muito abaixo da média, gasto sem retorno, queda brusca na tendência). Use apenas nomes presentes nos rankings; lista vazia se não houver.`;
+
+export const renderInsightPrompt = (template: string, context: InsightContext): string => {
+  const values: Record<string, string> = {
+    '{{dados}}': JSON.stringify(context),
+    '{{dimensao}}': context.dimension ?? 'nenhuma coluna de anúncio ou campanha mapeada',
+    '{{periodo}}': context.period ? `${context.period.start} a ${context.period.end}` : 'todo o histórico',
+  };
+  const rendered = TEMPLATE_VARIABLES.reduce((text, variable) => text.split(variable).join(values[variable]), template);
+  // Sem {{dados}} no modelo a IA responderia às cegas; anexa os agregados ao final
+  return template.includes('{{dados}}') ? rendered : `${rendered}\n\n${values['{{dados}}']}`;
+};
+
+export const buildQueryPrompt = (question: string, schema: QuerySchema) => `
+Converta a pergunta de um gestor de tráfego em um plano de consulta sobre a planilha descrita abaixo.
+Esquema: ${JSON.stringify(schema)}
+
+Regras:
+- Use apenas colunas de "columns" e métricas de "metrics" (pelo campo key).
+- Condições sobre totais (ROAS, CPA, gasto total por anúncio...) vão em "having", não em "where".
+- Datas relativas ("semana passada", "últimos 7 dias") viram dateRange com base em "today"; se não houver dateColumn, dateRange é null.
+- Prefira chart "line" quando agrupar pela coluna de data e "bar" para rankings.
+
+Pergunta: ${question}
+`;
+
+// JSON do modelo chega sem garantia de forma: objetos viram registro, o resto vira null
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const asText = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+
+// O modelo às vezes omite campos ou inventa severidades; normaliza antes de chegar à UI
+export const toInsightResult = (raw: unknown): InsightResult => {
+  const result = asRecord(raw);
+  return {
+    title: asText(result?.title),
+    summary: asText(result?.summary),
+    recommendations: asArray(result?.recommendations).map(asText).filter(Boolean),
+    anomalies: asArray(result?.anomalies)
+      .map(asRecord)
+      .filter((a): a is Record<string, unknown> => !!a && !!asText(a.entity))
+      .map(a => ({
+        dimension: asText(a.dimension),
+        entity: asText(a.entity),
+        description: asText(a.description),
+        severity: SEVERITIES.includes(a.severity as InsightSeverity) ? a.severity as InsightSeverity : 'medium',
+      })),
+  };
+};
+
+const OPERATORS = Object.keys(OPERATOR_LABELS) as QueryOperator[];
+
+// Condição com campo fora do esquema, operador desconhecido ou valor que não é texto/número recusa o plano inteiro:
+// descartá-la em silêncio responderia outra pergunta (ex.: sem o filtro de campanha) como se fosse a feita
+const toConditions = (raw: unknown, fields: string[], clause: 'where' | 'having'): QueryCondition[] => {
+  const known = new Set(fields.map(normalizeIdentifier));
+  const reject = (reason: string) => {
+    throw new LlmError('invalid_response', `A IA montou uma condição inválida em "${clause}": ${reason}`);
+  };
+  return asArray(raw).map(item => {
+    const condition = asRecord(item);
+    const field = typeof condition?.field === 'string' ? condition.field : '';
+    const operator = condition?.operator as QueryOperator;
+    const value = condition?.value;
+    if (!field) return reject('condição sem campo.');
+    if (!known.has(normalizeIdentifier(field))) {
+      return reject(`"${field}" não é ${clause === 'where' ? 'uma coluna' : 'uma métrica'} desta planilha.`);
+    }
+    if (!OPERATORS.includes(operator)) return reject(`operador "${asText(operator)}" desconhecido em "${field}".`);
+    if (typeof value !== 'string' && (typeof value !== 'number' || !isFinite(value))) {
+      return reject(`valor inválido para "${field}".`);
+    }
+    return { field, operator, value: String(value) };
+  });
+};
+
+export const toQueryPlan = (raw: unknown, schema: QuerySchema): QueryPlan => {
+  const plan = asRecord(raw);
+  const dateRange = asRecord(plan?.dateRange);
+  const sort = asRecord(plan?.sort);
+  const limit = plan?.limit;
+  return {
+    where: toConditions(plan?.where, schema.columns.map(c => c.name), 'where'),
+    dateRange: typeof dateRange?.start === 'string' && typeof dateRange?.end === 'string' && dateRange.start && dateRange.end
+      ? { start: dateRange.start, end: dateRange.end }
+      : null,
+    groupBy: asArray(plan?.groupBy).map(asText).filter(Boolean),
+    metrics: asArray(plan?.metrics).map(asText).filter(Boolean),
+    having: toConditions(plan?.having, schema.metrics.flatMap(m => [m.key, m.label]), 'having'),
+    sort: sort && asText(sort.field) ? { field: asText(sort.field), direction: sort.direction === 'asc' ? 'asc' : 'desc' } : null,
+    limit: typeof limit === 'number' && limit > 0 ? Math.floor(limit) : null,
+    chart: plan?.chart === 'bar' || plan?.chart === 'line' ? plan.chart : 'table',
+  };
+};
@@ -0,0 +1,76 @@
+import { DataSource } from "./join";
+import { ViewState } from "./viewState";
+
+export interface SavedView {
+  id: string;
+  name: string;
+  // Assinatura dos cabeçalhos: a visão só aparece para planilhas com as mesmas colunas
+  signature: string;
+  sheetUrl: string | null;
+  state: ViewState;
+  createdAt: number;
+}
+
+export interface CachedWorkspace {
+  sources: DataSource[];
+  activeId: string | null;
+  savedAt: number;
+}
+
+const DB_NAME = 'utmdash';
+const DB_VERSION = 1;
+const VIEWS_STORE = 'views';
+const CACHE_STORE = 'cache';
+const WORKSPACE_KEY = 'workspace';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponível neste navegador.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(VIEWS_STORE)) {
+          db.createObjectStore(VIEWS_STORE, { keyPath: 'id' }).createIndex('signature', 'signature');
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Permite tentar de novo depois de uma falha (ex.: navegação privada bloqueando o IndexedDB)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listSavedViews = async (signature: string): Promise<SavedView[]> => {
+  const views = await run<SavedView[]>(VIEWS_STORE, 'readonly', s => s.index('signature').getAll(signature));
+  return views.sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+};
+
+export const putSavedView = (view: SavedView) => run(VIEWS_STORE, 'readwrite', s => s.put(view));
+
+export const deleteSavedView = (id: string) => run(VIEWS_STORE, 'readwrite', s => s.delete(id));
+
+// Linhas com objetos Date são gravadas direto: o IndexedDB usa structured clone, sem passar por JSON
+export const cacheWorkspace = (workspace: CachedWorkspace) => run(CACHE_STORE, 'readwrite', s => s.put(workspace, WORKSPACE_KEY));
+
+export const loadCachedWorkspace = async (): Promise<CachedWorkspace | null> =>
+  (await run<CachedWorkspace | undefined>(CACHE_STORE, 'readonly', s => s.get(WORKSPACE_KEY))) ?? null;
+
+export const clearCachedWorkspace = () => run(CACHE_STORE, 'readwrite', s => s.delete(WORKSPACE_KEY));
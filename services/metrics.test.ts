@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csvParser';
+import { buildMetricCatalog, compileMetric, equivalentMetricKey, isRatioColumn } from './metrics';
+
+const headers = ['Valor gasto', 'Compras', 'Impressões (total)'];
+const mapping = { spend: 'Valor gasto', filters: [] };
+const compile = (formula: string) =>
+  compileMetric({ id: 'teste', name: 'Teste', formula, format: 'number' }, headers, mapping);
+
+describe('compileMetric', () => {
+  it('respeita precedência, parênteses e sinal', () => {
+    expect(compile('2 + 3 * 4').evaluate({})).toBe(14);
+    expect(compile('(2 + 3) * 4').evaluate({})).toBe(20);
+    expect(compile('-(1,5 + 0.5) * 2').evaluate({})).toBe(-4);
+  });
+
+  it('resolve apelidos do mapeamento, identificadores normalizados e colchetes', () => {
+    const metric = compile('gastos / [Compras] + impressoes_total * 0');
+    expect(metric.columns).toEqual(['Valor gasto', 'Compras', 'Impressões (total)']);
+    expect(metric.evaluate({ 'Valor gasto': 100, Compras: 4, 'Impressões (total)': 9 })).toBe(25);
+  });
+
+  it('devolve null na divisão por zero em vez de Infinity', () => {
+    expect(compile('gastos / Compras').evaluate({ 'Valor gasto': 10, Compras: 0 })).toBeNull();
+    expect(compile('1 + gastos / Compras').evaluate({ 'Valor gasto': 10, Compras: 0 })).toBeNull();
+  });
+
+  it('explica fórmulas inválidas', () => {
+    expect(() => compile('(gastos + 1')).toThrow('Parêntese não fechado.');
+    expect(() => compile('gastos +')).toThrow('Fórmula incompleta.');
+    expect(() => compile('[Cliques] / 2')).toThrow('Coluna "Cliques" não encontrada.');
+    expect(() => compile('vendas / 2')).toThrow('"vendas" não está mapeado em Colunas.');
+    expect(() => compile('gastos % 2')).toThrow('Caractere inesperado "%".');
+  });
+});
+
+describe('buildMetricCatalog', () => {
+  it('troca colunas de razão da planilha pelas métricas recalculadas', () => {
+    const data = parseCSV('Campanha;Gastos;Receita;ROAS;CTR\nA;10;40;4;1,5%\nB;20;30;1,5;2%').data!;
+    expect(isRatioColumn('ROAS', data.types.ROAS)).toBe(true);
+    expect(equivalentMetricKey('Custo por clique (link)')).toBe('fx:cpc');
+
+    const keys = buildMetricCatalog(data, { revenue: 'Receita', spend: 'Gastos', filters: [] }, []).map(m => m.key);
+    expect(keys).toContain('fx:roas');
+    expect(keys).not.toContain('ROAS');
+    expect(keys).not.toContain('CTR');
+  });
+});
@@ -0,0 +1,280 @@
+import { ColumnMapping, ColumnType, DashboardData, DataRow } from "../types";
+import { isNumericType, toNumber } from "./columnTypes";
+import { formatValue } from "./formatters";
+
+export type MetricFormat = 'currency' | 'percent' | 'number' | 'ratio';
+
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  formula: string;
+  format: MetricFormat;
+  // Custos unitários (CPA, CPC, CPM) melhoram quando caem
+  lowerIsBetter?: boolean;
+  builtIn?: boolean;
+}
+
+// Métrica pronta para uso: colunas somadas e a fórmula avaliada sobre as somas
+export interface CompiledMetric {
+  key: string;
+  label: string;
+  columns: string[];
+  format: MetricFormat;
+  derived: boolean;
+  formula?: string;
+  lowerIsBetter: boolean;
+  evaluate: (sums: Record<string, number>) => number | null;
+}
+
+export const BUILT_IN_METRICS: MetricDefinition[] = [
+  { id: 'roas', name: 'ROAS', formula: 'faturamento / gastos', format: 'ratio', builtIn: true },
+  { id: 'cpa', name: 'CPA', formula: 'gastos / vendas', format: 'currency', lowerIsBetter: true, builtIn: true },
+  { id: 'cpc', name: 'CPC', formula: 'gastos / cliques', format: 'currency', lowerIsBetter: true, builtIn: true },
+  { id: 'ctr', name: 'CTR', formula: 'cliques / impressoes * 100', format: 'percent', builtIn: true },
+  { id: 'cpm', name: 'CPM', formula: 'gastos / impressoes * 1000', format: 'currency', lowerIsBetter: true, builtIn: true },
+  { id: 'ticket', name: 'Ticket Médio', formula: 'faturamento / vendas', format: 'currency', builtIn: true },
+];
+
+// Apelidos que apontam para os papéis do mapeamento de colunas
+const ROLE_ALIASES: Record<string, keyof ColumnMapping> = {
+  faturamento: 'revenue',
+  receita: 'revenue',
+  gastos: 'spend',
+  investido: 'spend',
+  vendas: 'sales',
+  cmv: 'cogs',
+  cliques: 'clicks',
+  impressoes: 'impressions',
+};
+
+const STORAGE_KEY = 'utmdash:metrics';
+
+export const DERIVED_PREFIX = 'fx:';
+
+// "Impressões (total)" -> "impressoes_total"
+export const normalizeIdentifier = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+type Node =
+  | { kind: 'num', value: number }
+  | { kind: 'col', column: string }
+  | { kind: 'neg', operand: Node }
+  | { kind: 'bin', op: '+' | '-' | '*' | '/', left: Node, right: Node };
+
+const resolveIdentifier = (name: string, headers: string[], mapping: ColumnMapping): string => {
+  const norm = normalizeIdentifier(name);
+  const role = ROLE_ALIASES[norm];
+  const mapped = role && role !== 'filters' ? (mapping[role] as string | undefined) : undefined;
+  if (mapped) return mapped;
+  const column = headers.find(h => normalizeIdentifier(h) === norm);
+  if (column) return column;
+  throw new Error(role ? `"${name}" não está mapeado em Colunas.` : `Coluna "${name}" não encontrada.`);
+};
+
+// Parser descendente recursivo: + - * / parênteses, números, identificadores e [Nome da coluna]
+const parseFormula = (formula: string, headers: string[], mapping: ColumnMapping): Node => {
+  let pos = 0;
+  const peek = () => { while (formula[pos] === ' ') pos++; return formula[pos]; };
+
+  const parseExpr = (): Node => {
+    let left = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = formula[pos++] as '+' | '-';
+      left = { kind: 'bin', op, left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const parseTerm = (): Node => {
+    let left = parseFactor();
+    while (peek() === '*' || peek() === '/') {
+      const op = formula[pos++] as '*' | '/';
+      left = { kind: 'bin', op, left, right: parseFactor() };
+    }
+    return left;
+  };
+
+  const parseFactor = (): Node => {
+    const char = peek();
+    if (char === undefined) throw new Error('Fórmula incompleta.');
+    if (char === '-') {
+      pos++;
+      return { kind: 'neg', operand: parseFactor() };
+    }
+    if (char === '(') {
+      pos++;
+      const inner = parseExpr();
+      if (peek() !== ')') throw new Error('Parêntese não fechado.');
+      pos++;
+      return inner;
+    }
+    if (char === '[') {
+      const end = formula.indexOf(']', pos);
+      if (end < 0) throw new Error('Colchete não fechado.');
+      const name = formula.slice(pos + 1, end);
+      pos = end + 1;
+      if (!headers.includes(name)) throw new Error(`Coluna "${name}" não encontrada.`);
+      return { kind: 'col', column: name };
+    }
+    const number = formula.slice(pos).match(/^\d+(?:[.,]\d+)?/);
+    if (number) {
+      pos += number[0].length;
+      return { kind: 'num', value: Number(number[0].replace(',', '.')) };
+    }
+    const ident = formula.slice(pos).match(/^[\p{L}_][\p{L}\p{N}_]*/u);
+    if (ident) {
+      pos += ident[0].length;
+      return { kind: 'col', column: resolveIdentifier(ident[0], headers, mapping) };
+    }
+    throw new Error(`Caractere inesperado "${char}".`);
+  };
+
+  const tree = parseExpr();
+  if (peek() !== undefined) throw new Error(`Caractere inesperado "${peek()}".`);
+  return tree;
+};
+
+const collectColumns = (node: Node, acc: Set<string>): Set<string> => {
+  if (node.kind === 'col') acc.add(node.column);
+  if (node.kind === 'neg') collectColumns(node.operand, acc);
+  if (node.kind === 'bin') {
+    collectColumns(node.left, acc);
+    collectColumns(node.right, acc);
+  }
+  return acc;
+};
+
+// Divisão por zero resulta em null (métrica indefinida), nunca em Infinity
+const evaluateNode = (node: Node, sums: Record<string, number>): number | null => {
+  switch (node.kind) {
+    case 'num': return node.value;
+    case 'col': return sums[node.column] ?? 0;
+    case 'neg': {
+      const v = evaluateNode(node.operand, sums);
+      return v === null ? null : -v;
+    }
+    case 'bin': {
+      const l = evaluateNode(node.left, sums);
+      const r = evaluateNode(node.right, sums);
+      if (l === null || r === null) return null;
+      if (node.op === '+') return l + r;
+      if (node.op === '-') return l - r;
+      if (node.op === '*') return l * r;
+      return r === 0 ? null : l / r;
+    }
+  }
+};
+
+export const compileMetric = (def: MetricDefinition, headers: string[], mapping: ColumnMapping): CompiledMetric => {
+  const tree = parseFormula(def.formula, headers, mapping);
+  return {
+    key: `${DERIVED_PREFIX}${def.id}`,
+    label: def.name,
+    columns: Array.from(collectColumns(tree, new Set())),
+    format: def.format,
+    derived: true,
+    formula: def.formula,
+    lowerIsBetter: !!def.lowerIsBetter,
+    evaluate: sums => evaluateNode(tree, sums),
+  };
+};
+
+// Colunas da planilha que já vêm como razão (ROAS, CTR, CPC...): somá-las ou tirar a média linha a linha
+// distorce o total. Cada padrão aponta para a métrica calculada que refaz a razão a partir das somas.
+const RATIO_COLUMN_PATTERNS: { id: string, pattern: RegExp }[] = [
+  { id: 'roas', pattern: /\broas\b|retorno sobre (o )?investimento|return on ad spend/ },
+  { id: 'ctr', pattern: /\bctr\b|taxa de cliques|click.through rate/ },
+  { id: 'cpc', pattern: /\bcpc\b|custo por clique|cost per (link )?click/ },
+  { id: 'cpm', pattern: /\bcpm\b|custo por mil|cost per (1,000|mille)/ },
+  { id: 'cpa', pattern: /\bcpa\b|custo por (resultado|compra|aquisicao)|cost per (result|purchase|acquisition)/ },
+  { id: 'ticket', pattern: /ticket medio|average order value|\baov\b/ },
+];
+
+// Outras razões sem métrica equivalente: custos unitários, taxas, frequência e médias
+const GENERIC_RATIO_RE = /custo por|cost per|\btaxa\b|\brate\b|frequencia|frequency|\bmedia\b|average/;
+
+const ratioHeader = (column: string) => column.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const isRatioColumn = (column: string, type: ColumnType | undefined) => {
+  if (type === 'percent') return true;
+  const header = ratioHeader(column);
+  return RATIO_COLUMN_PATTERNS.some(r => r.pattern.test(header)) || GENERIC_RATIO_RE.test(header);
+};
+
+// Chave da métrica calculada que substitui a coluna de razão (ex.: "ROAS (compras)" -> fx:roas)
+export const equivalentMetricKey = (column: string): string | null => {
+  const header = ratioHeader(column);
+  const match = RATIO_COLUMN_PATTERNS.find(r => r.pattern.test(header));
+  return match ? `${DERIVED_PREFIX}${match.id}` : null;
+};
+
+export const columnMetric = (column: string, data: DashboardData): CompiledMetric => {
+  const type = data.types[column];
+  return {
+    key: column,
+    label: column,
+    columns: [column],
+    format: type === 'currency' || type === 'percent' ? type : 'number',
+    derived: false,
+    lowerIsBetter: false,
+    evaluate: sums => sums[column] ?? 0,
+  };
+};
+
+// Colunas numéricas brutas seguidas das métricas calculadas que fazem sentido para a planilha atual.
+// Razões vindas da planilha ficam de fora: no lugar delas entram ROAS, CTR, CPC... recalculados sobre as somas.
+export const buildMetricCatalog = (data: DashboardData, mapping: ColumnMapping, custom: MetricDefinition[]): CompiledMetric[] => {
+  const mapped = new Set(Object.values(mapping).filter((v): v is string => typeof v === 'string'));
+  const raw = data.headers
+    .filter(h => isNumericType(data.types[h]) && !h.toLowerCase().includes('id'))
+    .filter(h => mapped.has(h) || !isRatioColumn(h, data.types[h]))
+    .map(h => columnMetric(h, data));
+  const derived = [...BUILT_IN_METRICS, ...custom].flatMap(def => {
+    try {
+      return [compileMetric(def, data.headers, mapping)];
+    } catch {
+      return [];
+    }
+  });
+  return [...raw, ...derived];
+};
+
+export const sumColumns = (rows: DataRow[], columns: string[]): Record<string, number> => {
+  const sums: Record<string, number> = Object.fromEntries(columns.map(c => [c, 0]));
+  rows.forEach(row => columns.forEach(c => { sums[c] += toNumber(row[c]); }));
+  return sums;
+};
+
+// Sempre agrega somando as colunas e aplicando a fórmula ao total, nunca pela média das linhas
+export const aggregateMetric = (rows: DataRow[], metric: CompiledMetric): number | null =>
+  metric.evaluate(sumColumns(rows, metric.columns));
+
+export const formatMetric = (value: number | null, format: MetricFormat): string => {
+  if (value === null || !isFinite(value)) return '—';
+  if (format === 'ratio') return `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}x`;
+  return formatValue(value, format);
+};
+
+export interface MetricSettings {
+  custom: MetricDefinition[];
+  // Chaves das métricas exibidas nos cards e como colunas da tabela
+  active: string[];
+}
+
+export const DEFAULT_METRIC_SETTINGS: MetricSettings = {
+  custom: [],
+  active: ['fx:cpa', 'fx:cpc', 'fx:ctr', 'fx:ticket'],
+};
+
+export const loadMetricSettings = (): MetricSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_METRIC_SETTINGS, ...JSON.parse(raw) } : DEFAULT_METRIC_SETTINGS;
+  } catch {
+    return DEFAULT_METRIC_SETTINGS;
+  }
+};
+
+export const saveMetricSettings = (settings: MetricSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,70 @@
+import { DataRow } from "../types";
+
+// Intervalo de dias inclusivo, sempre à meia-noite local
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export type CompareMode = 'none' | 'previous' | 'previousMonth';
+
+const DAY_MS = 86400000;
+
+export const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+export const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+const daysBetween = (a: Date, b: Date) => Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+// Desloca meses sem transbordar: 31/03 - 1 mês = 28/02 (ou 29/02)
+const addMonthsClamped = (d: Date, months: number) => {
+  const target = new Date(d.getFullYear(), d.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(d.getDate(), lastDay));
+};
+
+export const comparisonRange = (range: DateRange, mode: CompareMode): DateRange | null => {
+  if (mode === 'previous') {
+    const length = daysBetween(range.start, range.end) + 1;
+    return { start: addDays(range.start, -length), end: addDays(range.start, -1) };
+  }
+  if (mode === 'previousMonth') {
+    return { start: addMonthsClamped(range.start, -1), end: addMonthsClamped(range.end, -1) };
+  }
+  return null;
+};
+
+export const isInRange = (value: unknown, range: DateRange) => {
+  if (!(value instanceof Date)) return false;
+  const t = value.getTime();
+  return t >= range.start.getTime() && t < addDays(range.end, 1).getTime();
+};
+
+export const filterByRange = (rows: DataRow[], dateColumn: string, range: DateRange) =>
+  rows.filter(row => isInRange(row[dateColumn], range));
+
+export const dateExtent = (rows: DataRow[], dateColumn: string): DateRange | null => {
+  let min: number | null = null;
+  let max: number | null = null;
+  rows.forEach(row => {
+    const v = row[dateColumn];
+    if (!(v instanceof Date)) return;
+    const t = v.getTime();
+    if (min === null || t < min) min = t;
+    if (max === null || t > max) max = t;
+  });
+  return min === null || max === null ? null : { start: startOfDay(new Date(min)), end: startOfDay(new Date(max)) };
+};
+
+// Variação percentual; null quando o período anterior é zero (variação indefinida)
+export const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+// Conversão para o formato do <input type="date"> (yyyy-mm-dd), sem passar por UTC
+export const toInputDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const fromInputDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csvParser';
+import { buildMetricCatalog } from './metrics';
+import { aggregateValue, buildPivot, flattenPivot } from './pivot';
+
+const data = parseCSV([
+  'Campanha;Anúncio;Data;Gastos;Receita',
+  'Verão;A;01/03/2024;R$ 10,00;R$ 40,00',
+  'Verão;B;15/03/2024;R$ 30,00;R$ 30,00',
+  'Inverno;C;02/04/2024;R$ 20,00;R$ 10,00',
+  ';D;03/04/2024;R$ 5,00;R$ 0,00',
+].join('\n')).data!;
+const catalog = buildMetricCatalog(data, { revenue: 'Receita', spend: 'Gastos', filters: [] }, []);
+const metric = (key: string) => catalog.find(m => m.key === key)!;
+
+describe('buildPivot', () => {
+  const pivot = buildPivot(data.rows, {
+    rows: [{ column: 'Campanha' }, { column: 'Anúncio' }],
+    column: { column: 'Data', granularity: 'month' },
+    values: [{ metric: 'Gastos', aggregation: 'sum' }],
+  }, data);
+
+  it('agrupa em níveis com subtotais das mesmas linhas e o vazio por último', () => {
+    expect(pivot.root.children.map(n => n.label)).toEqual(['Inverno', 'Verão', '(vazio)']);
+    const verao = pivot.root.children[1];
+    expect(verao.children.map(n => n.label)).toEqual(['A', 'B']);
+    expect(aggregateValue(verao.rows, { metric: 'Gastos', aggregation: 'sum' }, metric('Gastos'))).toBe(40);
+    expect(aggregateValue(pivot.root.rows, { metric: 'Gastos', aggregation: 'sum' }, metric('Gastos'))).toBe(65);
+  });
+
+  it('abre colunas por mês em ordem cronológica', () => {
+    expect(pivot.columns.map(c => c.label)).toHaveLength(2);
+    expect(pivot.root.cells.get(pivot.columns[0].key)).toHaveLength(2);
+    expect(flattenPivot(pivot.root, new Set([pivot.root.children[1].id])).map(n => n.label))
+      .toEqual(['Inverno', 'Verão', 'A', 'B', '(vazio)']);
+  });
+});
+
+describe('aggregateValue', () => {
+  it('recalcula a razão sobre as somas em vez de somar ou tirar média das linhas', () => {
+    const roas = metric('fx:roas');
+    const rows = data.rows.slice(0, 2);
+    expect(aggregateValue(rows, { metric: 'fx:roas', aggregation: 'ratio' }, roas)).toBeCloseTo(70 / 40);
+    expect(aggregateValue(rows, { metric: 'fx:roas', aggregation: 'avg' }, roas)).toBeCloseTo((4 + 1) / 2);
+    expect(aggregateValue(rows, { metric: 'fx:roas', aggregation: 'count' }, roas)).toBe(2);
+    expect(aggregateValue([], { metric: 'fx:roas', aggregation: 'ratio' }, roas)).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { CellValue, DashboardData, DataRow } from "../types";
+import { compareValues, toNumber } from "./columnTypes";
+import { formatValue } from "./formatters";
+import { CompiledMetric, aggregateMetric, formatMetric } from "./metrics";
+import { Granularity, bucketKey, bucketLabel, bucketStart } from "./timeSeries";
+
+// sum/avg valem linha a linha; ratio soma as colunas da fórmula e aplica a fórmula ao total
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'ratio';
+
+export interface PivotDimension {
+  column: string;
+  // Só para colunas de data: agrupa por dia, semana ou mês
+  granularity?: Granularity;
+}
+
+export interface PivotValue {
+  metric: string;
+  aggregation: PivotAggregation;
+}
+
+export interface PivotConfig {
+  rows: PivotDimension[];
+  column: PivotDimension | null;
+  values: PivotValue[];
+}
+
+export interface PivotNode {
+  id: string;
+  label: string;
+  depth: number;
+  rows: DataRow[];
+  // Linhas do grupo separadas pela dimensão de coluna
+  cells: Map<string, DataRow[]>;
+  children: PivotNode[];
+}
+
+export interface PivotColumn {
+  key: string;
+  label: string;
+}
+
+export interface PivotResult {
+  root: PivotNode;
+  columns: PivotColumn[];
+  // Colunas além do limite não são exibidas, mas continuam no total
+  truncatedColumns: number;
+}
+
+export const AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: 'Soma',
+  avg: 'Média',
+  count: 'Contagem',
+  ratio: 'Razão ponderada',
+};
+
+export const MAX_PIVOT_COLUMNS = 40;
+
+const EMPTY_LABEL = '(vazio)';
+const PATH_SEPARATOR = '\u241f';
+
+// Somar ROAS linha a linha não faz sentido; colunas brutas não têm razão a recalcular
+export const aggregationsFor = (metric: CompiledMetric): PivotAggregation[] =>
+  metric.derived ? ['ratio', 'avg', 'count'] : ['sum', 'avg', 'count'];
+
+interface GroupKey {
+  key: string;
+  label: string;
+  sortValue: CellValue;
+}
+
+const groupKeyOf = (row: DataRow, dimension: PivotDimension, data: DashboardData): GroupKey => {
+  const value = row[dimension.column];
+  if (value instanceof Date && dimension.granularity) {
+    const start = bucketStart(value, dimension.granularity);
+    return { key: bucketKey(start, dimension.granularity), label: bucketLabel(start, dimension.granularity), sortValue: start };
+  }
+  const label = formatValue(value, data.types[dimension.column]);
+  return label === '' ? { key: '', label: EMPTY_LABEL, sortValue: '' } : { key: label, label, sortValue: value };
+};
+
+const createNode = (id: string, label: string, depth: number): PivotNode =>
+  ({ id, label, depth, rows: [], cells: new Map(), children: [] });
+
+export const buildPivot = (rows: DataRow[], config: PivotConfig, data: DashboardData): PivotResult => {
+  const root = createNode('', 'Total', -1);
+  const sortValues = new Map<PivotNode, CellValue>();
+  const columnInfo = new Map<string, GroupKey>();
+  const childIndex = new Map<PivotNode, Map<string, PivotNode>>();
+
+  rows.forEach(row => {
+    const columnKey = config.column ? groupKeyOf(row, config.column, data) : null;
+    if (columnKey && !columnInfo.has(columnKey.key)) columnInfo.set(columnKey.key, columnKey);
+
+    // A linha entra no total e em cada nível do caminho, para os subtotais saírem das mesmas linhas
+    let node = root;
+    const path: PivotNode[] = [root];
+    config.rows.forEach((dimension, depth) => {
+      const group = groupKeyOf(row, dimension, data);
+      let index = childIndex.get(node);
+      if (!index) childIndex.set(node, index = new Map());
+      let child = index.get(group.key);
+      if (!child) {
+        child = createNode(`${node.id}${PATH_SEPARATOR}${group.key}`, group.label, depth);
+        sortValues.set(child, group.sortValue);
+        index.set(group.key, child);
+        node.children.push(child);
+      }
+      node = child;
+      path.push(child);
+    });
+
+    path.forEach(n => {
+      n.rows.push(row);
+      if (!columnKey) return;
+      const cell = n.cells.get(columnKey.key);
+      if (cell) cell.push(row);
+      else n.cells.set(columnKey.key, [row]);
+    });
+  });
+
+  const sortChildren = (node: PivotNode) => {
+    node.children.sort((a, b) => compareValues(sortValues.get(a), sortValues.get(b)));
+    node.children.forEach(sortChildren);
+  };
+  sortChildren(root);
+
+  const columns = Array.from(columnInfo.values())
+    .sort((a, b) => compareValues(a.sortValue, b.sortValue))
+    .map(({ key, label }) => ({ key, label }));
+
+  return {
+    root,
+    columns: columns.slice(0, MAX_PIVOT_COLUMNS),
+    truncatedColumns: Math.max(0, columns.length - MAX_PIVOT_COLUMNS),
+  };
+};
+
+export const aggregateValue = (rows: DataRow[], value: PivotValue, metric: CompiledMetric): number | null => {
+  if (rows.length === 0) return null;
+  if (value.aggregation === 'count') return rows.length;
+  if (value.aggregation === 'ratio') return aggregateMetric(rows, metric);
+
+  // Por linha: métricas derivadas podem não ter valor (divisão por zero) e ficam fora da média
+  const values = metric.derived
+    ? rows.map(r => aggregateMetric([r], metric)).filter((v): v is number => v !== null && isFinite(v))
+    : rows.filter(r => typeof r[metric.key] === 'number').map(r => toNumber(r[metric.key]));
+  if (values.length === 0) return null;
+  const sum = values.reduce((s, v) => s + v, 0);
+  return value.aggregation === 'sum' ? sum : sum / values.length;
+};
+
+export const pivotValueLabel = (value: PivotValue, metric: CompiledMetric) =>
+  value.aggregation === 'count' ? 'Linhas' : `${metric.label}${value.aggregation === 'avg' ? ' (média)' : ''}`;
+
+export const formatPivotValue = (result: number | null, value: PivotValue, metric: CompiledMetric): string =>
+  value.aggregation === 'count'
+    ? (result ?? 0).toLocaleString('pt-BR')
+    : formatMetric(result, metric.format);
+
+// Nós visíveis em ordem de exibição: filhos só aparecem quando o pai está expandido
+export const flattenPivot = (root: PivotNode, expanded: Set<string>): PivotNode[] => {
+  const out: PivotNode[] = [];
+  const walk = (node: PivotNode) => node.children.forEach(child => {
+    out.push(child);
+    if (expanded.has(child.id)) walk(child);
+  });
+  walk(root);
+  return out;
+};
+
+export const collectGroupIds = (root: PivotNode): string[] => {
+  const ids: string[] = [];
+  const walk = (node: PivotNode) => node.children.forEach(child => {
+    if (child.children.length) {
+      ids.push(child.id);
+      walk(child);
+    }
+  });
+  walk(root);
+  return ids;
+};
@@ -0,0 +1,103 @@
+export interface TaxBracket {
+  // Limite superior da receita bruta em 12 meses (RBT12); null na última faixa
+  upTo: number | null;
+  rate: number;
+  deduction: number;
+}
+
+export type TaxMode = 'flat' | 'brackets';
+
+export interface ProfitModel {
+  taxMode: TaxMode;
+  // Alíquota fixa sobre o faturamento, em %
+  taxRate: number;
+  brackets: TaxBracket[];
+  // Receita bruta acumulada dos últimos 12 meses, usada para enquadrar a faixa
+  annualRevenue: number;
+  // Taxa percentual do checkout/gateway sobre o faturamento, em %
+  feePercent: number;
+  // Taxa fixa cobrada por venda, em R$
+  feeFixed: number;
+}
+
+export interface ProfitBreakdown {
+  taxRate: number;
+  tax: number;
+  percentFees: number;
+  fixedFees: number;
+  fees: number;
+  cogs: number;
+  profit: number;
+}
+
+// Simples Nacional, Anexo III (serviços / infoprodutos)
+export const SIMPLES_ANEXO_III: TaxBracket[] = [
+  { upTo: 180000, rate: 6, deduction: 0 },
+  { upTo: 360000, rate: 11.2, deduction: 9360 },
+  { upTo: 720000, rate: 13.5, deduction: 17640 },
+  { upTo: 1800000, rate: 16, deduction: 35640 },
+  { upTo: 3600000, rate: 21, deduction: 125640 },
+  { upTo: null, rate: 33, deduction: 648000 },
+];
+
+// Simples Nacional, Anexo I (comércio)
+export const SIMPLES_ANEXO_I: TaxBracket[] = [
+  { upTo: 180000, rate: 4, deduction: 0 },
+  { upTo: 360000, rate: 7.3, deduction: 5940 },
+  { upTo: 720000, rate: 9.5, deduction: 13860 },
+  { upTo: 1800000, rate: 10.7, deduction: 22500 },
+  { upTo: 3600000, rate: 14.3, deduction: 87300 },
+  { upTo: null, rate: 19, deduction: 378000 },
+];
+
+// Mantém o comportamento anterior (6% fixo) como padrão
+export const DEFAULT_PROFIT_MODEL: ProfitModel = {
+  taxMode: 'flat',
+  taxRate: 6,
+  brackets: SIMPLES_ANEXO_III,
+  annualRevenue: 0,
+  feePercent: 0,
+  feeFixed: 0,
+};
+
+const STORAGE_KEY = 'utmdash:profit-model';
+
+export const loadProfitModel = (): ProfitModel => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PROFIT_MODEL, ...JSON.parse(raw) } : DEFAULT_PROFIT_MODEL;
+  } catch {
+    return DEFAULT_PROFIT_MODEL;
+  }
+};
+
+export const saveProfitModel = (model: ProfitModel) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(model));
+};
+
+// Alíquota efetiva do Simples: (RBT12 × alíquota nominal − parcela a deduzir) / RBT12
+export const effectiveTaxRate = (model: ProfitModel): number => {
+  if (model.taxMode === 'flat') return model.taxRate;
+  const rbt12 = model.annualRevenue;
+  const bracket = model.brackets.find(b => b.upTo === null || rbt12 <= b.upTo) ?? model.brackets[model.brackets.length - 1];
+  if (!bracket) return 0;
+  if (rbt12 <= 0) return bracket.rate;
+  return Math.max(0, ((rbt12 * bracket.rate) / 100 - bracket.deduction) / rbt12 * 100);
+};
+
+export const computeProfit = (revenue: number, spend: number, sales: number, cogs: number, model: ProfitModel): ProfitBreakdown => {
+  const taxRate = effectiveTaxRate(model);
+  const tax = revenue * taxRate / 100;
+  const percentFees = revenue * model.feePercent / 100;
+  const fixedFees = sales * model.feeFixed;
+  const fees = percentFees + fixedFees;
+  return {
+    taxRate,
+    tax,
+    percentFees,
+    fixedFees,
+    fees,
+    cogs,
+    profit: revenue - spend - tax - fees - cogs,
+  };
+};
@@ -0,0 +1,214 @@
+import { ColumnMapping, ColumnType, DashboardData, DataRow } from "../types";
+import { compareValues, isNumericType, parseNumeric } from "./columnTypes";
+import { formatValue } from "./formatters";
+import { CompiledMetric, MetricFormat, aggregateMetric, normalizeIdentifier } from "./metrics";
+import { normalizeKeyValue } from "./join";
+import { dateExtent, filterByRange, fromInputDate, startOfDay, toInputDate } from "./periods";
+
+export type QueryOperator = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface QueryCondition {
+  field: string;
+  operator: QueryOperator;
+  value: string;
+}
+
+// Plano de consulta devolvido pela IA e executado localmente sobre data.rows
+export interface QueryPlan {
+  // Condições sobre colunas brutas, aplicadas antes do agrupamento
+  where: QueryCondition[];
+  dateRange: { start: string, end: string } | null;
+  groupBy: string[];
+  metrics: string[];
+  // Condições sobre métricas já agregadas por grupo (ex.: ROAS < 2)
+  having: QueryCondition[];
+  sort: { field: string, direction: 'asc' | 'desc' } | null;
+  limit: number | null;
+  chart: 'table' | 'bar' | 'line';
+}
+
+// Tudo o que a IA enxerga: nomes e tipos, nunca valores das linhas
+export interface QuerySchema {
+  columns: { name: string, type: ColumnType }[];
+  metrics: { key: string, label: string, format: MetricFormat, formula?: string }[];
+  dateColumn: string | null;
+  dateExtent: { start: string, end: string } | null;
+  today: string;
+}
+
+export interface QueryResultRow {
+  key: string;
+  group: Record<string, string>;
+  rowCount: number;
+  values: Record<string, number | null>;
+}
+
+export interface QueryResult {
+  groupBy: string[];
+  metrics: CompiledMetric[];
+  rows: QueryResultRow[];
+  matchedRows: number;
+}
+
+export const OPERATOR_LABELS: Record<QueryOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  contains: 'contém',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+};
+
+export const buildQuerySchema = (data: DashboardData, catalog: CompiledMetric[], mapping: ColumnMapping): QuerySchema => {
+  const dateColumn = mapping.date && data.types[mapping.date] === 'date' ? mapping.date : null;
+  const extent = dateColumn ? dateExtent(data.rows, dateColumn) : null;
+  return {
+    columns: data.headers.map(name => ({ name, type: data.types[name] })),
+    metrics: catalog.map(m => ({ key: m.key, label: m.label, format: m.format, formula: m.formula })),
+    dateColumn,
+    dateExtent: extent ? { start: toInputDate(extent.start), end: toInputDate(extent.end) } : null,
+    today: toInputDate(new Date()),
+  };
+};
+
+const resolveColumn = (field: string, data: DashboardData): string => {
+  const column = data.headers.find(h => h === field) ?? data.headers.find(h => normalizeIdentifier(h) === normalizeIdentifier(field));
+  if (!column) throw new Error(`Coluna "${field}" não existe nesta planilha.`);
+  return column;
+};
+
+// Aceita a chave do catálogo ("fx:roas"), o rótulo ("ROAS") ou o nome da coluna
+const resolveMetric = (field: string, catalog: CompiledMetric[]): CompiledMetric => {
+  const norm = normalizeIdentifier(field);
+  const metric = catalog.find(m => m.key === field) ?? catalog.find(m => normalizeIdentifier(m.label) === norm);
+  if (!metric) throw new Error(`Métrica "${field}" não está disponível.`);
+  return metric;
+};
+
+const compareNumbers = (actual: number, operator: QueryOperator, expected: number) => {
+  switch (operator) {
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'contains': return false;
+  }
+};
+
+const buildRowPredicate = (condition: QueryCondition, data: DashboardData): ((row: DataRow) => boolean) => {
+  const column = resolveColumn(condition.field, data);
+  const type = data.types[column];
+  const { operator, value } = condition;
+
+  if (isNumericType(type)) {
+    const expected = parseNumeric(value);
+    if (expected === null) throw new Error(`Valor "${value}" inválido para a coluna numérica "${column}".`);
+    return row => typeof row[column] === 'number' && compareNumbers(row[column], operator, expected);
+  }
+
+  if (type === 'date') {
+    const expected = fromInputDate(value);
+    if (!expected) throw new Error(`Data "${value}" inválida para "${column}" (use aaaa-mm-dd).`);
+    return row => row[column] instanceof Date && compareNumbers(startOfDay(row[column]).getTime(), operator, expected.getTime());
+  }
+
+  const expected = normalizeKeyValue(value);
+  return row => {
+    const actual = normalizeKeyValue(row[column]);
+    if (operator === 'contains') return actual.includes(expected);
+    if (operator === 'eq') return actual === expected;
+    if (operator === 'neq') return actual !== expected;
+    return compareNumbers(Math.sign(actual.localeCompare(expected)), operator, 0);
+  };
+};
+
+export const executeQueryPlan = (plan: QueryPlan, data: DashboardData, catalog: CompiledMetric[], dateColumn?: string): QueryResult => {
+  let rows = data.rows;
+  if (plan.dateRange) {
+    const start = fromInputDate(plan.dateRange.start);
+    const end = fromInputDate(plan.dateRange.end);
+    if (!dateColumn) throw new Error('A pergunta pede um período, mas nenhuma coluna de data está mapeada.');
+    if (!start || !end) throw new Error('Período inválido no plano.');
+    rows = filterByRange(rows, dateColumn, { start, end });
+  }
+  const predicates = plan.where.map(c => buildRowPredicate(c, data));
+  rows = rows.filter(row => predicates.every(p => p(row)));
+
+  const groupBy = plan.groupBy.map(g => resolveColumn(g, data));
+  const metricKeys = plan.metrics.length > 0 ? plan.metrics : catalog.slice(0, 1).map(m => m.key);
+  const metrics = metricKeys.map(k => resolveMetric(k, catalog));
+  const havingMetrics = plan.having.map(c => resolveMetric(c.field, catalog));
+  const sortColumn = plan.sort ? groupBy.find(g => normalizeIdentifier(g) === normalizeIdentifier(plan.sort!.field)) : undefined;
+  const sortMetric = plan.sort && !sortColumn ? resolveMetric(plan.sort.field, catalog) : null;
+  // Métricas usadas só no having/sort também precisam ser calculadas, mesmo sem aparecer na tabela
+  const computed = [...metrics, ...havingMetrics, ...(sortMetric ? [sortMetric] : [])]
+    .filter((m, i, all) => all.findIndex(o => o.key === m.key) === i);
+
+  const groups = new Map<string, { rows: DataRow[], first: DataRow }>();
+  rows.forEach(row => {
+    const key = groupBy.map(g => formatValue(row[g], data.types[g])).join(' / ');
+    const group = groups.get(key);
+    if (group) group.rows.push(row);
+    else groups.set(key, { rows: [row], first: row });
+  });
+  if (groupBy.length === 0 && groups.size === 0) groups.set('', { rows: [], first: {} });
+
+  let result = Array.from(groups.entries()).map(([key, group]): QueryResultRow & { first: DataRow } => ({
+    key,
+    group: Object.fromEntries(groupBy.map(g => [g, formatValue(group.first[g], data.types[g]) || 'N/A'])),
+    rowCount: group.rows.length,
+    values: Object.fromEntries(computed.map(m => [m.key, aggregateMetric(group.rows, m)])),
+    first: group.first,
+  }));
+
+  plan.having.forEach((condition, i) => {
+    const expected = parseNumeric(condition.value);
+    if (expected === null) throw new Error(`Valor "${condition.value}" inválido para "${havingMetrics[i].label}".`);
+    result = result.filter(r => {
+      const actual = r.values[havingMetrics[i].key];
+      return actual !== null && compareNumbers(actual, condition.operator, expected);
+    });
+  });
+
+  if (plan.sort) {
+    const direction = plan.sort.direction === 'asc' ? 1 : -1;
+    const metricKey = sortMetric?.key;
+    result.sort((a, b) => {
+      if (sortColumn) return compareValues(a.first[sortColumn], b.first[sortColumn]) * direction;
+      const av = a.values[metricKey!];
+      const bv = b.values[metricKey!];
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      return (av - bv) * direction;
+    });
+  } else if (groupBy.length > 0 && groupBy[0] === dateColumn) {
+    result.sort((a, b) => compareValues(a.first[groupBy[0]], b.first[groupBy[0]]));
+  }
+
+  if (plan.limit && plan.limit > 0) result = result.slice(0, plan.limit);
+
+  return {
+    groupBy,
+    metrics,
+    rows: result.map(({ first, ...row }) => row),
+    matchedRows: rows.length,
+  };
+};
+
+// Descrição legível do plano, exibida junto de cada resposta para conferência
+export const describePlan = (plan: QueryPlan, catalog: CompiledMetric[]): string[] => {
+  const label = (field: string) => catalog.find(m => m.key === field)?.label ?? field;
+  const condition = (c: QueryCondition) => `${label(c.field)} ${OPERATOR_LABELS[c.operator] ?? c.operator} ${c.value}`;
+  const lines: string[] = [];
+  if (plan.dateRange) lines.push(`Período: ${plan.dateRange.start} a ${plan.dateRange.end}`);
+  if (plan.where.length) lines.push(`Filtros: ${plan.where.map(condition).join(' e ')}`);
+  if (plan.groupBy.length) lines.push(`Agrupar por: ${plan.groupBy.join(', ')}`);
+  if (plan.metrics.length) lines.push(`Métricas: ${plan.metrics.map(label).join(', ')}`);
+  if (plan.having.length) lines.push(`Condições: ${plan.having.map(condition).join(' e ')}`);
+  if (plan.sort) lines.push(`Ordenar: ${label(plan.sort.field)} (${plan.sort.direction === 'asc' ? 'crescente' : 'decrescente'})`);
+  if (plan.limit) lines.push(`Limite: ${plan.limit}`);
+  return lines;
+};
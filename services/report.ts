@@ -0,0 +1,292 @@
+import { DataRow, InsightResult } from "../types";
+import { formatDate } from "./formatters";
+import { CompiledMetric, MetricFormat, formatMetric } from "./metrics";
+import { DateRange } from "./periods";
+import { Granularity, buildTimeSeries } from "./timeSeries";
+import { downloadBlob, exportFileName } from "./exporter";
+
+// Identidade do cliente, guardada no navegador para os próximos relatórios
+export interface ReportSettings {
+  clientName: string;
+  // Imagem como data URL (PNG, JPG ou SVG)
+  logo: string | null;
+}
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+  comparison?: {
+    previous: string;
+    delta: string;
+    pct: number | null;
+    higherIsBetter: boolean;
+  };
+}
+
+export interface ReportTrend {
+  label: string;
+  format: MetricFormat;
+  points: { label: string, value: number | null }[];
+}
+
+export interface ReportContent {
+  settings: ReportSettings;
+  range: DateRange | null;
+  previousRange: DateRange | null;
+  kpis: ReportKpi[];
+  topChart: { title: string, format: MetricFormat, data: { name: string, value: number }[] } | null;
+  trends: ReportTrend[];
+  insights: InsightResult | null;
+  // Filtros, busca e condições ativas, já descritos em texto
+  filters: string[];
+  generatedAt: Date;
+}
+
+const STORAGE_KEY = 'utmdash:report-settings';
+
+// Logos maiores que isso estouram a cota do localStorage junto com o resto do app
+export const MAX_LOGO_BYTES = 400 * 1024;
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = { clientName: '', logo: null };
+
+export const loadReportSettings = (): ReportSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_REPORT_SETTINGS;
+    return {
+      clientName: typeof parsed.clientName === 'string' ? parsed.clientName : '',
+      logo: typeof parsed.logo === 'string' && parsed.logo.startsWith('data:image/') ? parsed.logo : null,
+    };
+  } catch {
+    return DEFAULT_REPORT_SETTINGS;
+  }
+};
+
+export const saveReportSettings = (settings: ReportSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Até ~6 semanas por dia, até ~6 meses por semana, acima disso por mês
+const trendGranularity = (rows: DataRow[], dateColumn: string): Granularity => {
+  let min = Infinity;
+  let max = -Infinity;
+  rows.forEach(row => {
+    const value = row[dateColumn];
+    if (!(value instanceof Date)) return;
+    min = Math.min(min, value.getTime());
+    max = Math.max(max, value.getTime());
+  });
+  const days = (max - min) / 86400000;
+  return !isFinite(days) || days <= 45 ? 'day' : days <= 190 ? 'week' : 'month';
+};
+
+export const reportTrends = (rows: DataRow[], dateColumn: string, metrics: CompiledMetric[]): ReportTrend[] => {
+  const granularity = trendGranularity(rows, dateColumn);
+  const columns = Array.from(new Set(metrics.flatMap(m => m.columns)));
+  const buckets = buildTimeSeries(rows, dateColumn, columns, granularity);
+  return metrics.map(metric => ({
+    label: metric.label,
+    format: metric.format,
+    points: buckets.map(b => {
+      const value = metric.evaluate(b.sums);
+      return { label: b.label, value: value !== null && isFinite(value) ? value : null };
+    }),
+  }));
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatRange = (range: DateRange) => `${formatDate(range.start)} a ${formatDate(range.end)}`;
+
+const formatPct = (pct: number) => `${pct >= 0 ? '+' : ''}${pct.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`;
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const kpiCard = ({ label, value, comparison }: ReportKpi) => {
+  let detail = '';
+  if (comparison) {
+    const isUp = comparison.delta.startsWith('+');
+    const tone = isUp === comparison.higherIsBetter ? 'good' : 'bad';
+    detail = `<p class="delta ${tone}">${comparison.pct !== null ? formatPct(comparison.pct) : 'n/d'} <span>${escapeHtml(comparison.delta)}</span></p>`
+      + `<p class="muted">Antes: ${escapeHtml(comparison.previous)}</p>`;
+  }
+  return `<div class="kpi"><p class="label">${escapeHtml(label)}</p><p class="value">${escapeHtml(value)}</p>${detail}</div>`;
+};
+
+// Barras horizontais em SVG: imprime nítido e não depende do Recharts na janela do relatório
+const barChart = (data: { name: string, value: number }[], format: MetricFormat) => {
+  const labelWidth = 190;
+  const valueWidth = 110;
+  const width = 700;
+  const barHeight = 18;
+  const gap = 10;
+  const max = Math.max(...data.map(d => d.value), 0) || 1;
+  const barsWidth = width - labelWidth - valueWidth;
+  const bars = data.map((d, i) => {
+    const y = i * (barHeight + gap);
+    const w = Math.max(0, d.value) / max * barsWidth;
+    return `<text x="${labelWidth - 8}" y="${y + 13}" text-anchor="end" class="axis">${escapeHtml(truncate(d.name, 28))}</text>`
+      + `<rect x="${labelWidth}" y="${y}" width="${w.toFixed(1)}" height="${barHeight}" rx="5" fill="#6366f1"/>`
+      + `<text x="${labelWidth + w + 6}" y="${y + 13}" class="val">${escapeHtml(formatMetric(d.value, format))}</text>`;
+  }).join('');
+  const height = data.length * (barHeight + gap);
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img">${bars}</svg>`;
+};
+
+// Linha simples por métrica; períodos sem valor interrompem o traço
+const lineChart = (trend: ReportTrend) => {
+  const width = 340;
+  const height = 130;
+  const pad = { top: 10, right: 10, bottom: 22, left: 10 };
+  const values = trend.points.map(p => p.value).filter((v): v is number => v !== null);
+  if (values.length === 0) return '<p class="muted">Sem dados no período.</p>';
+  const min = Math.min(...values, 0);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const step = trend.points.length > 1 ? (width - pad.left - pad.right) / (trend.points.length - 1) : 0;
+  const x = (i: number) => pad.left + i * step;
+  const y = (v: number) => pad.top + (1 - (v - min) / span) * (height - pad.top - pad.bottom);
+
+  const segments: string[] = [];
+  let current: string[] = [];
+  trend.points.forEach((p, i) => {
+    if (p.value === null) {
+      if (current.length) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(i).toFixed(1)},${y(p.value).toFixed(1)}`);
+    }
+  });
+  if (current.length) segments.push(current.join(' '));
+
+  const lines = segments.map(points => points.includes(' ')
+    ? `<polyline points="${points}" fill="none" stroke="#6366f1" stroke-width="2" stroke-linejoin="round"/>`
+    : `<circle cx="${points.split(',')[0]}" cy="${points.split(',')[1]}" r="2.5" fill="#6366f1"/>`
+  ).join('');
+  const first = trend.points[0].label;
+  const last = trend.points[trend.points.length - 1].label;
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img">`
+    + `<line x1="${pad.left}" x2="${width - pad.right}" y1="${height - pad.bottom}" y2="${height - pad.bottom}" stroke="#e2e8f0"/>`
+    + lines
+    + `<text x="${pad.left}" y="${height - 6}" class="axis">${escapeHtml(first)}</text>`
+    + `<text x="${width - pad.right}" y="${height - 6}" text-anchor="end" class="axis">${escapeHtml(last)}</text>`
+    + `</svg>`
+    + `<p class="muted">Mín. ${escapeHtml(formatMetric(Math.min(...values), trend.format))} · Máx. ${escapeHtml(formatMetric(max, trend.format))}</p>`;
+};
+
+const insightsSection = (insights: InsightResult) => `
+  <section>
+    <h2>Análise e recomendações</h2>
+    <div class="insight">
+      <h3>${escapeHtml(insights.title)}</h3>
+      <p>${escapeHtml(insights.summary)}</p>
+    </div>
+    ${insights.recommendations.length ? `<ol class="recs">${insights.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ol>` : ''}
+    ${insights.anomalies.length ? `<h3>Pontos de atenção</h3><ul class="anomalies">${insights.anomalies.map(a =>
+      `<li><strong>${escapeHtml(a.entity)}</strong> <span class="muted">(${escapeHtml(a.dimension)})</span>: ${escapeHtml(a.description)}</li>`
+    ).join('')}</ul>` : ''}
+  </section>`;
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1e293b; margin: 0 auto; max-width: 900px; padding: 24px; font-size: 12px; }
+  header { display: flex; align-items: center; justify-content: space-between; gap: 24px; border-bottom: 2px solid #6366f1; padding-bottom: 16px; margin-bottom: 24px; }
+  header img { max-height: 56px; max-width: 200px; object-fit: contain; }
+  h1 { font-size: 22px; margin: 0; letter-spacing: -0.02em; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.1em; color: #64748b; margin: 0 0 12px; }
+  h3 { font-size: 14px; margin: 0 0 6px; }
+  section { margin-bottom: 28px; break-inside: avoid; }
+  .muted { color: #94a3b8; font-size: 10px; margin: 2px 0 0; }
+  .period { font-weight: 700; color: #475569; margin: 4px 0 0; }
+  .kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; }
+  .kpi { border: 1px solid #e2e8f0; border-radius: 12px; padding: 10px 12px; break-inside: avoid; }
+  .kpi .label { font-size: 9px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.08em; color: #94a3b8; margin: 0; }
+  .kpi .value { font-size: 17px; font-weight: 800; margin: 4px 0 0; letter-spacing: -0.02em; }
+  .delta { font-size: 11px; font-weight: 800; margin: 4px 0 0; }
+  .delta span { color: #94a3b8; font-weight: 600; }
+  .good { color: #059669; }
+  .bad { color: #e11d48; }
+  .trends { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+  .trend { border: 1px solid #e2e8f0; border-radius: 12px; padding: 10px 12px; break-inside: avoid; }
+  svg text { font-size: 10px; font-family: inherit; }
+  svg .axis { fill: #64748b; font-weight: 700; }
+  svg .val { fill: #1e293b; font-weight: 800; }
+  .insight { background: #eef2ff; border-radius: 12px; padding: 12px 14px; margin-bottom: 10px; }
+  .insight p { margin: 0; line-height: 1.5; }
+  .recs, .anomalies { margin: 0 0 10px; padding-left: 18px; line-height: 1.5; }
+  footer { border-top: 1px solid #e2e8f0; padding-top: 10px; color: #94a3b8; font-size: 10px; }
+  @media print { body { padding: 0; } }
+`;
+
+export const buildReportHtml = (content: ReportContent): string => {
+  const { settings, range, previousRange, kpis, topChart, trends, insights, filters, generatedAt } = content;
+  const title = settings.clientName.trim() ? `Relatório de desempenho · ${settings.clientName.trim()}` : 'Relatório de desempenho';
+  const logo = settings.logo?.startsWith('data:image/') ? `<img src="${escapeHtml(settings.logo)}" alt="Logo"/>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>${escapeHtml(title)}</h1>
+      ${range ? `<p class="period">Período: ${formatRange(range)}</p>` : ''}
+      ${previousRange ? `<p class="muted">Comparado com ${formatRange(previousRange)}</p>` : ''}
+    </div>
+    ${logo}
+  </header>
+
+  <section>
+    <h2>Indicadores</h2>
+    <div class="kpis">${kpis.map(kpiCard).join('')}</div>
+  </section>
+
+  ${topChart && topChart.data.length ? `<section><h2>${escapeHtml(topChart.title)}</h2>${barChart(topChart.data, topChart.format)}</section>` : ''}
+
+  ${trends.length ? `<section><h2>Tendência</h2><div class="trends">${trends.map(t =>
+    `<div class="trend"><h3>${escapeHtml(t.label)}</h3>${lineChart(t)}</div>`
+  ).join('')}</div></section>` : ''}
+
+  ${insights ? insightsSection(insights) : ''}
+
+  <footer>
+    ${filters.length ? `<p>Recorte: ${filters.map(escapeHtml).join(' · ')}</p>` : ''}
+    <p>Gerado em ${escapeHtml(generatedAt.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }))}</p>
+  </footer>
+</body>
+</html>`;
+};
+
+// A janela precisa ser aberta no clique (antes de qualquer await) para não cair no bloqueio de pop-up
+export const openReportWindow = (): Window | null => window.open('', '_blank');
+
+export const printReport = (target: Window, html: string) => {
+  target.document.open();
+  target.document.write(html);
+  target.document.close();
+  // Espera o logo carregar antes do diálogo de impressão (onde o usuário escolhe "Salvar como PDF");
+  // nem todo navegador dispara onload depois de document.write, daí o prazo de reserva
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    target.focus();
+    target.print();
+  };
+  target.onload = print;
+  setTimeout(print, 500);
+};
+
+export const downloadReportHtml = (html: string, settings: ReportSettings) =>
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), exportFileName(`relatorio ${settings.clientName}`, 'html'));
@@ -0,0 +1,89 @@
+import { CsvParseError, parseCSVTable } from "./csvParser";
+import { SheetTable } from "./workbook";
+
+export type SheetFetchErrorKind = 'network' | 'http' | 'login';
+
+export class SheetFetchError extends Error {
+  kind: SheetFetchErrorKind;
+
+  constructor(kind: SheetFetchErrorKind, message: string) {
+    super(message);
+    this.name = 'SheetFetchError';
+    this.kind = kind;
+  }
+}
+
+// Link de edição do Google Sheets -> exportação CSV. A aba vem do parâmetro `tab` (gid numérico ou nome)
+// ou, sem ele, do gid presente no próprio link; a exportação padrão sempre devolve a primeira aba.
+export const toCsvExportUrl = (url: string, tab?: string) => {
+  const id = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/)?.[1];
+  const target = tab?.trim() || url.match(/[#&?]gid=(\d+)/)?.[1];
+  // Links publicados (/d/e/...) e CSVs de outros servidores seguem como estão
+  if (!id || id === 'e') return url;
+  if (!target) return url.includes('/edit') ? url.replace(/\/edit.*$/, '/export?format=csv') : url;
+  const base = `https://docs.google.com/spreadsheets/d/${id}`;
+  return /^\d+$/.test(target)
+    ? `${base}/export?format=csv&gid=${target}`
+    : `${base}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(target)}`;
+};
+
+// "Jan, Fev, 123456" -> ['Jan', 'Fev', '123456']
+export const parseTabList = (input: string) =>
+  input.split(',').map(t => t.trim()).filter(Boolean);
+
+// Planilhas privadas não dão erro HTTP: o Google responde 200 com a página de login em HTML
+const looksLikeHtml = (contentType: string | null, text: string) =>
+  (contentType ?? '').includes('text/html') || /^\s*(<!doctype html|<html)/i.test(text.slice(0, 512));
+
+export const fetchSheetCsv = async (url: string, tab?: string): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(toCsvExportUrl(url, tab), { cache: 'no-store' });
+  } catch {
+    throw new SheetFetchError('network', 'Não foi possível acessar o link. Verifique sua conexão.');
+  }
+  if (!response.ok) {
+    const hint = response.status === 401 || response.status === 403 || response.status === 404
+      ? ' Confira se a planilha está publicada ou compartilhada como "Qualquer pessoa com o link".'
+      : '';
+    const where = tab ? ` na aba "${tab}"` : '';
+    throw new SheetFetchError('http', `O servidor respondeu ${response.status}${where}.${hint}`);
+  }
+  const text = await response.text();
+  if (looksLikeHtml(response.headers.get('content-type'), text)) {
+    throw new SheetFetchError('login', "O Google devolveu uma página de login em vez do CSV. Use 'Publicar na Web' como CSV ou compartilhe a planilha com o link.");
+  }
+  return text;
+};
+
+export interface SheetTablesResult {
+  tables: SheetTable[];
+  errors: CsvParseError[];
+}
+
+// Baixa cada aba pedida (ou só a do link) mantendo as células em texto, prontas para appendTables
+export const fetchSheetTables = async (url: string, tabs: string[] = []): Promise<SheetTablesResult> => {
+  const targets = tabs.length ? tabs : [undefined];
+  const tables: SheetTable[] = [];
+  const errors: CsvParseError[] = [];
+  for (const tab of targets) {
+    const { headers, records, errors: tabErrors } = parseCSVTable(await fetchSheetCsv(url, tab));
+    if (headers.length) tables.push({ name: tab ?? '', headers, records });
+    errors.push(...tabErrors.map(e => tab ? { ...e, message: `[${tab}] ${e.message}` } : e));
+  }
+  return { tables, errors };
+};
+
+// Intervalos de atualização automática, em minutos (0 = desligado)
+export const REFRESH_OPTIONS = [0, 1, 5, 15, 30];
+
+const REFRESH_STORAGE_KEY = 'utmdash:refresh-interval';
+
+export const loadRefreshInterval = (): number => {
+  const value = Number(localStorage.getItem(REFRESH_STORAGE_KEY));
+  return REFRESH_OPTIONS.includes(value) ? value : 0;
+};
+
+export const saveRefreshInterval = (minutes: number) => {
+  localStorage.setItem(REFRESH_STORAGE_KEY, String(minutes));
+};
@@ -0,0 +1,63 @@
+import { DashboardData, DataRow } from "../types";
+import { isNumericType } from "./columnTypes";
+import { normalizeKeyValue } from "./join";
+
+export interface SnapshotDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  // Colunas que entraram ou saíram da planilha entre as versões
+  columnsAdded: string[];
+  columnsRemoved: string[];
+}
+
+const cellKey = (row: DataRow, column: string) =>
+  typeof row[column] === 'number' ? String(row[column]) : normalizeKeyValue(row[column]);
+
+// Identidade da linha = colunas de texto/data (data, anúncio, campanha...); conteúdo = todas as colunas.
+// Linhas com a mesma identidade são pareadas pela ordem em que aparecem.
+const indexRows = (rows: DataRow[], identity: string[], content: string[]) => {
+  const index = new Map<string, string[]>();
+  rows.forEach(row => {
+    const id = identity.map(c => cellKey(row, c)).join('\u241f');
+    const fingerprint = content.map(c => cellKey(row, c)).join('\u241f');
+    const list = index.get(id);
+    if (list) list.push(fingerprint);
+    else index.set(id, [fingerprint]);
+  });
+  return index;
+};
+
+export const diffSnapshots = (previous: DashboardData, next: DashboardData): SnapshotDiff => {
+  const common = next.headers.filter(h => previous.headers.includes(h));
+  const identity = common.filter(h => !isNumericType(next.types[h]));
+  const before = indexRows(previous.rows, identity, common);
+  const after = indexRows(next.rows, identity, common);
+
+  let added = 0, removed = 0, changed = 0, unchanged = 0;
+  after.forEach((fingerprints, id) => {
+    const old = before.get(id) ?? [];
+    fingerprints.forEach((fp, i) => {
+      if (i >= old.length) added++;
+      else if (old[i] === fp) unchanged++;
+      else changed++;
+    });
+    if (old.length > fingerprints.length) removed += old.length - fingerprints.length;
+  });
+  before.forEach((fingerprints, id) => {
+    if (!after.has(id)) removed += fingerprints.length;
+  });
+
+  return {
+    added,
+    removed,
+    changed,
+    unchanged,
+    columnsAdded: next.headers.filter(h => !previous.headers.includes(h)),
+    columnsRemoved: previous.headers.filter(h => !next.headers.includes(h)),
+  };
+};
+
+export const hasChanges = (diff: SnapshotDiff) =>
+  diff.added + diff.removed + diff.changed + diff.columnsAdded.length + diff.columnsRemoved.length > 0;
@@ -0,0 +1,124 @@
+import { CellValue, ColumnType, DashboardData, DataRow } from "../types";
+import { compareValues, isNumericType, toNumber } from "./columnTypes";
+import { formatDate, formatValue } from "./formatters";
+import { CompiledMetric, aggregateMetric, equivalentMetricKey, formatMetric, isRatioColumn } from "./metrics";
+
+// Coluna da tabela: coluna da planilha ou métrica calculada linha a linha
+export interface TableColumn {
+  key: string;
+  label: string;
+  type?: ColumnType;
+  metric?: CompiledMetric;
+  // Coluna da planilha que já é uma razão (ROAS, CTR...): o total vem da métrica equivalente, nunca da soma
+  ratio?: boolean;
+  totalMetric?: CompiledMetric;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  key: string;
+  dir: SortDirection;
+}
+
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+}
+
+const STORAGE_KEY = 'utmdash:table-layout';
+
+// O catálogo decide quais colunas são somáveis (inclusive razões mapeadas em Colunas) e fornece a métrica equivalente
+export const buildTableColumns = (data: DashboardData, metrics: CompiledMetric[], catalog: CompiledMetric[] = metrics): TableColumn[] => [
+  ...data.headers.map(h => {
+    const type = data.types[h];
+    const summable = catalog.some(m => m.key === h);
+    if (!isNumericType(type) || summable || !isRatioColumn(h, type)) return { key: h, label: h, type };
+    const equivalent = equivalentMetricKey(h);
+    return { key: h, label: h, type, ratio: true, totalMetric: catalog.find(m => m.key === equivalent) };
+  }),
+  ...metrics.map(m => ({ key: m.key, label: m.label, metric: m })),
+];
+
+export const isNumericColumn = (column: TableColumn) => !!column.metric || isNumericType(column.type);
+
+// Colunas fora da ordem salva (planilha ganhou colunas, métrica nova) entram no fim
+export const arrangeColumns = (columns: TableColumn[], layout: ColumnLayout): TableColumn[] => {
+  const byKey = new Map(columns.map(c => [c.key, c]));
+  const ordered = layout.order.filter(k => byKey.has(k)).map(k => byKey.get(k)!);
+  return [...ordered, ...columns.filter(c => !layout.order.includes(c.key))];
+};
+
+export const cellValue = (row: DataRow, column: TableColumn): CellValue | null =>
+  column.metric ? aggregateMetric([row], column.metric) : row[column.key];
+
+export const formatCell = (row: DataRow, column: TableColumn): string =>
+  column.metric ? formatMetric(aggregateMetric([row], column.metric), column.metric.format) : formatValue(row[column.key], column.type);
+
+// Clique simples ordena só por essa coluna (asc -> desc -> sem ordem); com Shift acumula critérios
+export const toggleSort = (sort: SortKey[], key: string, additive: boolean): SortKey[] => {
+  const current = sort.find(s => s.key === key);
+  const next: SortKey | null = !current ? { key, dir: 'asc' } : current.dir === 'asc' ? { key, dir: 'desc' } : null;
+  if (!additive) return next ? [next] : [];
+  if (!current) return [...sort, next!];
+  return next ? sort.map(s => s.key === key ? next : s) : sort.filter(s => s.key !== key);
+};
+
+// Calcula o valor de cada critério uma vez por linha antes de ordenar: métricas por linha custam caro em 100k linhas
+export const sortRows = (rows: DataRow[], columns: TableColumn[], sort: SortKey[]): DataRow[] => {
+  const keys = sort
+    .map(s => ({ column: columns.find(c => c.key === s.key), sign: s.dir === 'asc' ? 1 : -1 }))
+    .filter((k): k is { column: TableColumn, sign: number } => !!k.column);
+  if (keys.length === 0) return rows;
+
+  const decorated = rows.map((row, index) => ({ row, index, values: keys.map(k => cellValue(row, k.column)) }));
+  decorated.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const va = a.values[i], vb = b.values[i];
+      // Métricas sem valor (divisão por zero) ficam sempre no fim, como células vazias
+      const cmp = compareValues(va ?? '', vb ?? '');
+      if (cmp !== 0) return va === null || va === '' || vb === null || vb === '' ? cmp : cmp * keys[i].sign;
+    }
+    return a.index - b.index;
+  });
+  return decorated.map(d => d.row);
+};
+
+// Linha de totais: soma para valores absolutos, métricas recalculadas sobre as somas
+// (ROAS total = faturamento total / gasto total). Razões da planilha usam a métrica equivalente ou ficam em branco.
+export const columnTotal = (rows: DataRow[], column: TableColumn): string => {
+  if (rows.length === 0) return '';
+  if (column.metric) return formatMetric(aggregateMetric(rows, column.metric), column.metric.format);
+  if (column.ratio) {
+    return column.totalMetric ? formatMetric(aggregateMetric(rows, column.totalMetric), column.totalMetric.format) : '';
+  }
+  if (isNumericType(column.type)) {
+    return formatValue(rows.reduce((s, r) => s + toNumber(r[column.key]), 0), column.type);
+  }
+  if (column.type === 'date') {
+    const times = rows.map(r => r[column.key]).filter((v): v is Date => v instanceof Date).map(d => d.getTime());
+    if (times.length === 0) return '';
+    let min = times[0], max = times[0];
+    times.forEach(t => { if (t < min) min = t; if (t > max) max = t; });
+    return min === max ? formatDate(new Date(min)) : `${formatDate(new Date(min))} – ${formatDate(new Date(max))}`;
+  }
+  const distinct = new Set(rows.map(r => r[column.key]).filter(v => v !== '' && v !== undefined));
+  return `${distinct.size.toLocaleString('pt-BR')} únicos`;
+};
+
+const loadLayouts = (): Record<string, ColumnLayout> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Uma configuração por assinatura de cabeçalhos, como os perfis de mapeamento
+export const loadColumnLayout = (signature: string): ColumnLayout =>
+  loadLayouts()[signature] ?? { order: [], hidden: [] };
+
+export const saveColumnLayout = (signature: string, layout: ColumnLayout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadLayouts(), [signature]: layout }));
+};
@@ -0,0 +1,113 @@
+import { DataRow } from "../types";
+import { toNumber } from "./columnTypes";
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface TimeBucket {
+  key: string;
+  label: string;
+  start: Date;
+  rowCount: number;
+  sums: Record<string, number>;
+}
+
+// Protege contra datas absurdas (ex.: 01/01/1900) gerando milhares de baldes vazios
+const MAX_FILLED_BUCKETS = 1500;
+
+const MONTHS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Semana ISO 8601: começa na segunda-feira e pertence ao ano da sua quinta-feira
+export const isoWeek = (date: Date) => {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+  return { year: thursday.getFullYear(), week };
+};
+
+export const bucketStart = (date: Date, granularity: Granularity): Date => {
+  if (granularity === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+  if (granularity === 'week') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+export const nextBucket = (start: Date, granularity: Granularity): Date => {
+  if (granularity === 'month') return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + (granularity === 'week' ? 7 : 1));
+};
+
+export const bucketKey = (start: Date, granularity: Granularity): string => {
+  if (granularity === 'month') return `${start.getFullYear()}-${pad(start.getMonth() + 1)}`;
+  if (granularity === 'week') {
+    const { year, week } = isoWeek(start);
+    return `${year}-W${pad(week)}`;
+  }
+  return `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+};
+
+export const bucketLabel = (start: Date, granularity: Granularity): string => {
+  if (granularity === 'month') return `${MONTHS[start.getMonth()]}/${start.getFullYear()}`;
+  if (granularity === 'week') return `S${pad(isoWeek(start).week)} ${pad(start.getDate())}/${pad(start.getMonth() + 1)}`;
+  return `${pad(start.getDate())}/${pad(start.getMonth() + 1)}`;
+};
+
+// Agrupa os registros por período da data, somando as colunas pedidas.
+// Períodos sem registros entre o primeiro e o último aparecem zerados.
+// Acessores em vez de linhas: o worker percorre a tabela colunar sem montar objetos por linha.
+export const bucketize = (
+  count: number,
+  dateAt: (k: number) => Date | null,
+  valueAt: (k: number, column: string) => number,
+  sumColumns: string[],
+  granularity: Granularity
+): TimeBucket[] => {
+  const buckets = new Map<string, TimeBucket>();
+  const emptyBucket = (start: Date): TimeBucket => ({
+    key: bucketKey(start, granularity),
+    label: bucketLabel(start, granularity),
+    start,
+    rowCount: 0,
+    sums: Object.fromEntries(sumColumns.map(c => [c, 0])),
+  });
+
+  for (let k = 0; k < count; k++) {
+    const value = dateAt(k);
+    if (!value) continue;
+    const start = bucketStart(value, granularity);
+    const key = bucketKey(start, granularity);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(start);
+      buckets.set(key, bucket);
+    }
+    bucket.rowCount++;
+    sumColumns.forEach(c => { bucket!.sums[c] += valueAt(k, c); });
+  }
+
+  const sorted = Array.from(buckets.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+  if (sorted.length < 2) return sorted;
+
+  const filled: TimeBucket[] = [];
+  const last = sorted[sorted.length - 1].start.getTime();
+  for (let cursor = sorted[0].start; cursor.getTime() <= last; cursor = nextBucket(cursor, granularity)) {
+    if (filled.length >= MAX_FILLED_BUCKETS) return sorted;
+    filled.push(buckets.get(bucketKey(cursor, granularity)) ?? emptyBucket(cursor));
+  }
+  return filled;
+};
+
+export const buildTimeSeries = (
+  rows: DataRow[],
+  dateColumn: string,
+  sumColumns: string[],
+  granularity: Granularity
+): TimeBucket[] => bucketize(
+  rows.length,
+  k => { const value = rows[k][dateColumn]; return value instanceof Date ? value : null; },
+  (k, column) => toNumber(rows[k][column]),
+  sumColumns,
+  granularity
+);
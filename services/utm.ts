@@ -0,0 +1,78 @@
+import { DashboardData, DataRow } from "../types";
+
+// src e sck são os parâmetros de rastreio dos checkouts brasileiros (Hotmart, Kiwify, Eduzz)
+export const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_content', 'utm_term', 'src', 'sck'];
+
+// Fração mínima de células preenchidas com parâmetros de rastreio para a coluna ser tratada como URL
+const DETECTION_THRESHOLD = 0.3;
+const PARAM_RE = new RegExp(`(?:^|[?&#])(${UTM_PARAMS.join('|')})=`, 'i');
+
+export const isUtmDimension = (header: string) => UTM_PARAMS.includes(header.trim().toLowerCase());
+
+// Aceita URLs completas ("https://site.com/?utm_source=fb") ou apenas a query ("utm_source=fb&utm_medium=cpc")
+export const parseTrackingParams = (value: string): Record<string, string> => {
+  const questionMark = value.indexOf('?');
+  const query = (questionMark >= 0 ? value.slice(questionMark + 1) : value).split('#')[0];
+  const result: Record<string, string> = {};
+  let params: URLSearchParams;
+  try {
+    params = new URLSearchParams(query);
+  } catch {
+    return result;
+  }
+  params.forEach((v, k) => {
+    const key = k.trim().toLowerCase();
+    if (UTM_PARAMS.includes(key) && v.trim() !== '' && result[key] === undefined) result[key] = v.trim();
+  });
+  return result;
+};
+
+export const detectUrlColumns = (data: DashboardData): string[] =>
+  data.headers.filter(h => {
+    if (data.types[h] !== 'string') return false;
+    let filled = 0;
+    let tracked = 0;
+    data.rows.forEach(row => {
+      const v = row[h];
+      if (typeof v !== 'string' || v === '') return;
+      filled++;
+      if (PARAM_RE.test(v)) tracked++;
+    });
+    return filled > 0 && tracked / filled >= DETECTION_THRESHOLD;
+  });
+
+// Acrescenta utm_source, utm_medium... como colunas virtuais extraídas das colunas de URL.
+// Parâmetros que a planilha já traz como coluna própria não são duplicados.
+export const withUtmColumns = (data: DashboardData): DashboardData => {
+  const sources = detectUrlColumns(data);
+  if (sources.length === 0) return data;
+
+  const existing = new Set(data.headers.map(h => h.trim().toLowerCase()));
+  const extracted = data.rows.map(row => {
+    const merged: Record<string, string> = {};
+    sources.forEach(col => {
+      const value = row[col];
+      if (typeof value !== 'string' || value === '') return;
+      Object.entries(parseTrackingParams(value)).forEach(([k, v]) => {
+        if (merged[k] === undefined) merged[k] = v;
+      });
+    });
+    return merged;
+  });
+
+  const virtual = UTM_PARAMS.filter(p => !existing.has(p) && extracted.some(e => e[p] !== undefined));
+  if (virtual.length === 0) return data;
+
+  const rows: DataRow[] = data.rows.map((row, i) => {
+    const next: DataRow = { ...row };
+    virtual.forEach(p => { next[p] = extracted[i][p] ?? ''; });
+    return next;
+  });
+
+  return {
+    headers: [...data.headers, ...virtual],
+    rows,
+    types: { ...data.types, ...Object.fromEntries(virtual.map(p => [p, 'string' as const])) },
+    virtualColumns: [...(data.virtualColumns || []), ...virtual],
+  };
+};
@@ -0,0 +1,88 @@
+import { DashboardData } from "../types";
+import { CompareMode } from "./periods";
+import { AdvancedFilter, parseAdvancedFilter, sanitizeAdvancedFilter } from "./advancedFilter";
+
+export type DashboardTab = 'visual' | 'table' | 'pivot' | 'attribution';
+
+// Tudo o que define "o que o usuário está olhando" no Dashboard
+export interface ViewState {
+  tab: DashboardTab;
+  filters: Record<string, string[]>;
+  // Condições do construtor de filtros, somadas aos filtros por valor
+  advanced: AdvancedFilter;
+  search: string;
+  period: { start: string, end: string, compare: CompareMode };
+}
+
+const SHEET_PARAM = 'sheet';
+const VIEW_PARAM = 'view';
+// Repetido uma vez por aba: nomes de aba podem conter vírgula
+const TAB_PARAM = 'tab';
+
+const TABS: DashboardTab[] = ['visual', 'table', 'pivot', 'attribution'];
+const COMPARE_MODES: CompareMode[] = ['none', 'previous', 'previousMonth'];
+
+// Links são colados em qualquer lugar; tudo que vem da URL é validado campo a campo
+export const parseViewState = (raw: unknown): Partial<ViewState> => {
+  if (!raw || typeof raw !== 'object') return {};
+  const v = raw as Record<string, any>;
+  const view: Partial<ViewState> = {};
+  if (TABS.includes(v.tab)) view.tab = v.tab;
+  if (v.filters && typeof v.filters === 'object') {
+    view.filters = Object.fromEntries(
+      Object.entries(v.filters)
+        .filter(([, vals]) => Array.isArray(vals))
+        .map(([col, vals]) => [col, (vals as unknown[]).map(String)])
+    );
+  }
+  const advanced = parseAdvancedFilter(v.advanced);
+  if (advanced) view.advanced = advanced;
+  if (typeof v.search === 'string') view.search = v.search;
+  if (v.period && typeof v.period === 'object') {
+    view.period = {
+      start: typeof v.period.start === 'string' ? v.period.start : '',
+      end: typeof v.period.end === 'string' ? v.period.end : '',
+      compare: COMPARE_MODES.includes(v.period.compare) ? v.period.compare : 'none',
+    };
+  }
+  return view;
+};
+
+// Descarta filtros de colunas que não existem na planilha aberta
+export const sanitizeViewState = (view: Partial<ViewState>, data: DashboardData): Partial<ViewState> => ({
+  ...view,
+  filters: view.filters
+    ? Object.fromEntries(Object.entries(view.filters).filter(([col, vals]) => data.headers.includes(col) && vals.length > 0))
+    : undefined,
+  advanced: view.advanced ? sanitizeAdvancedFilter(view.advanced, data) : undefined,
+});
+
+export interface UrlState {
+  sheetUrl: string | null;
+  tabs: string[];
+  view: Partial<ViewState>;
+}
+
+export const readUrlState = (): UrlState => {
+  const params = new URLSearchParams(window.location.search);
+  let view: Partial<ViewState> = {};
+  const rawView = params.get(VIEW_PARAM);
+  if (rawView) {
+    try {
+      view = parseViewState(JSON.parse(rawView));
+    } catch {
+      view = {};
+    }
+  }
+  return { sheetUrl: params.get(SHEET_PARAM), tabs: params.getAll(TAB_PARAM), view };
+};
+
+// replaceState em vez de pushState: mudar um filtro não deve encher o histórico do navegador
+export const writeUrlState = (sheetUrl: string | null, view: ViewState | null, tabs: string[] = []) => {
+  const params = new URLSearchParams();
+  if (sheetUrl) params.set(SHEET_PARAM, sheetUrl);
+  if (sheetUrl) tabs.forEach(tab => params.append(TAB_PARAM, tab));
+  if (view) params.set(VIEW_PARAM, JSON.stringify(view));
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AdvancedFilter } from './advancedFilter';
+import { toColumnar } from './columnar';
+import { parseCSV } from './csvParser';
+import { buildMetricCatalog } from './metrics';
+import { computeWidgetSeries } from './widgetSeries';
+import { Widget, categoryData, createWidget, widgetSpec } from './widgets';
+
+const data = parseCSV([
+  'Campanha;Data;Gastos;Receita',
+  'A;01/03/2024;R$ 10,00;R$ 40,00',
+  'B;01/03/2024;R$ 20,00;R$ 30,00',
+  'A;03/03/2024;R$ 5,00;R$ 20,00',
+  'C;03/03/2024;R$ 8,00;R$ 8,00',
+  'D;03/03/2024;R$ 2,00;R$ 4,00',
+].join('\n')).data!;
+const table = toColumnar(data);
+const catalog = buildMetricCatalog(data, { revenue: 'Receita', spend: 'Gastos', filters: [] }, []);
+const all = Uint32Array.from(data.rows.keys());
+
+const seriesOf = (widget: Widget) =>
+  computeWidgetSeries(table, all, [widgetSpec(widget)], catalog, data, 'Data')[widget.id];
+
+const onlyA: AdvancedFilter = {
+  logic: 'and',
+  groups: [{ id: 'g', logic: 'and', conditions: [{ id: 'c', column: 'Campanha', operator: 'eq', value: 'A', value2: '' }] }],
+};
+
+describe('computeWidgetSeries', () => {
+  it('agrupa pela tabela colunar como categoryData faz pelas linhas', () => {
+    const widget = createWidget('table', 'Campanha', ['Receita', 'fx:roas']);
+    const metrics = catalog.filter(m => widget.metrics.includes(m.key));
+    expect(seriesOf(widget)).toEqual({ kind: 'category', points: categoryData(data.rows, 'Campanha', metrics, data, widget.limit) });
+  });
+
+  it('junta o que passa do limite da pizza em "Outros"', () => {
+    const widget = { ...createWidget('pie', 'Campanha', ['Receita']), limit: 3 };
+    expect(seriesOf(widget)).toEqual({
+      kind: 'pie',
+      slices: [{ name: 'A', value: 60 }, { name: 'B', value: 30 }, { name: 'Outros', value: 12 }],
+    });
+  });
+
+  it('preenche os dias sem registro na tendência e aplica o filtro do widget', () => {
+    const widget = { ...createWidget('line', 'Campanha', ['Gastos']), filter: onlyA };
+    const series = seriesOf(widget);
+    expect(series.kind === 'trend' && series.points.map(p => p.Gastos)).toEqual([10, 0, 5]);
+  });
+
+  it('devolve ao funil só os índices que passam no filtro próprio', () => {
+    expect(seriesOf(createWidget('funnel', 'Campanha', []))).toEqual({ kind: 'rows', indices: null });
+    const series = seriesOf({ ...createWidget('funnel', 'Campanha', []), filter: onlyA });
+    expect(series.kind === 'rows' && Array.from(series.indices ?? [])).toEqual([0, 2]);
+  });
+});
@@ -0,0 +1,90 @@
+import { DashboardData, DataRow } from "../types";
+import { compileAdvancedFilter } from "./advancedFilter";
+import { ColumnarTable, cellAt, labelIndex, numericAt, sumColumnar } from "./columnar";
+import { CompiledMetric } from "./metrics";
+import { bucketize } from "./timeSeries";
+import { CategoryPoint, WIDGET_NEEDS, WidgetSeries, WidgetSpec, finite, pieSlices, rankCategories, trendPoints } from "./widgets";
+
+const metricColumns = (metrics: CompiledMetric[]) => Array.from(new Set(metrics.flatMap(m => m.columns)));
+
+// Filtro próprio do widget sobre o recorte do painel; null quando o widget não tem filtro
+const widgetIndices = (table: ColumnarTable, indices: Uint32Array, spec: WidgetSpec, schema: DashboardData): Uint32Array | null => {
+  const predicate = compileAdvancedFilter(spec.filter, schema);
+  if (!predicate) return null;
+  const columns = Array.from(new Set(spec.filter.groups.flatMap(g => g.conditions.map(c => c.column))))
+    .filter(column => table.columns[column]);
+  const row: DataRow = {};
+  return indices.filter(i => {
+    columns.forEach(column => { row[column] = cellAt(table.columns[column], i); });
+    return predicate(row);
+  });
+};
+
+// Mesmos grupos de categoryData, mas pelos códigos de rótulo da tabela colunar.
+// Vazio e um "N/A" escrito na planilha caem no mesmo grupo, como lá.
+const categoryPoints = (table: ColumnarTable, indices: Uint32Array, dimension: string, metrics: CompiledMetric[], limit: number): CategoryPoint[] => {
+  if (!table.columns[dimension]) return [];
+  const { codes, labels } = labelIndex(table, dimension);
+  const groups = new Map<string, number[]>();
+  indices.forEach(i => {
+    const name = labels[codes[i]] || 'N/A';
+    const group = groups.get(name);
+    if (group) group.push(i);
+    else groups.set(name, [i]);
+  });
+  const columns = metricColumns(metrics);
+  const points = Array.from(groups, ([name, group]) => {
+    const sums = sumColumnar(table, group, columns);
+    return { name, values: Object.fromEntries(metrics.map(m => [m.key, finite(m.evaluate(sums))])) };
+  });
+  return rankCategories(points, metrics, limit);
+};
+
+const computeSeries = (
+  table: ColumnarTable,
+  filtered: Uint32Array,
+  spec: WidgetSpec,
+  catalog: CompiledMetric[],
+  schema: DashboardData,
+  dateColumn?: string
+): WidgetSeries => {
+  const own = widgetIndices(table, filtered, spec, schema);
+  if (spec.type === 'funnel') return { kind: 'rows', indices: own };
+  const indices = own ?? filtered;
+  const metrics = spec.metrics.map(k => catalog.find(m => m.key === k)).filter((m): m is CompiledMetric => !!m);
+  const [first] = metrics;
+  if (!first || (WIDGET_NEEDS[spec.type].dimension && !spec.dimension)) return { kind: 'empty' };
+
+  if (spec.type === 'line' || spec.type === 'area') {
+    const vector = dateColumn ? table.columns[dateColumn] : undefined;
+    if (vector?.kind !== 'date') return { kind: 'empty' };
+    const buckets = bucketize(
+      indices.length,
+      k => { const value = vector.values[indices[k]]; return isNaN(value) ? null : new Date(value); },
+      (k, column) => table.columns[column] ? numericAt(table.columns[column], indices[k]) : 0,
+      metricColumns(metrics),
+      spec.granularity
+    );
+    return { kind: 'trend', points: trendPoints(buckets, metrics) };
+  }
+  if (spec.type === 'kpi') {
+    return { kind: 'total', value: finite(first.evaluate(sumColumnar(table, indices, first.columns))), rowCount: indices.length };
+  }
+  if (spec.type === 'pie' || spec.type === 'donut') {
+    // Todos os grupos entram: o que passar do limite vira "Outros"
+    const points = categoryPoints(table, indices, spec.dimension, [first], Infinity);
+    return { kind: 'pie', slices: pieSlices(points, first, spec.limit) };
+  }
+  return { kind: 'category', points: categoryPoints(table, indices, spec.dimension, metrics, spec.limit) };
+};
+
+// Série de cada widget sobre o recorte do painel, indexada pelo id do widget
+export const computeWidgetSeries = (
+  table: ColumnarTable,
+  filtered: Uint32Array,
+  specs: WidgetSpec[],
+  catalog: CompiledMetric[],
+  schema: DashboardData,
+  dateColumn?: string
+): Record<string, WidgetSeries> =>
+  Object.fromEntries(specs.map(spec => [spec.id, computeSeries(table, filtered, spec, catalog, schema, dateColumn)]));
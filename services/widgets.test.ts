@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EMPTY_ADVANCED_FILTER } from './advancedFilter';
+import { parseCSV } from './csvParser';
+import { buildMetricCatalog } from './metrics';
+import { WidgetType, createWidget, loadWidgetLayout, moveWidget } from './widgets';
+
+const data = parseCSV('Campanha;Data;Gastos;Receita\nA;01/03/2024;R$ 10,00;R$ 40,00').data!;
+const catalog = buildMetricCatalog(data, { revenue: 'Receita', spend: 'Gastos', filters: [] }, []);
+
+const stored = (layouts: Record<string, unknown>) =>
+  vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(layouts) });
+
+describe('loadWidgetLayout', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('valida cada widget salvo contra a planilha aberta', () => {
+    stored({
+      sig: [
+        {
+          id: 'w1', type: 'bar', title: 'Top', width: 9, height: 1, dimension: 'Canal', metrics: ['Gastos', 'Cliques', 3],
+          granularity: 'year', limit: 0,
+          filter: { logic: 'or', groups: [{ conditions: [{ column: 'Campanha', operator: 'eq', value: 'A' }, { column: 'Canal', operator: 'eq', value: 'x' }] }] },
+        },
+        { type: 'radar' },
+        'lixo',
+        { type: 'kpi', dimension: 'Campanha', metrics: ['fx:roas'], granularity: 'week' },
+      ],
+    });
+    const [bar, kpi, ...rest] = loadWidgetLayout('sig', data, catalog)!;
+    expect(rest).toEqual([]);
+    expect(bar).toMatchObject({ id: 'w1', title: 'Top', width: 4, height: 1, dimension: '', metrics: ['Gastos'], granularity: 'day', limit: 1 });
+    expect(bar.filter.logic).toBe('or');
+    expect(bar.filter.groups[0].conditions.map(c => c.column)).toEqual(['Campanha']);
+    expect(kpi).toMatchObject({ type: 'kpi', title: 'Card KPI', width: 2, height: 2, dimension: 'Campanha', metrics: ['fx:roas'], granularity: 'week', limit: 15 });
+    expect(kpi.filter).toEqual(EMPTY_ADVANCED_FILTER);
+  });
+
+  it('devolve null quando não há layout salvo ou o JSON está corrompido', () => {
+    stored({ outra: [] });
+    expect(loadWidgetLayout('sig', data, catalog)).toBeNull();
+    vi.stubGlobal('localStorage', { getItem: () => '{' });
+    expect(loadWidgetLayout('sig', data, catalog)).toBeNull();
+  });
+});
+
+describe('moveWidget', () => {
+  it('move o widget para a posição do alvo', () => {
+    const [a, b, c] = (['bar', 'pie', 'kpi'] as WidgetType[]).map(t => createWidget(t, 'Campanha', ['Gastos']));
+    expect(moveWidget([a, b, c], c.id, a.id).map(w => w.id)).toEqual([c.id, a.id, b.id]);
+  });
+});
@@ -0,0 +1,233 @@
+import { ColumnMapping, DashboardData, DataRow } from "../types";
+import { AdvancedFilter, EMPTY_ADVANCED_FILTER, compileAdvancedFilter, parseAdvancedFilter, sanitizeAdvancedFilter } from "./advancedFilter";
+import { formatValue } from "./formatters";
+import { CompiledMetric, sumColumns } from "./metrics";
+import { Granularity, TimeBucket } from "./timeSeries";
+
+export type WidgetType = 'bar' | 'line' | 'area' | 'pie' | 'donut' | 'scatter' | 'kpi' | 'table' | 'funnel';
+
+// Largura em colunas da grade (4 no desktop); altura 1 = compacta, 2 = alta
+export type WidgetWidth = 1 | 2 | 3 | 4;
+export type WidgetHeight = 1 | 2;
+
+export interface Widget {
+  id: string;
+  type: WidgetType;
+  title: string;
+  width: WidgetWidth;
+  height: WidgetHeight;
+  // Agrupamento de barras, pizza, dispersão e tabela; linha e área usam a coluna de data
+  dimension: string;
+  // bar/pie/donut/kpi: a primeira; line/area/table: todas; scatter: eixo X, eixo Y e tamanho da bolha (opcional)
+  metrics: string[];
+  granularity: Granularity;
+  // Quantos grupos mostrar (maiores pela primeira métrica)
+  limit: number;
+  // Somado aos filtros do painel, só para este widget
+  filter: AdvancedFilter;
+}
+
+export interface CategoryPoint {
+  name: string;
+  values: Record<string, number | null>;
+}
+
+export interface PieSlice {
+  name: string;
+  value: number;
+}
+
+export type TrendPoint = Record<string, string | number | null>;
+
+// Parte do widget que o worker precisa para calcular a série; só dados clonáveis
+export type WidgetSpec = Pick<Widget, 'id' | 'type' | 'dimension' | 'metrics' | 'granularity' | 'limit' | 'filter'>;
+
+// Série pronta de cada widget, calculada no worker sobre o recorte do painel
+export type WidgetSeries =
+  | { kind: 'category', points: CategoryPoint[] }
+  | { kind: 'pie', slices: PieSlice[] }
+  | { kind: 'trend', points: TrendPoint[] }
+  | { kind: 'total', value: number | null, rowCount: number }
+  // Funil: índices das linhas com o filtro do widget; null quando o widget não tem filtro próprio
+  | { kind: 'rows', indices: Uint32Array | null }
+  | { kind: 'empty' };
+
+export const WIDGET_TYPE_LABELS: Record<WidgetType, string> = {
+  bar: 'Barras',
+  line: 'Linha',
+  area: 'Área',
+  pie: 'Pizza',
+  donut: 'Rosca',
+  scatter: 'Dispersão',
+  kpi: 'Card KPI',
+  table: 'Mini tabela',
+  funnel: 'Funil',
+};
+
+// Quais controles o editor mostra para cada tipo
+export const WIDGET_NEEDS: Record<WidgetType, { dimension: boolean, time: boolean, maxMetrics: number, limit: boolean }> = {
+  bar: { dimension: true, time: false, maxMetrics: 1, limit: true },
+  line: { dimension: false, time: true, maxMetrics: 4, limit: false },
+  area: { dimension: false, time: true, maxMetrics: 4, limit: false },
+  pie: { dimension: true, time: false, maxMetrics: 1, limit: true },
+  donut: { dimension: true, time: false, maxMetrics: 1, limit: true },
+  scatter: { dimension: true, time: false, maxMetrics: 3, limit: true },
+  kpi: { dimension: false, time: false, maxMetrics: 1, limit: false },
+  table: { dimension: true, time: false, maxMetrics: 4, limit: true },
+  funnel: { dimension: false, time: false, maxMetrics: 0, limit: false },
+};
+
+const WIDGET_TYPES = Object.keys(WIDGET_TYPE_LABELS) as WidgetType[];
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+const STORAGE_KEY = 'utmdash:widget-layouts';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const finite = (value: number | null) => value !== null && isFinite(value) ? value : null;
+
+export const createWidget = (type: WidgetType, dimension: string, metrics: string[]): Widget => ({
+  id: newId(),
+  type,
+  title: WIDGET_TYPE_LABELS[type],
+  width: type === 'kpi' ? 1 : type === 'funnel' || type === 'table' ? 4 : 2,
+  height: type === 'kpi' ? 1 : 2,
+  dimension,
+  metrics: metrics.slice(0, Math.max(1, WIDGET_NEEDS[type].maxMetrics)),
+  granularity: 'day',
+  limit: type === 'pie' || type === 'donut' ? 6 : 15,
+  filter: EMPTY_ADVANCED_FILTER,
+});
+
+// Layout inicial: o que a aba Visual já mostrava (Top Performance, Tendência, Funil) e Gasto x ROAS por anúncio
+export const defaultWidgets = (mapping: ColumnMapping, catalog: CompiledMetric[], dimensions: string[], dateColumn?: string): Widget[] => {
+  const has = (key?: string) => !!key && catalog.some(m => m.key === key);
+  const dimension = [mapping.adName, mapping.campaign, ...dimensions].find(d => d && dimensions.includes(d)) ?? '';
+  const main = ['fx:roas', mapping.revenue].find(has) ?? catalog[0]?.key ?? '';
+  const widgets: Widget[] = [{ ...createWidget('bar', dimension, [main]), title: 'Top Performance' }];
+  if (dateColumn) {
+    const trend = [mapping.revenue, mapping.spend, 'fx:roas'].filter((k): k is string => has(k));
+    widgets.push({ ...createWidget('line', dimension, trend.length ? trend : [main]), title: 'Tendência' });
+  }
+  if (dimension && has(mapping.spend) && has('fx:roas')) {
+    const bubble = has(mapping.sales) ? [mapping.sales!] : [];
+    widgets.push({ ...createWidget('scatter', dimension, [mapping.spend!, 'fx:roas', ...bubble]), title: 'Gasto x ROAS', width: 4, limit: 30 });
+  }
+  widgets.push({ ...createWidget('funnel', dimension, []), title: 'Funil' });
+  return widgets;
+};
+
+// Linhas do painel com o filtro próprio do widget aplicado por cima
+export const widgetRows = (rows: DataRow[], widget: Widget, data: DashboardData): DataRow[] => {
+  const predicate = compileAdvancedFilter(widget.filter, data);
+  return predicate ? rows.filter(predicate) : rows;
+};
+
+// Grupos pela dimensão, cada métrica agregada somando as colunas do grupo; ordenado pela primeira métrica.
+// Versão por linhas, usada fora do worker (relatório); os widgets recebem as séries prontas do worker.
+export const categoryData = (
+  rows: DataRow[],
+  dimension: string,
+  metrics: CompiledMetric[],
+  data: DashboardData,
+  limit: number
+): CategoryPoint[] => {
+  if (!dimension || metrics.length === 0) return [];
+  const columns = Array.from(new Set(metrics.flatMap(m => m.columns)));
+  const groups = new Map<string, DataRow[]>();
+  rows.forEach(row => {
+    const name = formatValue(row[dimension], data.types[dimension]) || 'N/A';
+    const group = groups.get(name);
+    if (group) group.push(row);
+    else groups.set(name, [row]);
+  });
+  const points = Array.from(groups, ([name, groupRows]) => {
+    const sums = sumColumns(groupRows, columns);
+    return { name, values: Object.fromEntries(metrics.map(m => [m.key, finite(m.evaluate(sums))])) };
+  });
+  return rankCategories(points, metrics, limit);
+};
+
+// Fatias da pizza: os maiores grupos e o resto somado em "Outros" (só faz sentido para métricas somáveis)
+export const pieSlices = (points: CategoryPoint[], metric: CompiledMetric, limit: number): PieSlice[] => {
+  const all = points
+    .map(p => ({ name: p.name, value: p.values[metric.key] ?? 0 }))
+    .filter(p => p.value > 0);
+  if (all.length <= limit) return all;
+  const rest = all.slice(limit - 1).reduce((s, p) => s + p.value, 0);
+  return [...all.slice(0, limit - 1), { name: 'Outros', value: rest }];
+};
+
+export const trendPoints = (buckets: TimeBucket[], metrics: CompiledMetric[]): TrendPoint[] =>
+  buckets.map(bucket => {
+    const point: TrendPoint = { name: bucket.label };
+    metrics.forEach(m => { point[m.key] = finite(m.evaluate(bucket.sums)); });
+    return point;
+  });
+
+// Ordena os grupos pela primeira métrica e corta no limite do widget
+export const rankCategories = (points: CategoryPoint[], metrics: CompiledMetric[], limit: number): CategoryPoint[] => {
+  const first = metrics[0].key;
+  return points
+    .sort((a, b) => (b.values[first] ?? -Infinity) - (a.values[first] ?? -Infinity))
+    .slice(0, limit);
+};
+
+// Só o que muda o cálculo: título, largura e altura não disparam nova consulta no worker
+export const widgetSpec = ({ id, type, dimension, metrics, granularity, limit, filter }: Widget): WidgetSpec =>
+  ({ id, type, dimension, metrics, granularity, limit, filter });
+
+export const moveWidget = (widgets: Widget[], fromId: string, toId: string): Widget[] => {
+  const from = widgets.findIndex(w => w.id === fromId);
+  const to = widgets.findIndex(w => w.id === toId);
+  if (from < 0 || to < 0 || from === to) return widgets;
+  const next = [...widgets];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// Layout vindo do localStorage: valida campo a campo e descarta colunas e métricas que esta planilha não tem
+const isWidgetType = (v: unknown): v is WidgetType => WIDGET_TYPES.includes(v as WidgetType);
+const isGranularity = (v: unknown): v is Granularity => GRANULARITIES.includes(v as Granularity);
+
+const sanitizeWidget = (raw: unknown, data: DashboardData, catalog: CompiledMetric[]): Widget | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const w = raw as Record<string, unknown>;
+  if (!isWidgetType(w.type)) return null;
+  const clamp = (v: unknown, min: number, max: number, fallback: number) =>
+    typeof v === 'number' && Number.isInteger(v) ? Math.min(max, Math.max(min, v)) : fallback;
+  const filter = parseAdvancedFilter(w.filter);
+  return {
+    id: typeof w.id === 'string' ? w.id : newId(),
+    type: w.type,
+    title: typeof w.title === 'string' ? w.title : WIDGET_TYPE_LABELS[w.type],
+    width: clamp(w.width, 1, 4, 2) as WidgetWidth,
+    height: clamp(w.height, 1, 2, 2) as WidgetHeight,
+    dimension: typeof w.dimension === 'string' && data.headers.includes(w.dimension) ? w.dimension : '',
+    metrics: Array.isArray(w.metrics) ? w.metrics.filter((k): k is string => typeof k === 'string' && catalog.some(m => m.key === k)) : [],
+    granularity: isGranularity(w.granularity) ? w.granularity : 'day',
+    limit: clamp(w.limit, 1, 100, 15),
+    filter: filter ? sanitizeAdvancedFilter(filter, data) : EMPTY_ADVANCED_FILTER,
+  };
+};
+
+const loadLayouts = (): Record<string, unknown> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Um layout por planilha (assinatura dos cabeçalhos); null quando ainda não há layout salvo
+export const loadWidgetLayout = (signature: string, data: DashboardData, catalog: CompiledMetric[]): Widget[] | null => {
+  const saved = loadLayouts()[signature];
+  if (!Array.isArray(saved)) return null;
+  return saved.map(w => sanitizeWidget(w, data, catalog)).filter((w): w is Widget => w !== null);
+};
+
+export const saveWidgetLayout = (signature: string, widgets: Widget[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadLayouts(), [signature]: widgets }));
+};
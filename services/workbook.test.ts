@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { readWorkbook } from './workbook';
+
+const workbookWith = (cells: { v: number, z: string }[]): ArrayBuffer => {
+  const sheet = XLSX.utils.aoa_to_sheet([['Valor'], ...cells.map(c => [c.v])]);
+  cells.forEach((cell, i) => { sheet[XLSX.utils.encode_cell({ r: i + 1, c: 0 })].z = cell.z; });
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Planilha1');
+  return XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+};
+
+describe('readWorkbook', () => {
+  it('mantém o símbolo de moeda do formato da célula', async () => {
+    const [table] = await readWorkbook(workbookWith([
+      { v: 10.5, z: '"R$" #,##0.00' },
+      { v: 20, z: '[$US$-409]#,##0.00' },
+      { v: 30, z: '[$€-2] #,##0.00' },
+      { v: 40, z: '$#,##0.00' },
+      { v: 50, z: '[$-416]#,##0.00' },
+      { v: 60, z: '[$£-809]#,##0.00' },
+      { v: 0.125, z: '0.0%' },
+    ]));
+    expect(table.records.map(r => r[0])).toEqual(['R$ 10,5', 'US$ 20', '€ 30', '$ 40', '50', '60', '12,5%']);
+  });
+});
@@ -0,0 +1,99 @@
+import { DashboardData } from "../types";
+import type { CellObject, WorkSheet } from "xlsx";
+import { buildDashboardData } from "./columnTypes";
+import { normalizeHeaders } from "./csvParser";
+
+// Aba ainda com células em texto, no mesmo formato que sai do parser de CSV
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  records: string[][];
+}
+
+export const SOURCE_TAB_COLUMN = 'Aba';
+
+const CURRENCY_FORMAT_RE = /R\$|US\$|\$|€/;
+
+// Símbolo da moeda no formato da célula: [$€-2] e [$US$-409] trazem o símbolo no marcador de localidade;
+// fora dele, ignora os demais colchetes ([$-416], [Red]). null quando não é um símbolo que a inferência reconhece.
+const currencySymbol = (format: string): string | null => {
+  const tagged = format.match(/\[\$([^\]-]+)(?:-[0-9A-F]+)?\]/i);
+  const text = tagged ? tagged[1] : format.replace(/\[[^\]]*\]/g, '');
+  return text.match(CURRENCY_FORMAT_RE)?.[0] ?? null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Números do Excel viram texto com vírgula decimal para passar pela mesma inferência do CSV
+const toDecimalText = (value: number) => String(Number(value.toPrecision(12))).replace('.', ',');
+
+const cellToText = (cell: CellObject | undefined, SSF: typeof import('xlsx').SSF): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return cell?.w ?? '';
+  // Erro de fórmula (#DIV/0!, #N/D...) segue como texto para o painel de qualidade listar
+  if (cell.t === 'e') return (cell.w ?? '').trim();
+  if (cell.t !== 'n' || typeof cell.v !== 'number') return String(cell.v).trim();
+
+  const format = typeof cell.z === 'string' ? cell.z : '';
+  if (format && SSF.is_date(format)) {
+    // parse_date_code trabalha no serial do Excel, sem passar pelo fuso do navegador
+    const d = SSF.parse_date_code(cell.v);
+    const date = `${d.y}-${pad(d.m)}-${pad(d.d)}`;
+    return d.H || d.M || d.S ? `${date} ${pad(d.H)}:${pad(d.M)}:${pad(d.S)}` : date;
+  }
+  if (format.includes('%')) return `${toDecimalText(cell.v * 100)}%`;
+  const symbol = currencySymbol(format);
+  return symbol ? `${symbol} ${toDecimalText(cell.v)}` : toDecimalText(cell.v);
+};
+
+const sheetToTable = (name: string, sheet: WorkSheet, XLSX: typeof import('xlsx')): SheetTable | null => {
+  if (!sheet['!ref']) return null;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellToText(sheet[XLSX.utils.encode_cell({ r, c })], XLSX.SSF));
+    }
+    if (row.some(v => v !== '')) rows.push(row);
+  }
+  if (rows.length === 0) return null;
+  return { name, headers: normalizeHeaders(rows[0]), records: rows.slice(1) };
+};
+
+// A biblioteca só é baixada quando alguém envia uma planilha do Excel
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<SheetTable[]> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+  return workbook.SheetNames
+    .map(name => sheetToTable(name, workbook.Sheets[name], XLSX))
+    .filter((t): t is SheetTable => t !== null);
+};
+
+// Empilha abas com colunas iguais (sem diferenciar maiúsculas); colunas que faltam numa aba ficam vazias
+export const appendTables = (tables: SheetTable[]): SheetTable => {
+  const headers: string[] = [];
+  const seen = new Map<string, number>();
+  tables.forEach(t => t.headers.forEach(h => {
+    if (seen.has(h.toLowerCase())) return;
+    seen.set(h.toLowerCase(), headers.length);
+    headers.push(h);
+  }));
+  const tabColumn = seen.has(SOURCE_TAB_COLUMN.toLowerCase()) ? `${SOURCE_TAB_COLUMN} (origem)` : SOURCE_TAB_COLUMN;
+
+  const records = tables.flatMap(t => {
+    const positions = t.headers.map(h => seen.get(h.toLowerCase())!);
+    return t.records.map(record => {
+      const row = new Array<string>(headers.length).fill('');
+      positions.forEach((target, i) => { row[target] = record[i] ?? ''; });
+      return [t.name, ...row];
+    });
+  });
+
+  return { name: tables.map(t => t.name).join(' + '), headers: [tabColumn, ...headers], records };
+};
+
+export const tablesToDashboardData = (tables: SheetTable[]): DashboardData | null => {
+  if (tables.length === 0) return null;
+  const table = tables.length === 1 ? tables[0] : appendTables(tables);
+  return table.headers.length ? buildDashboardData(table.headers, table.records) : null;
+};
@@ -1,4 +1,8 @@
 
+export type ColumnType = 'date' | 'currency' | 'percent' | 'integer' | 'number' | 'string';
+
+export type CellValue = string | number | Date;
+
 export interface DataRow {
   [key: string]: any;
 }
@@ -6,7 +10,9 @@ export interface DataRow {
 export interface DashboardData {
   headers: string[];
   rows: DataRow[];
-  types: Record<string, 'number' | 'string'>;
+  types: Record<string, ColumnType>;
+  // Colunas calculadas no carregamento (ex.: UTMs extraídas de URLs), ausentes do arquivo original
+  virtualColumns?: string[];
 }
 
 export interface FilterState {
@@ -14,8 +20,41 @@ export interface FilterState {
   value: string | number;
 }
 
+export type InsightSeverity = 'high' | 'medium' | 'low';
+
+// Anomalia apontada pela IA, sempre presa a um anúncio ou campanha específico
+export interface InsightAnomaly {
+  dimension: string;
+  entity: string;
+  description: string;
+  severity: InsightSeverity;
+}
+
 export interface InsightResult {
   title: string;
   summary: string;
   recommendations: string[];
+  anomalies: InsightAnomaly[];
+}
+
+// Papéis semânticos atribuídos às colunas da planilha
+export interface ColumnMapping {
+  revenue?: string;
+  spend?: string;
+  date?: string;
+  adName?: string;
+  campaign?: string;
+  sales?: string;
+  cogs?: string;
+  clicks?: string;
+  impressions?: string;
+  filters: string[];
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  updatedAt: number;
 }